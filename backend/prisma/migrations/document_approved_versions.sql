@@ -0,0 +1,18 @@
+-- backend/prisma/migrations/document_approved_versions.sql
+-- The last approved version of a document stays searchable for workers while
+-- a newer version is processed and reviewed
+
+-- ============================================
+-- 1. APPROVED VERSION
+-- ============================================
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS approved_version INTEGER;
+
+-- Documents approved so far were approved in their current version
+UPDATE documents
+SET approved_version = version
+WHERE review_status = 'approved'
+  AND approved_version IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_approved_version ON documents(approved_version) WHERE approved_version IS NOT NULL;
@@ -0,0 +1,30 @@
+-- backend/prisma/migrations/document_dedup.sql
+-- Exact-duplicate detection on upload and department links for shared documents
+
+-- ============================================
+-- 1. FILE HASHES
+-- ============================================
+
+-- Documents uploaded before this migration have no hash and are never
+-- reported as duplicates until a new version is uploaded
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS file_hash TEXT;
+
+ALTER TABLE document_versions
+ADD COLUMN IF NOT EXISTS file_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_warehouse_file_hash ON documents(warehouse_id, file_hash);
+
+-- ============================================
+-- 2. DEPARTMENT LINKS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS document_departments (
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  department_id UUID NOT NULL REFERENCES departments(id) ON DELETE CASCADE,
+  linked_by_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (document_id, department_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_departments_department ON document_departments(department_id);
@@ -0,0 +1,26 @@
+-- backend/prisma/migrations/document_expiry_notifications.sql
+-- Expiry notifications tracked apart from the review-due flag, so a document
+-- flagged for review still notifies its owner when it later expires
+
+-- ============================================
+-- 1. EXPIRY NOTIFICATION COLUMN
+-- ============================================
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS expiry_notified_at TIMESTAMPTZ;
+
+-- Documents flagged before this migration were notified of whichever came first
+UPDATE documents
+SET expiry_notified_at = stale_flagged_at
+WHERE stale_flagged_at IS NOT NULL
+  AND expires_at IS NOT NULL
+  AND expires_at <= stale_flagged_at
+  AND expiry_notified_at IS NULL;
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+-- The scheduled check looks for expired documents not yet notified
+DROP INDEX IF EXISTS idx_documents_expires_at;
+CREATE INDEX IF NOT EXISTS idx_documents_expires_at ON documents(expires_at) WHERE expiry_notified_at IS NULL;
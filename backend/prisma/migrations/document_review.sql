@@ -0,0 +1,59 @@
+-- backend/prisma/migrations/document_review.sql
+-- Review workflow: documents are approved before workers can find them
+
+-- ============================================
+-- 1. REVIEW STATUS
+-- ============================================
+
+-- Documents that are already searchable stay approved; new uploads start as drafts
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'approved';
+
+ALTER TABLE documents
+ALTER COLUMN review_status SET DEFAULT 'draft';
+
+CREATE INDEX IF NOT EXISTS idx_documents_review_status ON documents(review_status);
+
+-- ============================================
+-- 2. REVIEWERS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS document_reviewers (
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  reviewer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  assigned_by_id UUID NOT NULL,
+  decision TEXT,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (document_id, reviewer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_reviewers_reviewer ON document_reviewers(reviewer_id);
+
+-- ============================================
+-- 3. COMMENTS AND APPROVAL RECORDS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS document_review_comments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES users(id),
+  version INTEGER NOT NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_review_comments_document ON document_review_comments(document_id);
+
+CREATE TABLE IF NOT EXISTS document_approvals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  file_hash TEXT,
+  decision TEXT NOT NULL,
+  decided_by_id UUID NOT NULL REFERENCES users(id),
+  comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_approvals_document ON document_approvals(document_id);
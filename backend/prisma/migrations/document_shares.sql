@@ -0,0 +1,30 @@
+-- backend/prisma/migrations/document_shares.sql
+-- Document-level access control: explicit share grants and indexes for the access checks
+
+-- ============================================
+-- 1. SHARE GRANTS
+-- ============================================
+
+-- A share names either a user or a department
+CREATE TABLE IF NOT EXISTS document_shares (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  department_id UUID REFERENCES departments(id) ON DELETE CASCADE,
+  granted_by_id UUID NOT NULL,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((user_id IS NULL) <> (department_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_shares_document ON document_shares(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_shares_user ON document_shares(user_id);
+CREATE INDEX IF NOT EXISTS idx_document_shares_department ON document_shares(department_id);
+
+-- ============================================
+-- 2. ACCESS CHECK INDEXES
+-- ============================================
+
+-- Every non-admin search filters on these columns
+CREATE INDEX IF NOT EXISTS idx_documents_department ON documents(department_id);
+CREATE INDEX IF NOT EXISTS idx_documents_public ON documents(is_public) WHERE is_public;
@@ -0,0 +1,33 @@
+-- backend/prisma/migrations/document_validity.sql
+-- Document validity dates, stale-content flags and in-app notifications
+
+-- ============================================
+-- 1. VALIDITY DATES
+-- ============================================
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS valid_from TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS review_due_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS stale_flagged_at TIMESTAMPTZ;
+
+-- The scheduled check looks for unflagged documents past either date
+CREATE INDEX IF NOT EXISTS idx_documents_review_due_at ON documents(review_due_at) WHERE stale_flagged_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_documents_expires_at ON documents(expires_at) WHERE stale_flagged_at IS NULL;
+
+-- ============================================
+-- 2. NOTIFICATIONS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_read ON notifications(user_id, read_at);
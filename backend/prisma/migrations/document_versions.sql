@@ -0,0 +1,52 @@
+-- backend/prisma/migrations/document_versions.sql
+-- Document revisions: version history and per-version chunks
+
+-- ============================================
+-- 1. VERSION COLUMNS
+-- ============================================
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE chunks
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- Existing chunks keep their embeddings when the first revision is uploaded
+UPDATE chunks
+SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+WHERE content_hash IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_chunks_document_version ON chunks(document_id, version);
+CREATE INDEX IF NOT EXISTS idx_chunks_content_hash ON chunks(document_id, content_hash);
+
+-- ============================================
+-- 2. VERSION HISTORY
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  filename TEXT NOT NULL,
+  original_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size BIGINT NOT NULL,
+  path TEXT NOT NULL,
+  change_note TEXT,
+  uploaded_by_id UUID NOT NULL REFERENCES users(id),
+  chunk_count INTEGER,
+  changed_chunks INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (document_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_document ON document_versions(document_id);
+
+-- Every existing document becomes version 1 of itself
+INSERT INTO document_versions (document_id, version, filename, original_name, mime_type, size, path, uploaded_by_id, chunk_count, created_at)
+SELECT d.id, 1, d.filename, d.original_name, d.mime_type, d.size, d.path, d.uploaded_by_id,
+       (SELECT COUNT(*) FROM chunks c WHERE c.document_id = d.id),
+       d.created_at
+FROM documents d
+ON CONFLICT (document_id, version) DO NOTHING;
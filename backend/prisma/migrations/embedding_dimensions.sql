@@ -0,0 +1,28 @@
+-- backend/prisma/migrations/embedding_dimensions.sql
+-- Vectors of any dimension: providers other than OpenAI embed in 384 (hashing),
+-- 768 (Ollama) or a configured size. Each row records its model and dimensions,
+-- and queries compare only vectors of one model.
+
+-- ============================================
+-- 1. DROP FIXED-DIMENSION VECTOR INDEXES
+-- ============================================
+
+-- ivfflat needs a fixed dimension; none of these is read by a vector search
+DROP INDEX IF EXISTS idx_cached_embeddings_vector;
+DROP INDEX IF EXISTS idx_ai_messages_embedding;
+DROP INDEX IF EXISTS idx_chunks_embedding;
+DROP INDEX IF EXISTS idx_documents_embedding;
+
+-- ============================================
+-- 2. UNCONSTRAINED VECTOR COLUMNS
+-- ============================================
+
+ALTER TABLE embeddings ALTER COLUMN embedding TYPE vector;
+
+ALTER TABLE cached_embeddings ALTER COLUMN embedding TYPE vector;
+ALTER TABLE cached_embeddings ALTER COLUMN dimensions DROP DEFAULT;
+
+ALTER TABLE search_logs ALTER COLUMN query_vector TYPE vector;
+ALTER TABLE ai_messages ALTER COLUMN embedding TYPE vector;
+ALTER TABLE chunks ALTER COLUMN embedding TYPE vector;
+ALTER TABLE documents ALTER COLUMN embedding TYPE vector;
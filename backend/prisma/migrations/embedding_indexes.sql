@@ -0,0 +1,29 @@
+-- backend/prisma/migrations/embedding_indexes.sql
+-- Parallel embedding indexes for zero-downtime model migrations
+
+-- ============================================
+-- 1. SINGLE ACTIVE INDEX
+-- ============================================
+
+-- Search reads exactly one index; the switch retires the old row and activates
+-- the new one in a single transaction, and this index rejects a second "active"
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_index_single_active
+  ON "EmbeddingIndex"(status)
+  WHERE status = 'active';
+
+-- Only one migration may build at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_index_single_building
+  ON "EmbeddingIndex"(status)
+  WHERE status = 'building';
+
+-- ============================================
+-- 2. REGISTER EXISTING VECTORS
+-- ============================================
+
+-- Vectors already stored before indexes existed become the active index
+INSERT INTO "EmbeddingIndex" (id, provider, model, "modelId", dimensions, status, "totalChunks", "processedChunks", "activatedAt", "createdAt", "updatedAt")
+SELECT uuid_generate_v4(), split_part(model, ':', 1), substring(model from position(':' in model) + 1), model, MAX(dimensions), 'active', COUNT(*), COUNT(*), NOW(), NOW(), NOW()
+FROM embeddings
+WHERE model = 'openai:text-embedding-3-small'
+GROUP BY model
+ON CONFLICT ("modelId") DO NOTHING;
@@ -0,0 +1,27 @@
+-- backend/prisma/migrations/embedding_providers.sql
+-- Per-model embedding storage for pluggable embedding providers
+
+-- ============================================
+-- 1. EMBEDDINGS TABLE INDEXES
+-- ============================================
+
+-- One vector per chunk per model; models are stored as "<provider>:<model>"
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embeddings_chunk_model ON embeddings(chunk_id, model);
+CREATE INDEX IF NOT EXISTS idx_embeddings_model ON embeddings(model, dimensions);
+
+-- ============================================
+-- 2. BACKFILL FROM chunks.embedding
+-- ============================================
+
+-- Vectors written before providers existed were always OpenAI text-embedding-3-small
+INSERT INTO embeddings (id, chunk_id, embedding, model, dimensions, created_at)
+SELECT uuid_generate_v4(), c.id, c.embedding, 'openai:text-embedding-3-small', vector_dims(c.embedding), NOW()
+FROM chunks c
+WHERE c.embedding IS NOT NULL
+ON CONFLICT (chunk_id, model) DO NOTHING;
+
+-- ============================================
+-- 3. CACHED EMBEDDINGS
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_cached_embeddings_model ON cached_embeddings(model);
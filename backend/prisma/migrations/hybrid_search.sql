@@ -0,0 +1,21 @@
+-- backend/prisma/migrations/hybrid_search.sql
+-- Keyword indexes backing hybrid (full-text + trigram + vector) search
+
+-- ============================================
+-- 1. EXTENSIONS
+-- ============================================
+
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- ============================================
+-- 2. CHUNK KEYWORD INDEXES
+-- ============================================
+
+-- Full-text index using the language-neutral 'simple' configuration so that
+-- Arabic, German and English chunks are tokenised the same way
+CREATE INDEX IF NOT EXISTS idx_chunks_content_fts
+  ON chunks USING gin (to_tsvector('simple', content));
+
+-- Trigram index for word_similarity() on codes, SKUs and partial tokens
+CREATE INDEX IF NOT EXISTS idx_chunks_content_trgm
+  ON chunks USING gin (content gin_trgm_ops);
@@ -0,0 +1,14 @@
+-- backend/prisma/migrations/processing_failures.sql
+-- Failure categories and dead-letter state of document processing
+
+-- ============================================
+-- 1. FAILURE TRIAGE COLUMNS
+-- ============================================
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS failure_category TEXT,
+ADD COLUMN IF NOT EXISTS processing_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+
+-- Admins list dead-lettered documents by category
+CREATE INDEX IF NOT EXISTS idx_documents_dead_lettered ON documents(failure_category, dead_lettered_at) WHERE dead_lettered_at IS NOT NULL;
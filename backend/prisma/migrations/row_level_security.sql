@@ -0,0 +1,118 @@
+-- backend/prisma/migrations/row_level_security.sql
+-- Warehouse isolation in the database: row-level security on tenant data.
+-- The API sets app.warehouse_id, app.user_id and app.bypass_rls for each
+-- transaction (src/lib/prisma.ts); without them no rows are visible.
+
+-- ============================================
+-- 1. TENANT SETTINGS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION app_current_warehouse() RETURNS UUID AS $$
+  SELECT NULLIF(current_setting('app.warehouse_id', TRUE), '')::UUID
+$$ LANGUAGE SQL STABLE;
+
+CREATE OR REPLACE FUNCTION app_current_user() RETURNS UUID AS $$
+  SELECT NULLIF(current_setting('app.user_id', TRUE), '')::UUID
+$$ LANGUAGE SQL STABLE;
+
+-- Admin cross-warehouse operations, queue workers and maintenance scripts
+CREATE OR REPLACE FUNCTION app_rls_bypass() RETURNS BOOLEAN AS $$
+  SELECT COALESCE(current_setting('app.bypass_rls', TRUE), '') = 'on'
+$$ LANGUAGE SQL STABLE;
+
+-- ============================================
+-- 2. DOCUMENTS
+-- ============================================
+
+-- FORCE applies the policies to the table owner too, which the API connects as
+ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE documents FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS documents_warehouse ON documents;
+CREATE POLICY documents_warehouse ON documents
+  USING (app_rls_bypass() OR warehouse_id = app_current_warehouse())
+  WITH CHECK (app_rls_bypass() OR warehouse_id = app_current_warehouse());
+
+-- Public documents and explicit shares can be read from other warehouses,
+-- by a user: without a tenant nothing is visible
+DROP POLICY IF EXISTS documents_shared_read ON documents;
+CREATE POLICY documents_shared_read ON documents FOR SELECT
+  USING (
+    app_current_user() IS NOT NULL
+    AND (is_public OR EXISTS (
+      SELECT 1 FROM document_shares s
+      WHERE s.document_id = documents.id
+        AND (s.expires_at IS NULL OR s.expires_at > NOW())
+        AND (
+          s.user_id = app_current_user()
+          OR s.department_id = (SELECT u.department_id FROM users u WHERE u.id = app_current_user())
+        )
+    ))
+  );
+
+-- ============================================
+-- 3. CHUNKS AND EMBEDDINGS
+-- ============================================
+
+-- Readable with their document; the subquery is itself subject to the document policies
+ALTER TABLE chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chunks FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS chunks_read ON chunks;
+CREATE POLICY chunks_read ON chunks FOR SELECT
+  USING (app_rls_bypass() OR EXISTS (SELECT 1 FROM documents d WHERE d.id = chunks.document_id));
+
+DROP POLICY IF EXISTS chunks_warehouse ON chunks;
+CREATE POLICY chunks_warehouse ON chunks
+  USING (app_rls_bypass() OR EXISTS (
+    SELECT 1 FROM documents d
+    WHERE d.id = chunks.document_id AND d.warehouse_id = app_current_warehouse()
+  ))
+  WITH CHECK (app_rls_bypass() OR EXISTS (
+    SELECT 1 FROM documents d
+    WHERE d.id = chunks.document_id AND d.warehouse_id = app_current_warehouse()
+  ));
+
+ALTER TABLE embeddings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE embeddings FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS embeddings_read ON embeddings;
+CREATE POLICY embeddings_read ON embeddings FOR SELECT
+  USING (app_rls_bypass() OR EXISTS (SELECT 1 FROM chunks c WHERE c.id = embeddings.chunk_id));
+
+DROP POLICY IF EXISTS embeddings_warehouse ON embeddings;
+CREATE POLICY embeddings_warehouse ON embeddings
+  USING (app_rls_bypass() OR EXISTS (
+    SELECT 1 FROM chunks c
+    JOIN documents d ON d.id = c.document_id
+    WHERE c.id = embeddings.chunk_id AND d.warehouse_id = app_current_warehouse()
+  ))
+  WITH CHECK (app_rls_bypass() OR EXISTS (
+    SELECT 1 FROM chunks c
+    JOIN documents d ON d.id = c.document_id
+    WHERE c.id = embeddings.chunk_id AND d.warehouse_id = app_current_warehouse()
+  ));
+
+-- ============================================
+-- 4. QUERIES AND EQUIPMENT
+-- ============================================
+
+-- Queries belong to the warehouse of the user who asked them
+ALTER TABLE queries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE queries FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS queries_warehouse ON queries;
+CREATE POLICY queries_warehouse ON queries
+  USING (app_rls_bypass() OR user_id = app_current_user() OR EXISTS (
+    SELECT 1 FROM users u
+    WHERE u.id = queries.user_id AND u.warehouse_id = app_current_warehouse()
+  ))
+  WITH CHECK (app_rls_bypass() OR user_id = app_current_user());
+
+ALTER TABLE equipment ENABLE ROW LEVEL SECURITY;
+ALTER TABLE equipment FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS equipment_warehouse ON equipment;
+CREATE POLICY equipment_warehouse ON equipment
+  USING (app_rls_bypass() OR warehouse_id = app_current_warehouse())
+  WITH CHECK (app_rls_bypass() OR warehouse_id = app_current_warehouse());
@@ -0,0 +1,16 @@
+-- backend/prisma/migrations/storage_drivers.sql
+-- Pluggable file storage: each document records the driver its file lives in
+
+-- ============================================
+-- 1. STORAGE DRIVER COLUMNS
+-- ============================================
+
+-- Existing files stay on local disk at their absolute paths until
+-- `npm run storage:migrate` moves them
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS storage_driver TEXT NOT NULL DEFAULT 'local';
+
+ALTER TABLE document_versions
+ADD COLUMN IF NOT EXISTS storage_driver TEXT NOT NULL DEFAULT 'local';
+
+CREATE INDEX IF NOT EXISTS idx_documents_storage_driver ON documents(storage_driver);
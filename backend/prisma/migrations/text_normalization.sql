@@ -0,0 +1,28 @@
+-- backend/prisma/migrations/text_normalization.sql
+-- Keyword search over normalized chunk text (see text-normalization.service.ts)
+
+-- ============================================
+-- 1. SEARCH TEXT COLUMN
+-- ============================================
+
+-- Written by the document processor; chunks processed before this migration
+-- fall back to their raw content until the document is reprocessed
+ALTER TABLE chunks
+ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+-- Replaced by the indexes below, which cover the expression keyword search
+-- queries: COALESCE(search_text, content)
+DROP INDEX IF EXISTS idx_chunks_search_text;
+DROP INDEX IF EXISTS idx_chunks_content_fts;
+DROP INDEX IF EXISTS idx_chunks_content_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_chunks_search_text_fts
+  ON chunks USING gin (to_tsvector('simple', COALESCE(search_text, content)));
+
+-- Backs the <% (word similarity) operator
+CREATE INDEX IF NOT EXISTS idx_chunks_search_text_trgm
+  ON chunks USING gin ((COALESCE(search_text, content)) gin_trgm_ops);
@@ -1,8 +1,9 @@
 // wmlab/backend/prisma/seed.ts
-import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { createPrismaClient } from '../src/lib/prisma';
+import { runAsSystem } from '../src/lib/tenant-context';
 
-const prisma = new PrismaClient();
+const prisma = createPrismaClient();
 
 async function main() {
   console.log('Starting database seed...');
@@ -220,7 +221,8 @@ async function main() {
   console.log('Worker: worker@wmlab.com / password123');
 }
 
-main()
+// Seeds every warehouse, past row-level security
+runAsSystem(main)
   .catch((e) => {
     console.error('Error seeding database:', e);
     process.exit(1);
@@ -0,0 +1,45 @@
+// backend/scripts/download-tessdata.ts
+// Download the Tesseract language data used for OCR (eng, ara, deu) into OCR_LANG_PATH:
+//   npm run ocr:languages [-- --force]
+// Run once per host, or while building the image; OCR never downloads at runtime.
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import path from 'path';
+import fs from 'fs/promises';
+import { gzipSync } from 'zlib';
+
+const LANGUAGES = ['eng', 'ara', 'deu'];
+const SOURCE_URL = process.env.OCR_LANG_SOURCE_URL || 'https://github.com/tesseract-ocr/tessdata_fast/raw/main';
+
+async function main() {
+  const langPath = path.resolve(process.env.OCR_LANG_PATH || 'tessdata');
+  const gzip = process.env.OCR_LANG_GZIP === 'true';
+  const force = process.argv.includes('--force');
+
+  await fs.mkdir(langPath, { recursive: true });
+
+  for (const language of LANGUAGES) {
+    const target = path.join(langPath, `${language}.traineddata${gzip ? '.gz' : ''}`);
+
+    if (!force && await fs.access(target).then(() => true, () => false)) {
+      console.log(`${target} already exists`);
+      continue;
+    }
+
+    const response = await fetch(`${SOURCE_URL}/${language}.traineddata`);
+    if (!response.ok) {
+      throw new Error(`Download of ${language}.traineddata failed: HTTP ${response.status}`);
+    }
+
+    const data = Buffer.from(await response.arrayBuffer());
+    await fs.writeFile(target, gzip ? gzipSync(data) : data);
+    console.log(`${target} (${Math.round(data.length / 1024)} KB)`);
+  }
+}
+
+main().catch(error => {
+  console.error('Language data download failed:', error);
+  process.exit(1);
+});
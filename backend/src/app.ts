@@ -9,11 +9,15 @@ import { config } from './config';
 import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
 import { logger } from './utils/logger';
+import { tenantContext } from './lib/tenant-context';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
 import userRoutes from './routes/users.routes';
 import warehouseRoutes from './routes/warehouses.routes';
+import embeddingRoutes from './routes/embeddings.routes';
+import notificationRoutes from './routes/notifications.routes';
+import processingRoutes from './routes/processing.routes';
 
 // Initialize express app
 const app: Application = express();
@@ -97,10 +101,16 @@ app.get('/api/v1', (req, res) => {
   });
 });
 
+// Tenant of each request, for the database's row-level security policies
+app.use(tenantContext);
+
 // Mount routes
 app.use('/api/v1/auth', authLimiter, authRoutes);
 app.use('/api/v1/users', userRoutes);
 app.use('/api/v1/warehouses', warehouseRoutes);
+app.use('/api/v1/embeddings', embeddingRoutes);
+app.use('/api/v1/notifications', notificationRoutes);
+app.use('/api/v1/processing', processingRoutes);
 
 // 404 handler
 app.use(notFound);
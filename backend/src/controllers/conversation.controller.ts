@@ -0,0 +1,159 @@
+// backend/src/controllers/conversation.controller.ts
+
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ConversationService } from '../services/ai/conversation.service';
+import { logger } from '../utils/logger';
+
+export class ConversationController {
+  private conversationService: ConversationService;
+
+  constructor() {
+    this.conversationService = new ConversationService();
+  }
+
+  /**
+   * Create conversation
+   * POST /api/search/conversations
+   */
+  create = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const userId = (req as any).user.id;
+      const { title, language, departmentId } = req.body;
+
+      const conversation = await this.conversationService.create(userId, {
+        title,
+        language,
+        departmentId: departmentId || (req as any).user.departmentId
+      });
+
+      logger.info(`Conversation ${conversation.id} created by user ${userId}`);
+
+      res.status(201).json({
+        success: true,
+        data: conversation
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * List conversations
+   * GET /api/search/conversations
+   */
+  list = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { includeArchived, limit = 20, offset = 0 } = req.query;
+
+      const conversations = await this.conversationService.list((req as any).user.id, {
+        includeArchived: includeArchived === 'true',
+        limit: Number(limit),
+        offset: Number(offset)
+      });
+
+      res.json({
+        success: true,
+        data: conversations
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get conversation with its messages
+   * GET /api/search/conversations/:conversationId
+   */
+  get = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const userId = (req as any).user.id;
+      const { conversationId } = req.params;
+
+      const conversation = await this.conversationService.get(userId, conversationId);
+      const messages = await this.conversationService.getMessages(userId, conversationId);
+
+      res.json({
+        success: true,
+        data: { ...conversation, messages }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Rename or archive conversation
+   * PATCH /api/search/conversations/:conversationId
+   */
+  update = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const userId = (req as any).user.id;
+      const { conversationId } = req.params;
+      const { title, archived } = req.body;
+
+      let conversation = await this.conversationService.get(userId, conversationId);
+      if (title !== undefined) {
+        conversation = await this.conversationService.rename(userId, conversationId, title);
+      }
+      if (archived !== undefined) {
+        conversation = await this.conversationService.setArchived(userId, conversationId, archived);
+      }
+
+      res.json({
+        success: true,
+        data: conversation
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Append a user message without generating an answer; assistant turns
+   * are only written by the answer endpoints
+   * POST /api/search/conversations/:conversationId/messages
+   */
+  appendMessage = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const userId = (req as any).user.id;
+      const { conversationId } = req.params;
+      const { content, metadata } = req.body;
+
+      await this.conversationService.get(userId, conversationId);
+      const message = await this.conversationService.appendMessage(conversationId, 'user', content, metadata);
+
+      res.status(201).json({
+        success: true,
+        data: message
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,9 +1,18 @@
 // backend/src/controllers/search.controller.ts
 
 import { Request, Response, NextFunction } from 'express';
-import { SemanticSearchService } from '../services/search/semantic-search.service';
-import { OpenAIService } from '../services/ai/openai.service';
-import { PromptService } from '../services/ai/prompt.service';
+import { createPrismaClient, TenantPrismaClient } from '../lib/prisma';
+import { SemanticSearchService, SearchResult } from '../services/search/semantic-search.service';
+import { llmProviderService } from '../services/ai/llm-provider.service';
+import { LLMProvider, ChatMessage } from '../services/ai/providers';
+import { PromptService, PromptContext, PromptLanguage, PROMPT_LANGUAGES } from '../services/ai/prompt.service';
+import { CitationService, Citation } from '../services/ai/citation.service';
+import { GroundingService, GroundingReport } from '../services/ai/grounding.service';
+import { ConversationService } from '../services/ai/conversation.service';
+import { languageDetectionService, LanguageDetection } from '../services/ai/language-detection.service';
+import { documentValidityService } from '../services/validity/document-validity.service';
+import { documentAccessService } from '../services/access/document-access.service';
+import { EmbeddingModelMismatchError, NotFoundError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/error';
 import { validationResult } from 'express-validator';
@@ -21,9 +30,20 @@ interface SearchRequest {
     dateTo?: string;
     tags?: string[];
     categories?: string[];
+    documentId?: string;
+    version?: number;
+    allVersions?: boolean;
+  };
+  mode?: 'vector' | 'keyword' | 'hybrid';
+  weights?: {
+    vector?: number;
+    keyword?: number;
   };
   includeAnswer?: boolean;
   includeMetadata?: boolean;
+  crossLingual?: boolean;
+  collapseDuplicates?: boolean;
+  expiredContent?: 'include' | 'demote' | 'hide';
   stream?: boolean;
 }
 
@@ -33,18 +53,25 @@ interface AnswerRequest {
   language?: 'ar' | 'en' | 'de';
   type?: 'qa' | 'summary' | 'explanation' | 'troubleshooting' | 'safety';
   conversationId?: string;
+  crossLingual?: boolean;
   stream?: boolean;
 }
 
 export class SearchController {
   private searchService: SemanticSearchService;
-  private openaiService: OpenAIService;
   private promptService: PromptService;
+  private citationService: CitationService;
+  private groundingService: GroundingService;
+  private conversationService: ConversationService;
+  private prisma: TenantPrismaClient;
 
   constructor() {
     this.searchService = new SemanticSearchService();
-    this.openaiService = new OpenAIService();
     this.promptService = new PromptService();
+    this.citationService = new CitationService();
+    this.groundingService = new GroundingService();
+    this.conversationService = new ConversationService();
+    this.prisma = createPrismaClient();
   }
 
   /**
@@ -63,6 +90,7 @@ export class SearchController {
       const userId = (req as any).user?.id;
 
       logger.info(`Search request from user ${userId}: ${searchRequest.query}`);
+      const access = await documentAccessService.getScope(userId);
 
       // Perform search
       const searchResults = await this.searchService.search(
@@ -70,14 +98,20 @@ export class SearchController {
         {
           limit: searchRequest.limit || 10,
           offset: searchRequest.offset || 0,
-          filters: searchRequest.filters ? {
+          filters: this.reviewFilters(req, searchRequest.filters ? {
             ...searchRequest.filters,
             dateFrom: searchRequest.filters.dateFrom ? 
               new Date(searchRequest.filters.dateFrom) : undefined,
             dateTo: searchRequest.filters.dateTo ? 
               new Date(searchRequest.filters.dateTo) : undefined,
-          } : undefined,
+          } : undefined),
           includeMetadata: searchRequest.includeMetadata,
+          mode: searchRequest.mode,
+          weights: searchRequest.weights,
+          crossLingual: searchRequest.crossLingual,
+          collapseDuplicates: searchRequest.collapseDuplicates,
+          expiredContent: searchRequest.expiredContent,
+          access,
           rerank: true
         }
       );
@@ -85,10 +119,14 @@ export class SearchController {
       // Generate AI answer if requested
       let aiAnswer = null;
       if (searchRequest.includeAnswer && searchResults.results.length > 0) {
+        const llm = await llmProviderService.getProvider(
+          searchRequest.filters?.warehouseId || (req as any).user?.warehouseId
+        );
         aiAnswer = await this.generateAnswer(
+          llm,
           searchRequest.query,
           searchResults.results,
-          searchRequest.language || 'en'
+          searchRequest.language || this.answerLanguage(searchResults.detectedLanguage)
         );
       }
 
@@ -103,6 +141,9 @@ export class SearchController {
         }
       });
     } catch (error) {
+      if (error instanceof EmbeddingModelMismatchError) {
+        return next(error);
+      }
       logger.error('Search failed:', error);
       next(new AppError('Search failed', 500));
     }
@@ -127,12 +168,14 @@ export class SearchController {
         });
       }
 
+      const access = await documentAccessService.getScope((req as any).user?.id);
       const results = [];
       
       for (const query of queries) {
         const searchResult = await this.searchService.search(query.text, {
           limit: query.limit || 5,
-          filters: query.filters,
+          filters: this.reviewFilters(req, query.filters),
+          access,
           rerank: true
         });
         results.push(searchResult);
@@ -151,6 +194,9 @@ export class SearchController {
         data: finalResults
       });
     } catch (error) {
+      if (error instanceof EmbeddingModelMismatchError) {
+        return next(error);
+      }
       logger.error('Advanced search failed:', error);
       next(new AppError('Advanced search failed', 500));
     }
@@ -163,7 +209,7 @@ export class SearchController {
   searchInDocument = async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { documentId } = req.params;
-      const { query, limit = 5 } = req.body;
+      const { query, limit = 5, version } = req.body;
 
       if (!query) {
         return res.status(400).json({
@@ -175,7 +221,12 @@ export class SearchController {
       const results = await this.searchService.searchByDocument(
         documentId,
         query,
-        limit
+        limit,
+        version,
+        {
+          approvedOnly: this.isWorker(req),
+          access: await documentAccessService.getScope((req as any).user?.id)
+        }
       );
 
       res.json({
@@ -183,6 +234,9 @@ export class SearchController {
         data: results
       });
     } catch (error) {
+      if (error instanceof NotFoundError || error instanceof EmbeddingModelMismatchError) {
+        return next(error);
+      }
       logger.error('Document search failed:', error);
       next(new AppError('Document search failed', 500));
     }
@@ -199,7 +253,11 @@ export class SearchController {
 
       const similar = await this.searchService.findSimilarDocuments(
         documentId,
-        parseInt(limit as string)
+        parseInt(limit as string),
+        {
+          approvedOnly: this.isWorker(req),
+          access: await documentAccessService.getScope((req as any).user?.id)
+        }
       );
 
       res.json({
@@ -207,6 +265,9 @@ export class SearchController {
         data: similar
       });
     } catch (error) {
+      if (error instanceof NotFoundError || error instanceof EmbeddingModelMismatchError) {
+        return next(error);
+      }
       logger.error('Similar documents search failed:', error);
       next(new AppError('Similar documents search failed', 500));
     }
@@ -220,30 +281,51 @@ export class SearchController {
     try {
       const answerRequest = req.body as AnswerRequest;
       const userId = (req as any).user?.id;
+      const detectedLanguage = languageDetectionService.detect(answerRequest.query);
+      const language = answerRequest.language || this.answerLanguage(detectedLanguage);
+      const startTime = Date.now();
+      const llm = await llmProviderService.getProvider((req as any).user?.warehouseId);
+      const { conversationId } = answerRequest;
+
+      // Follow-ups are rewritten into standalone queries using the conversation history
+      let history: ChatMessage[] = [];
+      let retrievalQuery = answerRequest.query;
+      if (conversationId) {
+        await this.conversationService.get(userId, conversationId);
+        history = await this.conversationService.getHistory(conversationId);
+        retrievalQuery = await this.conversationService.rewriteQuery(llm, history, answerRequest.query, language);
+      }
 
-      // Search for context if not provided
-      let searchResults = [];
+      // Search for context if not provided; cross-lingual results are still
+      // answered in the question's language
+      let searchResults: SearchResult[] = [];
       if (!answerRequest.context) {
-        const search = await this.searchService.search(answerRequest.query, {
+        const search = await this.searchService.search(retrievalQuery, {
           limit: 5,
+          filters: this.reviewFilters(req),
+          access: await documentAccessService.getScope(userId),
+          crossLingual: answerRequest.crossLingual,
           rerank: true
         });
         searchResults = search.results;
       }
 
-      // Build prompt
-      const promptContext = {
-        language: answerRequest.language || 'en',
+      // Build prompt; retrieved chunks are numbered so the answer can cite them
+      const promptContext: PromptContext = {
+        language,
         type: answerRequest.type || 'qa',
         userRole: (req as any).user?.role,
         documentContext: answerRequest.context
       };
 
+      const sources = this.promptService.numberSources(searchResults);
       const messages = this.promptService.buildMessages(
         answerRequest.query,
         promptContext,
-        searchResults
+        searchResults,
+        history
       );
+      const systemPrompt = this.promptService.buildSystemPrompt(promptContext);
 
       // Generate answer
       if (answerRequest.stream) {
@@ -254,42 +336,128 @@ export class SearchController {
           'Connection': 'keep-alive'
         });
 
-        const stream = this.openaiService.streamCompletion(messages, {
+        const stream = llm.streamCompletion(messages, {
           temperature: 0.7,
-          maxTokens: 1000
+          maxTokens: 1000,
+          systemPrompt
         });
 
+        let answer = '';
         for await (const chunk of stream) {
+          answer += chunk;
           res.write(`data: ${JSON.stringify({ content: chunk })}\n\n`);
         }
 
+        // Citations and grounding can only be checked once the full answer is known;
+        // the text is already on screen, so a refused or softened answer is sent
+        // again for the client to replace it, and that version is the one stored
+        const { citations, grounded } = this.citationService.extract(answer, sources);
+        let verification: GroundingReport | null = null;
+        if (sources.length > 0) {
+          const verified = await this.groundingService.verifyAnswer(answer, sources, citations, language);
+          answer = verified.answer;
+          verification = verified.report;
+        }
+
+        res.write(`data: ${JSON.stringify({
+          citations,
+          grounded,
+          confidence: verification?.confidence ?? null,
+          verdict: verification?.verdict ?? null,
+          answer: verification && verification.verdict !== 'accept' ? answer : null,
+          validityWarning: this.validityWarning(searchResults, citations)
+        })}\n\n`);
         res.write('data: [DONE]\n\n');
         res.end();
+
+        const queryId = await this.storeAnswer(
+          userId,
+          answerRequest.query,
+          answer,
+          citations,
+          verification,
+          Date.now() - startTime,
+          detectedLanguage
+        );
+        if (conversationId) {
+          await this.recordTurn(conversationId, answerRequest.query, answer, {
+            queryId,
+            rewrittenQuery: retrievalQuery,
+            citations,
+            confidence: verification?.confidence ?? null
+          });
+        }
       } else {
-        const { content, usage } = await this.openaiService.generateCompletion(messages, {
+        const { content, usage } = await llm.generateCompletion(messages, {
           temperature: 0.7,
-          maxTokens: 1000
+          maxTokens: 1000,
+          systemPrompt
         });
 
-        // Generate confidence score
-        const confidence = this.calculateConfidence(content, searchResults);
+        const { citations, grounded, invalidMarkers } = this.citationService.extract(content, sources);
+        if (!grounded || invalidMarkers.length > 0) {
+          logger.warn(
+            `Answer for "${answerRequest.query}" is ${grounded ? 'partially' : 'not'} grounded` +
+            (invalidMarkers.length > 0 ? ` (unknown markers: ${invalidMarkers.join(', ')})` : '')
+          );
+        }
+
+        // Verify against retrieved chunks; user-supplied context has nothing to check against
+        let answer = content;
+        let verification: GroundingReport | null = null;
+        if (sources.length > 0) {
+          const verified = await this.groundingService.verifyAnswer(content, sources, citations, language);
+          answer = verified.answer;
+          verification = verified.report;
+        }
 
         // Generate related questions
-        const relatedQuestions = await this.generateRelatedQuestions(
+        const relatedQuestions = verification?.verdict === 'refuse'
+          ? []
+          : await this.generateRelatedQuestions(llm, answerRequest.query, content, language);
+
+        const queryId = await this.storeAnswer(
+          userId,
           answerRequest.query,
-          content,
-          answerRequest.language || 'en'
+          answer,
+          citations,
+          verification,
+          Date.now() - startTime,
+          detectedLanguage
         );
 
+        if (conversationId) {
+          await this.recordTurn(conversationId, answerRequest.query, answer, {
+            queryId,
+            rewrittenQuery: retrievalQuery,
+            citations,
+            confidence: verification?.confidence ?? null,
+            usage
+          }, usage.completionTokens);
+        }
+
         res.json({
           success: true,
           data: {
-            answer: content,
-            confidence,
+            queryId,
+            language,
+            conversationId: conversationId ?? null,
+            rewrittenQuery: retrievalQuery !== answerRequest.query ? retrievalQuery : null,
+            answer,
+            confidence: verification?.confidence ?? null,
+            verdict: verification?.verdict ?? null,
+            verification,
+            grounded,
+            citations,
+            validityWarning: this.validityWarning(searchResults, citations),
             sources: searchResults.map(r => ({
               id: r.id,
               title: r.documentTitle,
-              score: r.score
+              page: r.pageNumber ?? null,
+              headingPath: r.headingPath,
+              language: r.language ?? null,
+              score: r.score,
+              validity: r.validity?.status ?? null
             })),
             relatedQuestions,
             usage
@@ -298,6 +466,20 @@ export class SearchController {
       }
     } catch (error) {
       logger.error('Answer generation failed:', error);
+
+      // A streamed answer has already sent its headers: report the failure as
+      // an SSE event, or only log it once the response has ended
+      if (res.headersSent) {
+        if (!res.writableEnded) {
+          res.write(`event: error\ndata: ${JSON.stringify({ error: 'Answer generation failed' })}\n\n`);
+          res.end();
+        }
+        return;
+      }
+
+      if (error instanceof NotFoundError || error instanceof EmbeddingModelMismatchError) {
+        return next(error);
+      }
       next(new AppError('Answer generation failed', 500));
     }
   };
@@ -403,33 +585,48 @@ export class SearchController {
   // Private helper methods
 
   private async generateAnswer(
+    llm: LLMProvider,
     query: string,
-    searchResults: any[],
+    searchResults: SearchResult[],
     language: 'ar' | 'en' | 'de'
   ): Promise<any> {
     try {
-      const promptContext = {
+      const promptContext: PromptContext = {
         language,
-        type: 'qa' as const,
+        type: 'qa',
       };
 
+      const sources = this.promptService.numberSources(searchResults);
       const messages = this.promptService.buildMessages(
         query,
         promptContext,
         searchResults
       );
 
-      const { content } = await this.openaiService.generateCompletion(messages, {
+      const { content } = await llm.generateCompletion(messages, {
         temperature: 0.7,
-        maxTokens: 500
+        maxTokens: 500,
+        systemPrompt: this.promptService.buildSystemPrompt(promptContext)
       });
 
+      const { citations, grounded } = this.citationService.extract(content, sources);
+      const { answer, report } = await this.groundingService.verifyAnswer(content, sources, citations, language);
+
       return {
-        text: content,
+        text: answer,
+        confidence: report.confidence,
+        verdict: report.verdict,
+        grounded,
+        citations,
+        validityWarning: this.validityWarning(searchResults, citations),
         sources: searchResults.slice(0, 3).map(r => ({
           id: r.id,
           title: r.documentTitle,
-          score: r.score
+          page: r.pageNumber ?? null,
+          headingPath: r.headingPath,
+          language: r.language ?? null,
+          score: r.score,
+          validity: r.validity?.status ?? null
         }))
       };
     } catch (error) {
@@ -438,25 +635,119 @@ export class SearchController {
     }
   }
 
-  private calculateConfidence(answer: string, sources: any[]): number {
-    // Simple confidence calculation based on sources and answer length
-    let confidence = 0.5;
+  /**
+   * Append the question and answer to the conversation
+   */
+  private async recordTurn(
+    conversationId: string,
+    question: string,
+    answer: string,
+    metadata: any,
+    answerTokens?: number
+  ): Promise<void> {
+    try {
+      await this.conversationService.appendMessage(conversationId, 'user', question);
+      await this.conversationService.appendMessage(conversationId, 'assistant', answer, metadata, answerTokens);
+    } catch (error) {
+      logger.warn(`Failed to record conversation turn for ${conversationId}:`, error);
+    }
+  }
+
+  /**
+   * Answer in the detected query language when the detection is reliable
+   */
+  private answerLanguage(detection: LanguageDetection | null): PromptLanguage {
+    return detection?.reliable && PROMPT_LANGUAGES.includes(detection.language as PromptLanguage)
+      ? detection.language as PromptLanguage
+      : 'en';
+  }
 
-    if (sources.length > 0) {
-      // Average source scores
-      const avgScore = sources.reduce((sum, s) => sum + s.score, 0) / sources.length;
-      confidence = avgScore;
+  /**
+   * Warning for answers that rely on documents past their review date or
+   * expiry: the cited ones, or every source when nothing was cited
+   */
+  private validityWarning(results: SearchResult[], citations: Citation[]) {
+    const cited = new Set(citations.map(citation => citation.documentId));
+    const relied = cited.size > 0 ? results.filter(result => cited.has(result.documentId)) : results;
+
+    const stale = new Map<string, SearchResult>();
+    for (const result of relied) {
+      if (result.validity && documentValidityService.isStale(result.validity.status)) {
+        stale.set(result.documentId, result);
+      }
+    }
+    if (stale.size === 0) {
+      return null;
     }
 
-    // Adjust based on answer characteristics
-    if (answer.length < 50) confidence *= 0.8;
-    if (answer.includes('I\'m not sure') || answer.includes('unclear')) confidence *= 0.7;
-    if (answer.includes('According to') || answer.includes('Based on')) confidence *= 1.1;
+    const documents = [...stale.values()].map(result => ({
+      documentId: result.documentId,
+      title: result.documentTitle || 'Untitled document',
+      status: result.validity!.status,
+      reviewDueAt: result.validity!.reviewDueAt,
+      expiresAt: result.validity!.expiresAt
+    }));
+    const expired = documents.some(document => document.status === 'expired');
+
+    return {
+      message: expired
+        ? 'This answer is based on expired documents. Check the current procedure before acting on it.'
+        : 'This answer is based on documents that are overdue for review and may be out of date.',
+      documents
+    };
+  }
+
+  private isWorker(req: Request): boolean {
+    return (req as any).user?.role === 'Worker';
+  }
+
+  /**
+   * Workers only search documents that passed review, whatever they ask for
+   */
+  private reviewFilters<T extends object>(req: Request, filters?: T): (T & { approvedOnly?: boolean }) | undefined {
+    return this.isWorker(req) ? { ...filters, approvedOnly: true } as T & { approvedOnly: boolean } : filters;
+  }
+
+  /**
+   * Persist the answer and its grounding score for analytics
+   */
+  private async storeAnswer(
+    userId: string | undefined,
+    query: string,
+    answer: string,
+    citations: Citation[],
+    verification: GroundingReport | null,
+    duration: number,
+    detectedLanguage: LanguageDetection | null
+  ): Promise<string | null> {
+    if (!userId) {
+      return null;
+    }
 
-    return Math.min(Math.max(confidence, 0), 1);
+    try {
+      const record = await this.prisma.query.create({
+        data: {
+          userId,
+          query,
+          response: answer,
+          context: { citations } as any,
+          duration,
+          confidence: verification?.confidence,
+          verdict: verification?.verdict,
+          verification: verification as any ?? undefined,
+          language: detectedLanguage?.language,
+          languageConfidence: detectedLanguage?.confidence
+        }
+      });
+      return record.id;
+    } catch (error) {
+      logger.warn('Failed to store answer:', error);
+      return null;
+    }
   }
 
   private async generateRelatedQuestions(
+    llm: LLMProvider,
     query: string,
     answer: string,
     language: 'ar' | 'en' | 'de'
@@ -468,7 +759,7 @@ export class SearchController {
         language
       );
 
-      const { content } = await this.openaiService.generateCompletion(messages, {
+      const { content } = await llm.generateCompletion(messages, {
         temperature: 0.8,
         maxTokens: 200
       });
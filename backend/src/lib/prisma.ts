@@ -0,0 +1,76 @@
+// backend/src/lib/prisma.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { currentTenant, TenantScope } from './tenant-context';
+
+// Set while a transaction runs; its first statement already set the tenant
+const inTransaction = new AsyncLocalStorage<boolean>();
+
+// Settings made with is_local = true end with the transaction, so they
+// never leak to the next query on the pooled connection
+function setTenant(client: { $executeRaw: PrismaClient['$executeRaw'] }, tenant: TenantScope) {
+  return client.$executeRaw`
+    SELECT
+      set_config('app.warehouse_id', ${tenant.warehouseId ?? ''}, TRUE),
+      set_config('app.user_id', ${tenant.userId ?? ''}, TRUE),
+      set_config('app.bypass_rls', ${tenant.bypass ? 'on' : 'off'}, TRUE)
+  `;
+}
+
+/**
+ * Prisma client that runs each query with the current tenant set on its
+ * connection, for the row-level security policies on documents, chunks,
+ * embeddings, queries and equipment (migrations/row_level_security.sql)
+ */
+export function createPrismaClient(options?: Prisma.PrismaClientOptions) {
+  const client = new PrismaClient(options);
+
+  const extended = client.$extends({
+    query: {
+      async $allOperations({ args, query }) {
+        const tenant = currentTenant();
+        if (!tenant || inTransaction.getStore()) {
+          return query(args);
+        }
+
+        const [, result] = await client.$transaction([setTenant(client, tenant), query(args)]);
+        return result;
+      }
+    }
+  });
+
+  // Batch and interactive transactions set the tenant once, before their own statements
+  const $transaction = (arg: any, transactionOptions?: any): Promise<any> => {
+    const tenant = currentTenant();
+    if (!tenant) {
+      return extended.$transaction(arg, transactionOptions);
+    }
+
+    return inTransaction.run(true, () => Array.isArray(arg)
+      ? extended.$transaction([setTenant(client, tenant), ...arg], transactionOptions)
+        .then(([, ...results]: any[]) => results)
+      : extended.$transaction(async (tx: any) => {
+        await setTenant(tx, tenant);
+        return arg(tx);
+      }, transactionOptions));
+  };
+
+  return new Proxy(extended, {
+    get: (target, property, receiver) =>
+      property === '$transaction' ? $transaction : Reflect.get(target, property, receiver)
+  });
+}
+
+export type TenantPrismaClient = ReturnType<typeof createPrismaClient>;
+
+const globalForPrisma = global as unknown as { prisma: TenantPrismaClient };
+
+export const prisma =
+  globalForPrisma.prisma ||
+  createPrismaClient({
+    log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
+  });
+
+if (process.env.NODE_ENV !== 'production') {
+  globalForPrisma.prisma = prisma;
+}
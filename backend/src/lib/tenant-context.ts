@@ -0,0 +1,88 @@
+// backend/src/lib/tenant-context.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+import { Job } from 'bull';
+
+/**
+ * Tenant a database query runs for; set on the Prisma connection so the
+ * row-level security policies can isolate warehouses
+ */
+export interface TenantScope {
+  warehouseId: string | null;
+  userId: string | null;
+  /** Skip warehouse isolation: routes mounting crossWarehouseAccess and system jobs */
+  bypass: boolean;
+}
+
+interface TenantStore {
+  req?: Request;
+  scope?: TenantScope;
+  /** Set by crossWarehouseAccess; never implied by the user's role */
+  bypass?: boolean;
+}
+
+const storage = new AsyncLocalStorage<TenantStore>();
+
+/**
+ * Open the tenant context of a request. The scope is read from req.user when
+ * a query runs, so it applies to whichever authentication middleware the route uses.
+ * Multipart parsers call back outside the request's async context, so upload
+ * routes mount this again after them.
+ */
+export function tenantContext(req: Request, _res: Response, next: NextFunction): void {
+  if (storage.getStore()?.req === req) {
+    return next();
+  }
+  storage.run({ req }, () => next());
+}
+
+/**
+ * Opt a route out of warehouse isolation, for Admin operations that span
+ * warehouses. Mount it after authorize([UserRole.ADMIN]); Admin requests
+ * without it are isolated like any other.
+ */
+export function crossWarehouseAccess(req: Request, _res: Response, next: NextFunction): void {
+  storage.run({ req, bypass: true }, () => next());
+}
+
+/**
+ * Scope of the current request or job; null outside any context, where the
+ * policies let nothing through
+ */
+export function currentTenant(): TenantScope | null {
+  const store = storage.getStore();
+  if (!store) {
+    return null;
+  }
+  if (store.scope) {
+    return store.scope;
+  }
+
+  const user = (store.req as any)?.user;
+  return {
+    warehouseId: user?.warehouseId ?? null,
+    userId: user?.id ?? user?.userId ?? null,
+    bypass: store.bypass === true
+  };
+}
+
+/**
+ * Run as a given tenant, e.g. a job acting for one warehouse
+ */
+export function runAsTenant<T>(scope: TenantScope, fn: () => Promise<T>): Promise<T> {
+  return storage.run({ scope }, fn);
+}
+
+/**
+ * Run across all warehouses: queue workers, schedulers and maintenance scripts
+ */
+export function runAsSystem<T>(fn: () => Promise<T>): Promise<T> {
+  return runAsTenant({ warehouseId: null, userId: null, bypass: true }, fn);
+}
+
+/**
+ * Queue job handler that runs as the system
+ */
+export function systemJob<T, R>(handler: (job: Job<T>) => Promise<R>): (job: Job<T>) => Promise<R> {
+  return job => runAsSystem(() => handler(job));
+}
@@ -1,20 +1,45 @@
 // wmlab/backend/src/routes/documents.ts
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
+import { createReadStream } from 'fs';
 import { prisma } from '../lib/prisma';
 import { authenticate, authorize } from '../middleware/auth';
 import { z } from 'zod';
 import { validate } from '../middleware/validate';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import {
+  resumableUploadService,
+  ALLOWED_MIME_TYPES,
+  StagedFile
+} from '../services/upload/resumable-upload.service';
+import {
+  DOCUMENT_CATEGORIES,
+  DOCUMENT_LANGUAGES
+} from '../services/upload/bulk-import.service';
+import {
+  getStorageDriver,
+  createStorageKey,
+  contentDisposition,
+  LocalStorageDriver,
+  StorageDriver,
+  ByteRange
+} from '../services/storage';
+import { documentReviewService } from '../services/review/document-review.service';
+import { documentValidityService } from '../services/validity/document-validity.service';
+import { documentAccessService, AccessScope } from '../services/access/document-access.service';
+import { queueImport, getImport } from '../services/queue/importQueue';
+import { tenantContext, crossWarehouseAccess } from '../lib/tenant-context';
 import crypto from 'crypto';
 
 const router = Router();
 
-// File upload configuration
+// File upload configuration; files are staged locally, then moved into storage
 const storage = multer.diskStorage({
   destination: async (req, file, cb) => {
-    const uploadDir = path.join(process.cwd(), 'uploads', 'documents');
+    const uploadDir = path.join(process.cwd(), 'uploads', 'tmp');
     await fs.mkdir(uploadDir, { recursive: true });
     cb(null, uploadDir);
   },
@@ -26,17 +51,7 @@ const storage = multer.diskStorage({
 });
 
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  const allowedTypes = [
-    'application/pdf',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-    'text/plain',
-    'image/jpeg',
-    'image/png'
-  ];
-
-  if (allowedTypes.includes(file.mimetype)) {
+  if (ALLOWED_MIME_TYPES.includes(file.mimetype)) {
     cb(null, true);
   } else {
     cb(new Error('Invalid file type. Only PDF, DOCX, XLSX, PPTX, TXT, JPG, and PNG files are allowed.'));
@@ -47,10 +62,45 @@ const upload = multer({
   storage,
   fileFilter,
   limits: {
-    fileSize: 50 * 1024 * 1024, // 50MB max file size
+    // Largest limit of any role; enforceSizeLimit applies the uploader's own
+    fileSize: resumableUploadService.maxFileSize()
   }
 });
 
+// ZIP archives for bulk import, kept only until the import finishes
+const importUpload = multer({
+  dest: path.join(process.cwd(), 'uploads', 'imports'),
+  fileFilter: (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    if (['application/zip', 'application/x-zip-compressed'].includes(file.mimetype)
+      || path.extname(file.originalname).toLowerCase() === '.zip') {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only ZIP archives can be imported.'));
+    }
+  },
+  limits: {
+    fileSize: parseInt(process.env.IMPORT_MAX_ARCHIVE_SIZE || String(1024 * 1024 * 1024)) // 1GB
+  }
+});
+
+// Seconds a signed download URL stays valid
+const SIGNED_URL_TTL = parseInt(process.env.STORAGE_SIGNED_URL_TTL || '900');
+
+// Reject files above the uploader's role limit (MAX_FILE_SIZE_<ROLE>)
+const enforceSizeLimit = async (req: Request, res: Response, next: NextFunction) => {
+  const limit = resumableUploadService.maxFileSize((req as any).user.role);
+  const files = req.file ? [req.file] : (req.files as Express.Multer.File[] | undefined) || [];
+
+  if (files.some(file => file.size > limit)) {
+    await Promise.all(files.map(file => fs.unlink(file.path).catch(() => {})));
+    return res.status(413).json({
+      error: `Files larger than ${Math.round(limit / (1024 * 1024))} MB are not allowed for your role; use a resumable upload for large files`,
+      maxFileSize: limit
+    });
+  }
+  next();
+};
+
 // Document metadata schema
 const createDocumentSchema = z.object({
   title: z.string().min(1).max(255),
@@ -60,7 +110,79 @@ const createDocumentSchema = z.object({
   departmentId: z.string().optional(),
   warehouseId: z.string(),
   language: z.enum(['en', 'ar', 'de']).default('en'),
-  isPublic: z.boolean().default(false)
+  isPublic: z.boolean().default(false),
+  // Validity of the content; see PATCH /:id/validity
+  validFrom: z.coerce.date().optional(),
+  reviewDueAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date().optional(),
+  // What to do when the warehouse already has the same file
+  onDuplicate: z.enum(['reject', 'link', 'upload']).default('reject')
+});
+
+// Validity dates; null clears a date
+const validitySchema = z.object({
+  validFrom: z.coerce.date().nullable().optional(),
+  reviewDueAt: z.coerce.date().nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional()
+}).refine(
+  dates => !dates.validFrom || !dates.expiresAt || dates.validFrom < dates.expiresAt,
+  { message: 'validFrom must be before expiresAt', path: ['expiresAt'] }
+);
+
+// New version metadata schema
+const createVersionSchema = z.object({
+  changeNote: z.string().max(1000).optional()
+});
+
+// Resumable upload session: the file's details plus the document metadata
+const createUploadSchema = createDocumentSchema.extend({
+  originalName: z.string().min(1).max(255),
+  mimeType: z.string(),
+  size: z.number().int().positive(),
+  checksum: z.string().regex(/^[a-f0-9]{64}$/i)
+});
+
+// Bulk import defaults; the manifest and folder names override them per file
+const importSchema = z.object({
+  warehouseId: z.string(),
+  departmentId: z.string().optional(),
+  category: z.enum(DOCUMENT_CATEGORIES).default('Other'),
+  language: z.enum(DOCUMENT_LANGUAGES).default('en'),
+  isPublic: z.preprocess(value => value === 'true' || value === true, z.boolean()).default(false),
+  tags: z.preprocess(
+    value => (typeof value === 'string' ? value.split(',').map(tag => tag.trim()).filter(Boolean) : value),
+    z.array(z.string())
+  ).default([]),
+  onDuplicate: z.enum(['reject', 'link', 'upload']).default('reject')
+});
+
+const completeUploadSchema = z.object({
+  onDuplicate: z.enum(['reject', 'link', 'upload']).optional()
+});
+
+const linkDepartmentSchema = z.object({
+  departmentId: z.string()
+});
+
+const submitReviewSchema = z.object({
+  reviewerIds: z.array(z.string()).min(1)
+});
+
+const reviewDecisionSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  comment: z.string().max(5000).optional()
+});
+
+const shareSchema = z.object({
+  userId: z.string().uuid().optional(),
+  departmentId: z.string().uuid().optional(),
+  expiresAt: z.coerce.date().optional()
+}).refine(share => Boolean(share.userId) !== Boolean(share.departmentId), {
+  message: 'Share with either a user or a department'
+});
+
+const reviewCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000)
 });
 
 // Upload single document
@@ -69,6 +191,8 @@ router.post(
   authenticate,
   authorize(['Admin', 'Expert']),
   upload.single('file'),
+  enforceSizeLimit,
+  tenantContext,
   async (req: Request, res: Response) => {
     try {
       if (!req.file) {
@@ -78,44 +202,8 @@ router.post(
       const metadata = createDocumentSchema.parse(req.body);
       const userId = (req as any).user.userId;
 
-      // Create document record
-      const document = await prisma.document.create({
-        data: {
-          title: metadata.title,
-          description: metadata.description,
-          category: metadata.category,
-          filename: req.file.filename,
-          originalName: req.file.originalname,
-          mimeType: req.file.mimetype,
-          size: req.file.size,
-          path: req.file.path,
-          language: metadata.language,
-          isPublic: metadata.isPublic,
-          uploadedById: userId,
-          warehouseId: metadata.warehouseId,
-          departmentId: metadata.departmentId,
-          status: 'pending', // pending, processing, completed, failed
-          metadata: {
-            tags: metadata.tags || [],
-            uploadDate: new Date().toISOString()
-          }
-        },
-        include: {
-          uploadedBy: {
-            select: { id: true, email: true, name: true }
-          },
-          warehouse: true,
-          department: true
-        }
-      });
-
-      // Queue for processing (will be implemented)
-      await queueDocumentForProcessing(document.id);
-
-      res.status(201).json({
-        message: 'Document uploaded successfully',
-        document
-      });
+      const result = await registerUpload(toStagedFile(req.file), metadata, userId);
+      sendUploadResult(res, result);
     } catch (error) {
       console.error('Upload error:', error);
       
@@ -137,6 +225,8 @@ router.post(
   authenticate,
   authorize(['Admin', 'Expert']),
   upload.array('files', 10), // Max 10 files at once
+  enforceSizeLimit,
+  tenantContext,
   async (req: Request, res: Response) => {
     try {
       const files = req.files as Express.Multer.File[];
@@ -147,39 +237,28 @@ router.post(
       const metadata = createDocumentSchema.parse(req.body);
       const userId = (req as any).user.userId;
 
-      const documents = await Promise.all(
-        files.map(async (file) => {
-          const document = await prisma.document.create({
-            data: {
-              title: `${metadata.title} - ${file.originalname}`,
-              description: metadata.description,
-              category: metadata.category,
-              filename: file.filename,
-              originalName: file.originalname,
-              mimeType: file.mimetype,
-              size: file.size,
-              path: file.path,
-              language: metadata.language,
-              isPublic: metadata.isPublic,
-              uploadedById: userId,
-              warehouseId: metadata.warehouseId,
-              departmentId: metadata.departmentId,
-              status: 'pending',
-              metadata: {
-                tags: metadata.tags || [],
-                uploadDate: new Date().toISOString()
-              }
-            }
-          });
+      // One file at a time, so a file repeated within the batch is caught too
+      const documents = [];
+      const duplicates = [];
+      for (const file of files) {
+        const result = await registerUpload(
+          toStagedFile(file),
+          metadata,
+          userId,
+          `${metadata.title} - ${file.originalname}`
+        );
 
-          await queueDocumentForProcessing(document.id);
-          return document;
-        })
-      );
+        if ('document' in result) {
+          documents.push(result.document);
+        } else {
+          duplicates.push({ file: file.originalname, ...result });
+        }
+      }
 
       res.status(201).json({
         message: `${documents.length} documents uploaded successfully`,
-        documents
+        documents,
+        duplicates
       });
     } catch (error) {
       // Clean up uploaded files on error
@@ -197,6 +276,626 @@ router.post(
   }
 );
 
+// Import a ZIP of documents, optionally with manifest.csv / manifest.json.
+// The import runs as a background job; poll GET /import/:importId for the report.
+router.post(
+  '/import',
+  authenticate,
+  authorize(['Admin']),
+  importUpload.single('file'),
+  crossWarehouseAccess,
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No archive uploaded' });
+      }
+
+      const { warehouseId, onDuplicate, ...defaults } = importSchema.parse(req.body);
+      const user = (req as any).user;
+
+      // The job owns the archive from here on and removes it when done
+      const importId = await queueImport(req.file.path, {
+        warehouseId,
+        userId: user.userId,
+        maxFileSize: resumableUploadService.maxFileSize(user.role),
+        defaults,
+        onDuplicate
+      });
+
+      res.status(202).json({
+        message: 'Import queued',
+        importId
+      });
+    } catch (error) {
+      if (req.file) {
+        await fs.unlink(req.file.path).catch(() => {});
+      }
+      sendError(res, error, 'Failed to import archive');
+    }
+  }
+);
+
+// Progress of a queued import and, once finished, its per-file report
+router.get(
+  '/import/:importId',
+  authenticate,
+  authorize(['Admin']),
+  async (req: Request, res: Response) => {
+    try {
+      const status = await getImport(req.params.importId);
+      res.json(status);
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch import');
+    }
+  }
+);
+
+// Size limits for the current user, so the client can pick single or resumable upload
+router.get(
+  '/uploads/limits',
+  authenticate,
+  async (req: Request, res: Response) => {
+    res.json({
+      maxFileSize: resumableUploadService.maxFileSize((req as any).user.role),
+      partSize: resumableUploadService.partSize,
+      allowedTypes: ALLOWED_MIME_TYPES
+    });
+  }
+);
+
+// Start a resumable upload
+router.post(
+  '/uploads',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  async (req: Request, res: Response) => {
+    try {
+      const { originalName, mimeType, size, checksum, ...metadata } = createUploadSchema.parse(req.body);
+      const user = (req as any).user;
+
+      const upload = await resumableUploadService.create(user.userId, user.role, {
+        originalName,
+        mimeType,
+        size,
+        checksum,
+        metadata
+      });
+
+      res.status(201).json({ upload });
+    } catch (error) {
+      sendError(res, error, 'Failed to start upload');
+    }
+  }
+);
+
+// Parts received so far
+router.get(
+  '/uploads/:uploadId',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const upload = await resumableUploadService.getStatus((req as any).user.userId, req.params.uploadId);
+      res.json({ upload });
+    } catch (error) {
+      sendError(res, error, 'Failed to get upload status');
+    }
+  }
+);
+
+// Store one part; the body is the raw bytes, X-Part-Checksum its SHA-256
+router.put(
+  '/uploads/:uploadId/parts/:partNumber',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  express.raw({ type: 'application/octet-stream', limit: resumableUploadService.partSize }),
+  tenantContext,
+  async (req: Request, res: Response) => {
+    try {
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ error: 'Part must be sent as application/octet-stream' });
+      }
+
+      const upload = await resumableUploadService.writePart(
+        (req as any).user.userId,
+        req.params.uploadId,
+        parseInt(req.params.partNumber),
+        req.body,
+        req.header('X-Part-Checksum')
+      );
+
+      res.json({ upload });
+    } catch (error) {
+      sendError(res, error, 'Failed to store part');
+    }
+  }
+);
+
+// Assemble the parts, verify the checksum and create the document
+router.post(
+  '/uploads/:uploadId/complete',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  async (req: Request, res: Response) => {
+    try {
+      const { uploadId } = req.params;
+      const { onDuplicate } = completeUploadSchema.parse(req.body);
+      const userId = (req as any).user.userId;
+
+      const { file, metadata } = await resumableUploadService.assemble(userId, uploadId);
+      const documentMetadata = createDocumentSchema.parse({
+        ...metadata,
+        onDuplicate: onDuplicate ?? metadata.onDuplicate
+      });
+
+      let result: UploadResult;
+      try {
+        result = await registerUpload(file, documentMetadata, userId);
+      } catch (error) {
+        // The parts are kept, so completing can be retried
+        await fs.unlink(file.path).catch(() => {});
+        throw error;
+      }
+
+      // A rejected duplicate keeps the session open to retry with onDuplicate
+      if ('document' in result || result.linked) {
+        await resumableUploadService.finish(
+          uploadId,
+          'document' in result ? result.document.id : result.duplicate.id
+        );
+      }
+
+      sendUploadResult(res, result);
+    } catch (error) {
+      sendError(res, error, 'Failed to complete upload');
+    }
+  }
+);
+
+// Abandon a resumable upload
+router.delete(
+  '/uploads/:uploadId',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      await resumableUploadService.cancel((req as any).user.userId, req.params.uploadId);
+      res.json({ message: 'Upload cancelled' });
+    } catch (error) {
+      sendError(res, error, 'Failed to cancel upload');
+    }
+  }
+);
+
+// Upload a new version of an existing document
+router.post(
+  '/:id/versions',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  upload.single('file'),
+  enforceSizeLimit,
+  tenantContext,
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      const { id } = req.params;
+      const metadata = createVersionSchema.parse(req.body);
+      const userId = (req as any).user.userId;
+
+      const document = await prisma.document.findUnique({
+        where: { id },
+        include: {
+          versions: {
+            select: { version: true },
+            orderBy: { version: 'desc' },
+            take: 1
+          }
+        }
+      });
+
+      if (!document) {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(404).json({ error: 'Document not found' });
+      }
+
+      // The current version stays searchable until the new one is processed
+      if (['pending', 'processing'].includes(document.status)) {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(409).json({ error: 'The previous version is still being processed' });
+      }
+
+      const fileHash = await hashFile(req.file.path);
+      if (fileHash === document.fileHash) {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(409).json({ error: 'The file is identical to the current version' });
+      }
+
+      const version = Math.max(document.version, document.versions[0]?.version ?? 0) + 1;
+      const file = req.file;
+      const stored = await storeFile(toStagedFile(file));
+
+      // Processing always reads the latest version, so a version left behind by a
+      // failed upload would be published by the next reprocess. The version
+      // becomes current, and goes to review, once it is processed and embedded;
+      // until it is approved Workers keep finding the approved one.
+      let documentVersion;
+      try {
+        documentVersion = await prisma.documentVersion.create({
+          data: {
+            documentId: id,
+            version,
+            filename: stored.filename,
+            originalName: file.originalname,
+            mimeType: file.mimetype,
+            size: file.size,
+            path: stored.path,
+            storageDriver: stored.storageDriver,
+            fileHash,
+            changeNote: metadata.changeNote,
+            uploadedById: userId
+          },
+          include: {
+            uploadedBy: {
+              select: { id: true, email: true, name: true }
+            }
+          }
+        });
+
+        await queueDocumentForProcessing(id);
+      } catch (error) {
+        if (documentVersion) {
+          await prisma.documentVersion.delete({ where: { id: documentVersion.id } }).catch(() => {});
+        }
+        await getStorageDriver(stored.storageDriver).delete(stored.path).catch(() => {});
+        throw error;
+      }
+
+      res.status(201).json({
+        message: `Version ${version} uploaded successfully`,
+        version: documentVersion
+      });
+    } catch (error) {
+      logger.error('Version upload error:', error);
+
+      if (req.file) {
+        await fs.unlink(req.file.path).catch(() => {});
+      }
+
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to upload document version'
+      });
+    }
+  }
+);
+
+// Link an existing document to another department instead of uploading a copy
+router.post(
+  '/:id/departments',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { departmentId } = linkDepartmentSchema.parse(req.body);
+      const userId = (req as any).user.userId;
+
+      const [document, department] = await Promise.all([
+        prisma.document.findUnique({ where: { id } }),
+        prisma.department.findUnique({ where: { id: departmentId } })
+      ]);
+
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+
+      if (!department || department.warehouseId !== document.warehouseId) {
+        return res.status(400).json({ error: 'Department must belong to the document\'s warehouse' });
+      }
+
+      if (document.departmentId !== departmentId) {
+        await linkDepartment(id, departmentId, userId);
+      }
+
+      res.status(201).json({
+        message: 'Document linked to department',
+        documentId: id,
+        departmentId
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to link document'
+      });
+    }
+  }
+);
+
+// Documents waiting for the current user's review decision
+router.get(
+  '/reviews/assigned',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  async (req: Request, res: Response) => {
+    try {
+      const documents = await documentReviewService.listAssigned((req as any).user.userId);
+      res.json({ documents });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch assigned reviews');
+    }
+  }
+);
+
+// Review status, reviewers, comments and approval records
+router.get(
+  '/:id/review',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  async (req: Request, res: Response) => {
+    try {
+      await documentAccessService.assertAccess(
+        await documentAccessService.getScope((req as any).user.userId),
+        req.params.id
+      );
+      const review = await documentReviewService.getReview(req.params.id);
+      res.json({ review });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch review');
+    }
+  }
+);
+
+// Submit a draft (or rejected) document to reviewers
+router.post(
+  '/:id/review/submit',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  async (req: Request, res: Response) => {
+    try {
+      const { reviewerIds } = submitReviewSchema.parse(req.body);
+      const review = await documentReviewService.submit(req.params.id, (req as any).user.userId, reviewerIds);
+      res.json({ message: 'Document submitted for review', review });
+    } catch (error) {
+      sendError(res, error, 'Failed to submit document for review');
+    }
+  }
+);
+
+// Approve or reject as an assigned reviewer
+router.post(
+  '/:id/review/decision',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  async (req: Request, res: Response) => {
+    try {
+      const { decision, comment } = reviewDecisionSchema.parse(req.body);
+      const review = await documentReviewService.decide(req.params.id, (req as any).user.userId, decision, comment);
+      res.json({ review });
+    } catch (error) {
+      sendError(res, error, 'Failed to record review decision');
+    }
+  }
+);
+
+// Comment on a document under review
+router.post(
+  '/:id/review/comments',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  async (req: Request, res: Response) => {
+    try {
+      const { body } = reviewCommentSchema.parse(req.body);
+      const comment = await documentReviewService.addComment(req.params.id, (req as any).user.userId, body);
+      res.status(201).json({ comment });
+    } catch (error) {
+      sendError(res, error, 'Failed to add comment');
+    }
+  }
+);
+
+// Set when the document takes effect, is due for review and expires
+router.patch(
+  '/:id/validity',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const dates = validitySchema.parse(req.body);
+
+      const existing = await prisma.document.findUnique({ where: { id }, select: { id: true } });
+      if (!existing) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+
+      // New dates are checked again by the scheduled validity check
+      const document = await prisma.document.update({
+        where: { id },
+        data: { ...dates, staleFlaggedAt: null, expiryNotifiedAt: null },
+        select: { id: true, validFrom: true, reviewDueAt: true, expiresAt: true }
+      });
+
+      res.json({
+        document: {
+          ...document,
+          validity: documentValidityService.getStatus(document)
+        }
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to update document validity');
+    }
+  }
+);
+
+// Users and departments the document is explicitly shared with
+router.get(
+  '/:id/shares',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  async (req: Request, res: Response) => {
+    try {
+      await documentAccessService.assertAccess(
+        await documentAccessService.getScope((req as any).user.userId),
+        req.params.id
+      );
+      const shares = await documentAccessService.listShares(req.params.id);
+      res.json({ shares });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch shares');
+    }
+  }
+);
+
+// Share a document with a user or department outside its warehouse or department
+router.post(
+  '/:id/shares',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  async (req: Request, res: Response) => {
+    try {
+      const input = shareSchema.parse(req.body);
+      const scope = await documentAccessService.getScope((req as any).user.userId);
+
+      const share = await documentAccessService.share(scope, req.params.id, input);
+      res.status(201).json({ message: 'Document shared', share });
+    } catch (error) {
+      sendError(res, error, 'Failed to share document');
+    }
+  }
+);
+
+// Revoke a share
+router.delete(
+  '/:id/shares/:shareId',
+  authenticate,
+  authorize(['Admin', 'Expert']),
+  async (req: Request, res: Response) => {
+    try {
+      await documentAccessService.revokeShare(
+        await documentAccessService.getScope((req as any).user.userId),
+        req.params.id,
+        req.params.shareId
+      );
+      res.json({ message: 'Share revoked' });
+    } catch (error) {
+      sendError(res, error, 'Failed to revoke share');
+    }
+  }
+);
+
+// Get version history
+router.get(
+  '/:id/versions',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const document = await prisma.document.findFirst({
+        where: { id, ...(await readableWhere(req)) },
+        select: {
+          id: true,
+          version: true,
+          versions: {
+            orderBy: { version: 'desc' },
+            include: {
+              uploadedBy: {
+                select: { id: true, email: true, name: true }
+              }
+            }
+          }
+        }
+      });
+
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+
+      res.json({
+        documentId: document.id,
+        currentVersion: document.version,
+        versions: document.versions.map(version => ({
+          ...version,
+          isCurrent: version.version === document.version
+        }))
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch document versions');
+    }
+  }
+);
+
+// Download a document's file, the current version unless ?version= is given.
+// Supports Range requests, so large PDFs can be viewed before they finish loading.
+router.get(
+  '/:id/download',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const file = await findStoredFile(req, req.params.id, req.query.version as string | undefined);
+      if (!file) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+
+      await streamFile(req, res, getStorageDriver(file.storageDriver), file.path, {
+        filename: file.originalName,
+        contentType: file.mimeType,
+        inline: req.query.inline === 'true'
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to download document');
+    }
+  }
+);
+
+// Time-limited URL the browser can download from directly, e.g. from S3
+router.get(
+  '/:id/url',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const file = await findStoredFile(req, req.params.id, req.query.version as string | undefined);
+      if (!file) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+
+      const url = await getStorageDriver(file.storageDriver).getSignedUrl(file.path, {
+        expiresIn: SIGNED_URL_TTL,
+        filename: file.originalName,
+        contentType: file.mimeType
+      });
+
+      res.json({
+        url,
+        expiresAt: new Date(Date.now() + SIGNED_URL_TTL * 1000).toISOString()
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to create download URL');
+    }
+  }
+);
+
+// Signed URLs of the local driver; the token is the authorization
+router.get(
+  '/files/:token',
+  async (req: Request, res: Response) => {
+    try {
+      const driver = getStorageDriver('local') as LocalStorageDriver;
+      const token = driver.verifySignedToken(req.params.token);
+      if (!token) {
+        return res.status(403).json({ error: 'Download link is invalid or has expired' });
+      }
+
+      await streamFile(req, res, driver, token.key, {
+        filename: token.filename || path.basename(token.key),
+        contentType: token.contentType || 'application/octet-stream',
+        inline: req.query.inline === 'true'
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to download file');
+    }
+  }
+);
+
 // Get upload progress
 router.get(
   '/upload/progress/:documentId',
@@ -205,8 +904,8 @@ router.get(
     try {
       const { documentId } = req.params;
 
-      const document = await prisma.document.findUnique({
-        where: { id: documentId },
+      const document = await prisma.document.findFirst({
+        where: { id: documentId, ...(await readableWhere(req)) },
         select: {
           id: true,
           status: true,
@@ -230,7 +929,7 @@ router.get(
         chunksCreated: document.chunks.length
       });
     } catch (error) {
-      res.status(500).json({ error: 'Failed to get upload progress' });
+      sendError(res, error, 'Failed to get upload progress');
     }
   }
 );
@@ -248,6 +947,7 @@ router.get(
         status, 
         language,
         warehouseId,
+        reviewStatus,
         search 
       } = req.query;
 
@@ -255,12 +955,14 @@ router.get(
       const limitNum = parseInt(limit as string);
       const skip = (pageNum - 1) * limitNum;
 
-      const where: any = {};
+      // Only documents the user may read; workers only those that passed review
+      const where: any = await readableWhere(req);
 
       if (category) where.category = category;
       if (status) where.status = status;
       if (language) where.language = language;
       if (warehouseId) where.warehouseId = warehouseId;
+      if (reviewStatus) where.reviewStatus = reviewStatus;
       if (search) {
         where.OR = [
           { title: { contains: search as string, mode: 'insensitive' } },
@@ -280,6 +982,11 @@ router.get(
             },
             warehouse: true,
             department: true,
+            departmentLinks: {
+              select: {
+                department: { select: { id: true, name: true } }
+              }
+            },
             _count: {
               select: { chunks: true }
             }
@@ -289,7 +996,10 @@ router.get(
       ]);
 
       res.json({
-        documents,
+        documents: documents.map(document => ({
+          ...document,
+          validity: documentValidityService.getStatus(document)
+        })),
         pagination: {
           page: pageNum,
           limit: limitNum,
@@ -298,7 +1008,7 @@ router.get(
         }
       });
     } catch (error) {
-      res.status(500).json({ error: 'Failed to fetch documents' });
+      sendError(res, error, 'Failed to fetch documents');
     }
   }
 );
@@ -308,20 +1018,27 @@ router.delete(
   '/:id',
   authenticate,
   authorize(['Admin']),
+  crossWarehouseAccess,
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
 
       const document = await prisma.document.findUnique({
-        where: { id }
+        where: { id },
+        include: {
+          versions: { select: { path: true, storageDriver: true } }
+        }
       });
 
       if (!document) {
         return res.status(404).json({ error: 'Document not found' });
       }
 
-      // Delete file from storage
-      await fs.unlink(document.path).catch(() => {});
+      // Delete the files of every version from the store each was written to
+      const files = new Map([document, ...document.versions].map(file => [`${file.storageDriver}:${file.path}`, file]));
+      await Promise.all([...files.values()].map(file =>
+        getStorageDriver(file.storageDriver).delete(file.path).catch(() => {})
+      ));
 
       // Delete from database (cascades to chunks and embeddings)
       await prisma.document.delete({
@@ -335,6 +1052,309 @@ router.delete(
   }
 );
 
+type DocumentMetadata = z.infer<typeof createDocumentSchema>;
+
+type UploadResult =
+  | { document: Awaited<ReturnType<typeof createDocument>> }
+  | { duplicate: NonNullable<Awaited<ReturnType<typeof findDuplicate>>>; canLink: boolean; linked: boolean };
+
+function toStagedFile(file: Express.Multer.File): StagedFile {
+  return {
+    filename: file.filename,
+    originalName: file.originalname,
+    mimeType: file.mimetype,
+    size: file.size,
+    path: file.path
+  };
+}
+
+// Turn a staged file into a document, or, when the warehouse already has the
+// same file, share the existing document instead of reprocessing it
+async function registerUpload(
+  file: StagedFile,
+  metadata: DocumentMetadata,
+  userId: string,
+  title: string = metadata.title
+): Promise<UploadResult> {
+  const fileHash = await hashFile(file.path);
+  const duplicate = metadata.onDuplicate === 'upload'
+    ? null
+    : await findDuplicate(metadata.warehouseId, fileHash);
+
+  if (duplicate) {
+    await fs.unlink(file.path).catch(() => {});
+
+    const canLink = isLinkable(duplicate, metadata.departmentId);
+    const linked = metadata.onDuplicate === 'link' && canLink;
+    if (linked) {
+      await linkDepartment(duplicate.id, metadata.departmentId!, userId);
+    }
+    return { duplicate, canLink: canLink && !linked, linked };
+  }
+
+  const stored = await storeFile(file);
+
+  let document;
+  try {
+    document = await createDocument(file, stored, fileHash, metadata, userId, title);
+  } catch (error) {
+    await getStorageDriver(stored.storageDriver).delete(stored.path).catch(() => {});
+    throw error;
+  }
+
+  await queueDocumentForProcessing(document.id);
+  return { document };
+}
+
+// Move a staged file into the configured storage driver
+async function storeFile(file: StagedFile) {
+  const driver = getStorageDriver();
+  const key = createStorageKey(file.originalName);
+  await driver.putFile(key, file.path, file.mimeType);
+
+  return { path: key, filename: path.posix.basename(key), storageDriver: driver.name };
+}
+
+async function createDocument(
+  file: StagedFile,
+  stored: Awaited<ReturnType<typeof storeFile>>,
+  fileHash: string,
+  metadata: DocumentMetadata,
+  userId: string,
+  title: string
+) {
+  const reviewStatus = documentReviewService.initialStatus(metadata.category);
+
+  return prisma.document.create({
+    data: {
+      title,
+      description: metadata.description,
+      category: metadata.category,
+      filename: stored.filename,
+      originalName: file.originalName,
+      mimeType: file.mimeType,
+      size: file.size,
+      path: stored.path,
+      storageDriver: stored.storageDriver,
+      fileHash,
+      language: metadata.language,
+      isPublic: metadata.isPublic,
+      uploadedById: userId,
+      warehouseId: metadata.warehouseId,
+      departmentId: metadata.departmentId,
+      status: 'pending', // pending, processing, completed, failed
+      reviewStatus,
+      // Documents that need no review are approved as uploaded
+      approvedVersion: reviewStatus === 'approved' ? 1 : null,
+      validFrom: metadata.validFrom,
+      reviewDueAt: metadata.reviewDueAt,
+      expiresAt: metadata.expiresAt,
+      metadata: {
+        tags: metadata.tags || [],
+        uploadDate: new Date().toISOString()
+      },
+      versions: {
+        create: {
+          version: 1,
+          filename: stored.filename,
+          originalName: file.originalName,
+          mimeType: file.mimeType,
+          size: file.size,
+          path: stored.path,
+          storageDriver: stored.storageDriver,
+          fileHash,
+          uploadedById: userId
+        }
+      }
+    },
+    include: {
+      uploadedBy: {
+        select: { id: true, email: true, name: true }
+      },
+      warehouse: true,
+      department: true
+    }
+  });
+}
+
+function sendUploadResult(res: Response, result: UploadResult) {
+  if ('document' in result) {
+    return res.status(201).json({
+      message: 'Document uploaded successfully',
+      document: result.document
+    });
+  }
+
+  if (result.linked) {
+    return res.json({
+      message: 'Document already uploaded; linked it to the department',
+      document: result.duplicate,
+      linked: true
+    });
+  }
+
+  return res.status(409).json({
+    error: 'This file has already been uploaded to the warehouse',
+    duplicate: result.duplicate,
+    canLink: result.canLink
+  });
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid request', details: error.errors });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  }
+  return res.status(500).json({ error: error instanceof Error ? error.message : fallback });
+}
+
+// SHA-256 of an uploaded file, streamed so large PDFs are not read into memory
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    createReadStream(filePath)
+      .on('data', (data) => hash.update(data))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+// Document in the warehouse whose current file has the same hash
+async function findDuplicate(warehouseId: string, fileHash: string) {
+  return prisma.document.findFirst({
+    where: { warehouseId, fileHash },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      version: true,
+      departmentId: true,
+      departmentLinks: { select: { departmentId: true } },
+      createdAt: true
+    }
+  });
+}
+
+// A duplicate can be linked when the uploader's department does not have it yet
+function isLinkable(
+  duplicate: { departmentId: string | null; departmentLinks: Array<{ departmentId: string }> },
+  departmentId?: string
+): boolean {
+  return Boolean(departmentId)
+    && duplicate.departmentId !== departmentId
+    && !duplicate.departmentLinks.some(link => link.departmentId === departmentId);
+}
+
+async function linkDepartment(documentId: string, departmentId: string, userId: string) {
+  await prisma.documentDepartment.upsert({
+    where: { documentId_departmentId: { documentId, departmentId } },
+    create: { documentId, departmentId, linkedById: userId },
+    update: {}
+  });
+}
+
+// Documents the requesting user may read, as a where clause; workers only
+// read documents with an approved version
+async function readableWhere(req: Request) {
+  return readableFor(await documentAccessService.getScope((req as any).user.userId));
+}
+
+function readableFor(access: AccessScope) {
+  return {
+    AND: [
+      documentAccessService.documentWhere(access),
+      access.role === 'Worker' ? { approvedVersion: { not: null } } : {}
+    ]
+  };
+}
+
+// File of the current version, or of the given version number, of a document
+// the user may read; workers only get the approved version
+async function findStoredFile(req: Request, documentId: string, version: string | undefined) {
+  const access = await documentAccessService.getScope((req as any).user.userId);
+  const select = { path: true, storageDriver: true, originalName: true, mimeType: true };
+
+  const document = await prisma.document.findFirst({
+    where: { id: documentId, ...readableFor(access) },
+    select: { ...select, version: true, approvedVersion: true }
+  });
+  if (!document) {
+    return null;
+  }
+
+  const approvedOnly = access.role === 'Worker';
+  const wanted = version ? parseInt(version) : approvedOnly ? document.approvedVersion : document.version;
+  if (approvedOnly && wanted !== document.approvedVersion) {
+    return null;
+  }
+
+  // Documents from before versioning only have their file on the document row
+  const stored = await prisma.documentVersion.findFirst({ where: { documentId, version: wanted! }, select });
+  return stored ?? (wanted === document.version ? document : null);
+}
+
+// Send a stored file, honouring a single-range Range header
+async function streamFile(
+  req: Request,
+  res: Response,
+  driver: StorageDriver,
+  key: string,
+  options: { filename: string; contentType: string; inline?: boolean }
+) {
+  const info = await driver.stat(key);
+  if (!info) {
+    return res.status(404).json({ error: 'File not found' });
+  }
+
+  const range = parseRange(req.header('Range'), info.size);
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${info.size}`);
+    return res.status(416).end();
+  }
+
+  res.setHeader('Content-Type', options.contentType);
+  res.setHeader('Content-Disposition', contentDisposition(options.filename, options.inline ? 'inline' : 'attachment'));
+  res.setHeader('Accept-Ranges', 'bytes');
+
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${info.size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    res.setHeader('Content-Length', info.size);
+  }
+
+  const stream = await driver.createReadStream(key, range ?? undefined);
+  stream.on('error', (error) => {
+    console.error('Download error:', error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+}
+
+// "bytes=start-end", "bytes=start-" or "bytes=-suffix"; other forms (e.g.
+// several ranges) are answered with the whole file
+function parseRange(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    start = Math.max(size - parseInt(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+  }
+
+  return start > end || start >= size ? 'unsatisfiable' : { start, end };
+}
+
 // Helper function to queue document for processing
 async function queueDocumentForProcessing(documentId: string) {
   // This will be implemented with Bull queue or similar
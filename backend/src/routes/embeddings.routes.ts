@@ -0,0 +1,176 @@
+// backend/src/routes/embeddings.routes.ts
+import { Router } from 'express';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { crossWarehouseAccess } from '../lib/tenant-context';
+import { EmbeddingService } from '../services/ai/embedding.service';
+import { EmbeddingIndexService } from '../services/ai/embedding-index.service';
+import {
+  embeddingMigrationQueue,
+  queueEmbeddingMigration,
+  activateEmbeddingIndex,
+} from '../services/queue/embeddingMigrationQueue';
+import { logger } from '../utils/logger';
+
+const router = Router();
+const embeddingService = new EmbeddingService();
+const indexService = new EmbeddingIndexService();
+
+// Embedding administration is Admin only and spans all warehouses
+router.use(authenticate, authorize([UserRole.ADMIN]), crossWarehouseAccess);
+
+// Validation schemas
+const startMigrationSchema = z.object({
+  body: z.object({
+    provider: z.enum(['openai', 'local', 'hashing']),
+    model: z.string().min(1).optional(),
+    dimensions: z.number().int().min(8).max(4096).optional(),
+    autoActivate: z.boolean().default(true),
+  }),
+});
+
+const indexParamsSchema = z.object({
+  params: z.object({
+    id: z.string().uuid(),
+  }),
+});
+
+// Active model, coverage and cost statistics
+router.get('/', async (_req, res, next) => {
+  try {
+    const statistics = await embeddingService.getStatistics();
+
+    res.json({
+      success: true,
+      data: statistics,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List embedding indexes
+router.get('/indexes', async (_req, res, next) => {
+  try {
+    const indexes = await indexService.listIndexes();
+
+    res.json({
+      success: true,
+      data: indexes,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Start re-embedding all chunks into a new index
+router.post(
+  '/migrations',
+  validateRequest(startMigrationSchema),
+  async (req, res, next) => {
+    try {
+      const { autoActivate, ...target } = req.body;
+      const index = await queueEmbeddingMigration(target, req.user!.id, autoActivate);
+
+      logger.info(`Embedding migration to ${index.modelId} started by ${req.user!.email}`);
+
+      res.status(202).json({
+        success: true,
+        data: index,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Migration progress and cost
+router.get(
+  '/indexes/:id',
+  validateRequest(indexParamsSchema),
+  async (req, res, next) => {
+    try {
+      const index = await indexService.getIndex(req.params.id);
+      const job = index.jobId ? await embeddingMigrationQueue.getJob(index.jobId) : null;
+
+      res.json({
+        success: true,
+        data: {
+          ...index,
+          progress: index.totalChunks > 0
+            ? Math.round(((index.processedChunks + index.failedChunks) / index.totalChunks) * 100)
+            : 0,
+          job: job ? {
+            state: await job.getState(),
+            attemptsMade: job.attemptsMade,
+            failedReason: job.failedReason,
+          } : null,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Switch search to a finished index
+router.post(
+  '/indexes/:id/activate',
+  validateRequest(indexParamsSchema),
+  async (req, res, next) => {
+    try {
+      const index = await activateEmbeddingIndex(req.params.id);
+
+      logger.info(`Embedding index ${index.modelId} activated by ${req.user!.email}`);
+
+      res.json({
+        success: true,
+        data: index,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Cancel a running migration
+router.post(
+  '/indexes/:id/cancel',
+  validateRequest(indexParamsSchema),
+  async (req, res, next) => {
+    try {
+      const index = await indexService.cancel(req.params.id);
+
+      res.json({
+        success: true,
+        data: index,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Drop the vectors of a retired, failed or cancelled index
+router.delete(
+  '/indexes/:id',
+  validateRequest(indexParamsSchema),
+  async (req, res, next) => {
+    try {
+      const deleted = await indexService.purge(req.params.id);
+
+      logger.info(`Embedding index ${req.params.id} purged by ${req.user!.email}`);
+
+      res.json({
+        success: true,
+        data: { deleted },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
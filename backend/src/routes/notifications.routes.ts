@@ -0,0 +1,71 @@
+// backend/src/routes/notifications.routes.ts
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { notificationService } from '../services/notification/notification.service';
+
+const router = Router();
+
+router.use(authenticate);
+
+// Validation schemas
+const listNotificationsSchema = z.object({
+  query: z.object({
+    unread: z.enum(['true', 'false']).optional(),
+    limit: z.string().regex(/^\d+$/).optional(),
+  }),
+});
+
+const notificationParamsSchema = z.object({
+  params: z.object({
+    id: z.string().uuid(),
+  }),
+});
+
+// Current user's notifications
+router.get('/', validateRequest(listNotificationsSchema), async (req, res, next) => {
+  try {
+    const { notifications, unread } = await notificationService.list((req as any).user.userId, {
+      unreadOnly: req.query.unread === 'true',
+      limit: req.query.limit ? Math.min(parseInt(req.query.limit as string), 200) : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: { notifications, unread },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark every notification as read
+router.post('/read', async (req, res, next) => {
+  try {
+    const count = await notificationService.markAllRead((req as any).user.userId);
+
+    res.json({
+      success: true,
+      data: { count },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark one notification as read
+router.post('/:id/read', validateRequest(notificationParamsSchema), async (req, res, next) => {
+  try {
+    await notificationService.markRead((req as any).user.userId, req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Notification marked as read',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
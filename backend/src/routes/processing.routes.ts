@@ -0,0 +1,119 @@
+// backend/src/routes/processing.routes.ts
+import { Router } from 'express';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { crossWarehouseAccess } from '../lib/tenant-context';
+import { processingFailureService } from '../services/processing/processing-failure.service';
+import { PROCESSING_FAILURE_CATEGORIES } from '../services/documentProcessors/processingFailure';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Failure triage is Admin only and spans all warehouses
+router.use(authenticate, authorize([UserRole.ADMIN]), crossWarehouseAccess);
+
+// Validation schemas
+const listFailuresSchema = z.object({
+  query: z.object({
+    category: z.enum(PROCESSING_FAILURE_CATEGORIES).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  }),
+});
+
+const failureParamsSchema = z.object({
+  params: z.object({
+    documentId: z.string().uuid(),
+  }),
+});
+
+// Bulk actions select documents by id, by failure category, or both
+const bulkFailureSchema = z.object({
+  body: z.object({
+    documentIds: z.array(z.string().uuid()).min(1).max(100).optional(),
+    category: z.enum(PROCESSING_FAILURE_CATEGORIES).optional(),
+  }).refine(body => body.documentIds || body.category, {
+    message: 'documentIds or category is required',
+  }),
+});
+
+// Dead-lettered documents with counts per failure category
+router.get(
+  '/failures',
+  validateRequest(listFailuresSchema),
+  async (req, res, next) => {
+    try {
+      const { category, page, limit } = req.query as any;
+      const failures = await processingFailureService.list({ category, page, limit });
+
+      res.json({
+        success: true,
+        data: failures,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Failure details and the dead-letter entry of a document
+router.get(
+  '/failures/:documentId',
+  validateRequest(failureParamsSchema),
+  async (req, res, next) => {
+    try {
+      const failure = await processingFailureService.inspect(req.params.documentId);
+
+      res.json({
+        success: true,
+        data: failure,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Queue dead-lettered documents for processing again
+router.post(
+  '/failures/retry',
+  validateRequest(bulkFailureSchema),
+  async (req, res, next) => {
+    try {
+      const result = await processingFailureService.retry(req.body);
+
+      logger.info(`${result.documentIds.length} failed documents queued again by ${req.user!.email}`);
+
+      res.status(202).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Remove dead-lettered documents from triage; they stay failed
+router.post(
+  '/failures/discard',
+  validateRequest(bulkFailureSchema),
+  async (req, res, next) => {
+    try {
+      const result = await processingFailureService.discard(req.body);
+
+      logger.info(`${result.documentIds.length} failed documents discarded by ${req.user!.email}`);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -3,12 +3,14 @@
 import { Router } from 'express';
 import { body, query, param } from 'express-validator';
 import { SearchController } from '../controllers/search.controller';
+import { ConversationController } from '../controllers/conversation.controller';
 import { authenticate } from '../middleware/auth';
 import { authorize } from '../middleware/rbac';
 import { rateLimiter } from '../middleware/rateLimiter';
 
 const router = Router();
 const searchController = new SearchController();
+const conversationController = new ConversationController();
 
 // Apply authentication to all search routes
 router.use(authenticate);
@@ -73,12 +75,42 @@ router.post(
     body('filters.categories')
       .optional()
       .isArray().withMessage('Categories must be an array'),
+    body('filters.documentId')
+      .optional()
+      .isUUID().withMessage('Document ID must be a valid UUID'),
+    body('filters.version')
+      .optional()
+      .isInt({ min: 1 }).withMessage('Version must be a positive integer'),
+    body('filters.allVersions')
+      .optional()
+      .isBoolean().withMessage('All versions must be a boolean'),
+    body('mode')
+      .optional()
+      .isIn(['vector', 'keyword', 'hybrid']).withMessage('Mode must be vector, keyword, or hybrid'),
+    body('weights')
+      .optional()
+      .isObject().withMessage('Weights must be an object'),
+    body('weights.vector')
+      .optional()
+      .isFloat({ min: 0, max: 10 }).withMessage('Vector weight must be between 0 and 10'),
+    body('weights.keyword')
+      .optional()
+      .isFloat({ min: 0, max: 10 }).withMessage('Keyword weight must be between 0 and 10'),
     body('includeAnswer')
       .optional()
       .isBoolean().withMessage('Include answer must be a boolean'),
     body('includeMetadata')
       .optional()
       .isBoolean().withMessage('Include metadata must be a boolean'),
+    body('crossLingual')
+      .optional()
+      .isBoolean().withMessage('Cross-lingual must be a boolean'),
+    body('collapseDuplicates')
+      .optional()
+      .isBoolean().withMessage('Collapse duplicates must be a boolean'),
+    body('expiredContent')
+      .optional()
+      .isIn(['include', 'demote', 'hide']).withMessage('Expired content must be include, demote, or hide'),
     body('stream')
       .optional()
       .isBoolean().withMessage('Stream must be a boolean')
@@ -130,7 +162,10 @@ router.post(
       .isLength({ min: 2, max: 500 }),
     body('limit')
       .optional()
-      .isInt({ min: 1, max: 20 }).withMessage('Limit must be between 1 and 20')
+      .isInt({ min: 1, max: 20 }).withMessage('Limit must be between 1 and 20'),
+    body('version')
+      .optional()
+      .isInt({ min: 1 }).withMessage('Version must be a positive integer')
   ],
   searchController.searchInDocument
 );
@@ -181,6 +216,9 @@ router.post(
     body('conversationId')
       .optional()
       .isUUID().withMessage('Conversation ID must be a valid UUID'),
+    body('crossLingual')
+      .optional()
+      .isBoolean().withMessage('Cross-lingual must be a boolean'),
     body('stream')
       .optional()
       .isBoolean()
@@ -188,6 +226,110 @@ router.post(
   searchController.generateAIAnswer
 );
 
+/**
+ * @route   POST /api/search/conversations
+ * @desc    Start a conversation
+ * @access  Private
+ */
+router.post(
+  '/conversations',
+  [
+    body('title')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 255 }).withMessage('Title must be between 1 and 255 characters'),
+    body('language')
+      .optional()
+      .isIn(['ar', 'en', 'de']).withMessage('Language must be ar, en, or de'),
+    body('departmentId')
+      .optional()
+      .isUUID().withMessage('Department ID must be a valid UUID')
+  ],
+  conversationController.create
+);
+
+/**
+ * @route   GET /api/search/conversations
+ * @desc    List the user's conversations
+ * @access  Private
+ */
+router.get(
+  '/conversations',
+  [
+    query('includeArchived')
+      .optional()
+      .isBoolean().withMessage('includeArchived must be a boolean'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    query('offset')
+      .optional()
+      .isInt({ min: 0 }).withMessage('Offset must be non-negative')
+  ],
+  conversationController.list
+);
+
+/**
+ * @route   GET /api/search/conversations/:conversationId
+ * @desc    Get a conversation with its messages
+ * @access  Private (owner)
+ */
+router.get(
+  '/conversations/:conversationId',
+  [
+    param('conversationId')
+      .isUUID().withMessage('Conversation ID must be a valid UUID')
+  ],
+  conversationController.get
+);
+
+/**
+ * @route   PATCH /api/search/conversations/:conversationId
+ * @desc    Rename or archive a conversation
+ * @access  Private (owner)
+ */
+router.patch(
+  '/conversations/:conversationId',
+  [
+    param('conversationId')
+      .isUUID().withMessage('Conversation ID must be a valid UUID'),
+    body('title')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 255 }).withMessage('Title must be between 1 and 255 characters'),
+    body('archived')
+      .optional()
+      .isBoolean().withMessage('Archived must be a boolean')
+  ],
+  conversationController.update
+);
+
+/**
+ * @route   POST /api/search/conversations/:conversationId/messages
+ * @desc    Append a user message to a conversation
+ * @access  Private (owner)
+ */
+router.post(
+  '/conversations/:conversationId/messages',
+  [
+    param('conversationId')
+      .isUUID().withMessage('Conversation ID must be a valid UUID'),
+    body('role')
+      .optional()
+      .equals('user').withMessage('Only user messages can be appended'),
+    body('content')
+      .notEmpty().withMessage('Content is required')
+      .isString()
+      .isLength({ max: 10000 }).withMessage('Content must not exceed 10000 characters'),
+    body('metadata')
+      .optional()
+      .isObject().withMessage('Metadata must be an object')
+  ],
+  conversationController.appendMessage
+);
+
 /**
  * @route   GET /api/search/suggestions
  * @desc    Get autocomplete suggestions
@@ -1,15 +1,15 @@
 // C:\Dev\Git\AIwmsa\backend\src\routes\users.routes.ts
 import { Router } from 'express';
 import { z } from 'zod';
-import { PrismaClient, UserRole } from '@prisma/client';
+import { UserRole } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { prisma } from '../lib/prisma';
 import { authenticate, authorize } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
 import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
 const router = Router();
-const prisma = new PrismaClient();
 
 // Validation schemas
 const createUserSchema = z.object({
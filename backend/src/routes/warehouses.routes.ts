@@ -1,16 +1,31 @@
 // C:\Dev\Git\AIwmsa\backend\src\routes\warehouses.routes.ts
 import { Router } from 'express';
 import { z } from 'zod';
-import { PrismaClient, UserRole } from '@prisma/client';
+import { UserRole } from '@prisma/client';
+import { prisma } from '../lib/prisma';
 import { authenticate, authorize } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
+import { crossWarehouseAccess } from '../lib/tenant-context';
 import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { llmProviderService } from '../services/ai/llm-provider.service';
 
 const router = Router();
-const prisma = new PrismaClient();
 
 // Validation schemas
+const llmConfigSchema = z.object({
+  provider: z.enum(['openai', 'local', 'mock']),
+  model: z.string().min(1).optional(),
+  baseUrl: z.string().url().optional(),
+});
+
+const warehouseMetadataSchema = z
+  .object({
+    llm: llmConfigSchema.optional(),
+    ocrLanguages: z.array(z.enum(['en', 'ar', 'de'])).min(1).optional(),
+  })
+  .catchall(z.any());
+
 const createWarehouseSchema = z.object({
   body: z.object({
     name: z.string().min(2),
@@ -22,7 +37,7 @@ const createWarehouseSchema = z.object({
     manager: z.string().optional(),
     operatingHours: z.string().optional(),
     timezone: z.string().default('UTC'),
-    metadata: z.record(z.any()).optional(),
+    metadata: warehouseMetadataSchema.optional(),
   }),
 });
 
@@ -37,7 +52,7 @@ const updateWarehouseSchema = z.object({
     operatingHours: z.string().optional(),
     timezone: z.string().optional(),
     isActive: z.boolean().optional(),
-    metadata: z.record(z.any()).optional(),
+    metadata: warehouseMetadataSchema.optional(),
   }),
   params: z.object({
     id: z.string().uuid(),
@@ -206,6 +221,10 @@ router.patch(
         data: updates,
       });
 
+      if (updates.metadata) {
+        llmProviderService.invalidate(id);
+      }
+
       logger.info(`Warehouse updated: ${warehouse.name} by ${req.user!.email}`);
 
       res.json({
@@ -223,6 +242,8 @@ router.delete(
   '/:id',
   authenticate,
   authorize([UserRole.ADMIN]),
+  // Counts the documents of a warehouse other than the Admin's
+  crossWarehouseAccess,
   async (req, res, next) => {
     try {
       const { id } = req.params;
@@ -5,6 +5,8 @@ import { config } from './config';
 import { logger } from './utils/logger';
 import { PrismaClient } from '@prisma/client';
 import { redisClient } from './utils/redis';
+import { documentValidityService } from './services/validity/document-validity.service';
+import { getStorageDriver } from './services/storage';
 
 // Initialize Prisma
 const prisma = new PrismaClient({
@@ -17,6 +19,10 @@ const server = createServer(app);
 // Start server
 async function startServer() {
   try {
+    // Storage drivers check their configuration (e.g. the URL signing secret) when created
+    getStorageDriver();
+    getStorageDriver('local');
+
     // Connect to database
     await prisma.$connect();
     logger.info('✅ Database connected successfully');
@@ -25,6 +31,9 @@ async function startServer() {
     await redisClient.connect();
     logger.info('✅ Redis connected successfully');
 
+    // Flag documents past their review date or expiry and notify their owners
+    documentValidityService.startScheduler();
+
     // Start listening
     server.listen(config.PORT, () => {
       logger.info(`
@@ -45,6 +54,8 @@ async function startServer() {
 async function shutdown() {
   logger.info('Shutting down server...');
   
+  documentValidityService.stopScheduler();
+
   server.close(() => {
     logger.info('HTTP server closed');
   });
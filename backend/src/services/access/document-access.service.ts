@@ -0,0 +1,325 @@
+// backend/src/services/access/document-access.service.ts
+
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import { AuthenticationError, AuthorizationError, NotFoundError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { redis } from '../../config/redis';
+
+/**
+ * What a user may read, resolved from their user record rather than the
+ * token or the request, so a stale or forged claim cannot widen it
+ */
+export interface AccessScope {
+  userId: string;
+  role: string;
+  warehouseId: string | null;
+  departmentId: string | null;
+  /** Admins read every document */
+  unrestricted: boolean;
+}
+
+export interface AccessClause {
+  clause: string;
+  params: any[];
+}
+
+export interface ShareInput {
+  userId?: string;
+  departmentId?: string;
+  expiresAt?: Date;
+}
+
+/**
+ * Document-level access control. A user reads a document when:
+ * - they are an Admin
+ * - the document is public (isPublic), across warehouses
+ * - they uploaded it
+ * - it belongs to their warehouse and, for Workers, has no department or
+ *   belongs to / is linked to their own department; Experts read the whole warehouse
+ * - it is shared with them or their department and the share has not expired
+ * Only the uploader, an Admin or an Expert of the document's own warehouse
+ * manages its shares; reading a document does not allow sharing it further.
+ * يتحكم في صلاحيات الوصول إلى المستندات
+ */
+export class DocumentAccessService {
+  private prisma: TenantPrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Resolve the access scope of an authenticated user
+   * يحدد نطاق وصول المستخدم
+   */
+  async getScope(userId: string | undefined): Promise<AccessScope> {
+    if (!userId) {
+      throw new AuthenticationError();
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true, isActive: true, warehouseId: true, departmentId: true }
+    });
+
+    if (!user || !user.isActive) {
+      throw new AuthenticationError('User not found or inactive');
+    }
+
+    return {
+      userId: user.id,
+      role: user.role,
+      warehouseId: user.warehouseId,
+      departmentId: user.departmentId,
+      unrestricted: user.role === 'Admin'
+    };
+  }
+
+  /**
+   * SQL condition on documents aliased `d`, numbered from startIndex, for
+   * raw retrieval queries
+   * يبني شرط الوصول لاستعلامات SQL
+   */
+  buildSqlClause(scope: AccessScope, startIndex: number): AccessClause {
+    if (scope.unrestricted) {
+      return { clause: '', params: [] };
+    }
+
+    const params: any[] = [scope.userId];
+    const userParam = `$${startIndex}`;
+    const departmentParam = `$${startIndex + 1}`;
+    if (scope.departmentId) {
+      params.push(scope.departmentId);
+    }
+
+    const conditions = ['d.is_public', `d.uploaded_by_id = ${userParam}`];
+
+    if (scope.warehouseId) {
+      params.push(scope.warehouseId);
+      const warehouseParam = `$${startIndex + params.length - 1}`;
+
+      if (scope.role === 'Expert') {
+        conditions.push(`d.warehouse_id = ${warehouseParam}`);
+      } else {
+        const departments = ['d.department_id IS NULL'];
+        if (scope.departmentId) {
+          departments.push(
+            `d.department_id = ${departmentParam}`,
+            `EXISTS (
+              SELECT 1 FROM document_departments dd
+              WHERE dd.document_id = d.id AND dd.department_id = ${departmentParam}
+            )`
+          );
+        }
+        conditions.push(`(d.warehouse_id = ${warehouseParam} AND (${departments.join(' OR ')}))`);
+      }
+    }
+
+    const grantees = [`s.user_id = ${userParam}`];
+    if (scope.departmentId) {
+      grantees.push(`s.department_id = ${departmentParam}`);
+    }
+    conditions.push(`EXISTS (
+      SELECT 1 FROM document_shares s
+      WHERE s.document_id = d.id
+        AND (s.expires_at IS NULL OR s.expires_at > NOW())
+        AND (${grantees.join(' OR ')})
+    )`);
+
+    return { clause: ` AND (${conditions.join(' OR ')})`, params };
+  }
+
+  /**
+   * The same condition as a Prisma where clause on Document
+   * يبني شرط الوصول لاستعلامات Prisma
+   */
+  documentWhere(scope: AccessScope, now: Date = new Date()): Record<string, any> {
+    if (scope.unrestricted) {
+      return {};
+    }
+
+    const conditions: Record<string, any>[] = [
+      { isPublic: true },
+      { uploadedById: scope.userId }
+    ];
+
+    if (scope.warehouseId) {
+      conditions.push(scope.role === 'Expert'
+        ? { warehouseId: scope.warehouseId }
+        : {
+          warehouseId: scope.warehouseId,
+          OR: [
+            { departmentId: null },
+            ...(scope.departmentId
+              ? [
+                { departmentId: scope.departmentId },
+                { departmentLinks: { some: { departmentId: scope.departmentId } } }
+              ]
+              : [])
+          ]
+        });
+    }
+
+    conditions.push({
+      shares: {
+        some: {
+          OR: [
+            { userId: scope.userId },
+            ...(scope.departmentId ? [{ departmentId: scope.departmentId }] : [])
+          ],
+          AND: [{ OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] }]
+        }
+      }
+    });
+
+    return { OR: conditions };
+  }
+
+  /**
+   * Throw NotFoundError unless the user may read the document; a document
+   * they cannot read is reported as missing so its existence does not leak
+   * يتحقق من صلاحية الوصول إلى المستند
+   */
+  async assertAccess(scope: AccessScope, documentId: string): Promise<void> {
+    const count = await this.prisma.document.count({
+      where: { id: documentId, ...this.documentWhere(scope) }
+    });
+
+    if (count === 0) {
+      throw new NotFoundError('Document');
+    }
+  }
+
+  /**
+   * Throw unless the user may manage the document's shares: NotFoundError when
+   * they cannot read it, AuthorizationError when they can only read it
+   * يتحقق من صلاحية إدارة مشاركات المستند
+   */
+  async assertCanManage(scope: AccessScope, documentId: string): Promise<void> {
+    const document = await this.prisma.document.findFirst({
+      where: { id: documentId, ...this.documentWhere(scope) },
+      select: { warehouseId: true, uploadedById: true }
+    });
+
+    if (!document) {
+      throw new NotFoundError('Document');
+    }
+
+    const canManage = scope.unrestricted
+      || document.uploadedById === scope.userId
+      || (scope.role === 'Expert' && scope.warehouseId !== null && document.warehouseId === scope.warehouseId);
+
+    if (!canManage) {
+      throw new AuthorizationError('Only the uploader, an Admin or an Expert of its warehouse can manage shares of this document');
+    }
+  }
+
+  /**
+   * Explicit share grants of a document, including expired ones
+   * يعرض مشاركات المستند
+   */
+  async listShares(documentId: string) {
+    return this.prisma.documentShare.findMany({
+      where: { documentId },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        department: { select: { id: true, name: true, code: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Share a document with a user or a whole department
+   * يشارك المستند مع مستخدم أو قسم
+   */
+  async share(scope: AccessScope, documentId: string, input: ShareInput) {
+    await this.assertCanManage(scope, documentId);
+    const grantedById = scope.userId;
+
+    if (!input.userId === !input.departmentId) {
+      throw new ValidationError('Share a document with either a user or a department');
+    }
+    if (input.expiresAt && input.expiresAt <= new Date()) {
+      throw new ValidationError('Share expiry must be in the future');
+    }
+
+    if (input.userId) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: input.userId },
+        select: { isActive: true }
+      });
+      if (!user || !user.isActive) {
+        throw new NotFoundError('User');
+      }
+    } else {
+      const department = await this.prisma.department.findUnique({
+        where: { id: input.departmentId! },
+        select: { isActive: true }
+      });
+      if (!department || !department.isActive) {
+        throw new NotFoundError('Department');
+      }
+    }
+
+    // Sharing again with the same grantee replaces the earlier grant
+    const share = await this.prisma.$transaction(async (tx) => {
+      await tx.documentShare.deleteMany({
+        where: input.userId
+          ? { documentId, userId: input.userId }
+          : { documentId, departmentId: input.departmentId }
+      });
+
+      return tx.documentShare.create({
+        data: {
+          documentId,
+          userId: input.userId,
+          departmentId: input.departmentId,
+          grantedById,
+          expiresAt: input.expiresAt
+        }
+      });
+    });
+
+    logger.info(`Document ${documentId} shared with ${input.userId ? `user ${input.userId}` : `department ${input.departmentId}`} by ${grantedById}`);
+    return share;
+  }
+
+  /**
+   * Revoke a share grant
+   * يلغي مشاركة المستند
+   */
+  async revokeShare(scope: AccessScope, documentId: string, shareId: string): Promise<void> {
+    await this.assertCanManage(scope, documentId);
+
+    // A share id from another document is reported as missing
+    const share = await this.prisma.documentShare.findFirst({
+      where: { id: shareId, documentId },
+      select: { id: true }
+    });
+    if (!share) {
+      throw new NotFoundError('Share');
+    }
+
+    await this.prisma.documentShare.delete({ where: { id: share.id } });
+
+    // Cached search results may still contain the document for the grantees.
+    // SCAN walks the keyspace in steps instead of blocking Redis like KEYS.
+    try {
+      let cursor = '0';
+      do {
+        const [next, keys] = await redis.scan(cursor, 'MATCH', 'search:*', 'COUNT', 500);
+        if (keys.length > 0) {
+          await redis.del(...keys);
+        }
+        cursor = next;
+      } while (cursor !== '0');
+    } catch (error) {
+      logger.warn('Failed to clear search cache after revoking a share:', error);
+    }
+
+    logger.info(`Share ${shareId} of document ${documentId} revoked`);
+  }
+}
+
+export const documentAccessService = new DocumentAccessService();
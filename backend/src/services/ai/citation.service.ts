@@ -0,0 +1,75 @@
+// backend/src/services/ai/citation.service.ts
+
+import { NumberedSource } from './prompt.service';
+
+export interface Citation {
+  marker: number;
+  chunkId: string;
+  documentId: string;
+  title: string;
+  page: number | null;
+  section: string | null;
+}
+
+export interface CitationResult {
+  citations: Citation[];
+  /** True when the answer cites at least one retrieved chunk */
+  grounded: boolean;
+  /** Markers in the answer that do not match any numbered source */
+  invalidMarkers: number[];
+}
+
+// Matches [1], [1, 3] and Arabic-Indic digits such as [٢]
+const CITATION_PATTERN = /\[([0-9٠-٩]+(?:\s*[,،]\s*[0-9٠-٩]+)*)\]/g;
+
+export class CitationService {
+  /**
+   * Parse [n] markers back into the chunks they refer to
+   * يستخرج المراجع من الإجابة ويربطها بالمقاطع
+   */
+  extract(answer: string, sources: NumberedSource[]): CitationResult {
+    const byMarker = new Map(sources.map(source => [source.marker, source]));
+    const cited = new Map<number, Citation>();
+    const invalid = new Set<number>();
+
+    for (const marker of this.findMarkers(answer)) {
+      const source = byMarker.get(marker);
+      if (!source) {
+        invalid.add(marker);
+        continue;
+      }
+
+      if (!cited.has(marker)) {
+        cited.set(marker, {
+          marker,
+          chunkId: source.chunkId,
+          documentId: source.documentId,
+          title: source.title,
+          page: source.page,
+          section: source.section
+        });
+      }
+    }
+
+    const citations = [...cited.values()].sort((a, b) => a.marker - b.marker);
+
+    return {
+      citations,
+      grounded: citations.length > 0,
+      invalidMarkers: [...invalid].sort((a, b) => a - b)
+    };
+  }
+
+  private findMarkers(answer: string): number[] {
+    const markers: number[] = [];
+
+    for (const match of answer.matchAll(CITATION_PATTERN)) {
+      for (const part of match[1].split(/[,،]/)) {
+        const digits = part.trim().replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660));
+        markers.push(parseInt(digits, 10));
+      }
+    }
+
+    return markers;
+  }
+}
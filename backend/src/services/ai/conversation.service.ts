@@ -0,0 +1,297 @@
+// backend/src/services/ai/conversation.service.ts
+
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import { LLMProvider, ChatMessage } from './providers';
+import { PromptService, PromptLanguage } from './prompt.service';
+import { tokenizerService } from './tokenizer.service';
+import { NotFoundError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+export type MessageRole = 'user' | 'assistant' | 'system';
+
+export interface Conversation {
+  id: string;
+  userId: string;
+  title: string | null;
+  language: PromptLanguage;
+  departmentId: string | null;
+  tokensUsed: number;
+  messageCount: number;
+  lastMessageAt: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConversationMessage {
+  id: string;
+  conversationId: string;
+  role: MessageRole;
+  content: string;
+  metadata: any;
+  tokensUsed: number | null;
+  createdAt: Date;
+}
+
+interface CreateConversationInput {
+  title?: string;
+  language?: PromptLanguage;
+  departmentId?: string;
+}
+
+interface ListConversationsOptions {
+  includeArchived?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Multi-turn AI conversations stored in ai_conversations / ai_messages
+ * يدير المحادثات متعددة الأدوار
+ */
+export class ConversationService {
+  private prisma: TenantPrismaClient;
+  private promptService: PromptService;
+  private readonly HISTORY_TOKEN_BUDGET = parseInt(process.env.CONVERSATION_HISTORY_TOKENS || '1500');
+  private readonly REWRITE_HISTORY_MESSAGES = 6;
+  private readonly TITLE_MAX_LENGTH = 80;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+    this.promptService = new PromptService();
+  }
+
+  /**
+   * Start a new conversation
+   * ينشئ محادثة جديدة
+   */
+  async create(userId: string, input: CreateConversationInput = {}): Promise<Conversation> {
+    const rows = await this.prisma.$queryRaw<any[]>`
+      INSERT INTO ai_conversations (user_id, title, language, department_id, created_at, updated_at)
+      VALUES (${userId}::uuid, ${input.title ?? null}, ${input.language || 'en'}, ${input.departmentId ?? null}::uuid, NOW(), NOW())
+      RETURNING *
+    `;
+    return this.mapConversation(rows[0]);
+  }
+
+  /**
+   * List a user's conversations, most recently active first
+   * يعرض محادثات المستخدم
+   */
+  async list(userId: string, options: ListConversationsOptions = {}): Promise<Conversation[]> {
+    const { includeArchived = false, limit = 20, offset = 0 } = options;
+
+    const rows = await this.prisma.$queryRaw<any[]>`
+      SELECT *
+      FROM ai_conversations
+      WHERE user_id = ${userId}::uuid
+        AND (${includeArchived} OR is_active = true)
+      ORDER BY COALESCE(last_message_at, created_at) DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+    return rows.map(row => this.mapConversation(row));
+  }
+
+  /**
+   * Get a conversation owned by the user
+   * يحصل على محادثة يملكها المستخدم
+   */
+  async get(userId: string, conversationId: string): Promise<Conversation> {
+    const rows = await this.prisma.$queryRaw<any[]>`
+      SELECT *
+      FROM ai_conversations
+      WHERE id = ${conversationId}::uuid AND user_id = ${userId}::uuid
+    `;
+
+    if (rows.length === 0) {
+      throw new NotFoundError('Conversation');
+    }
+    return this.mapConversation(rows[0]);
+  }
+
+  async rename(userId: string, conversationId: string, title: string): Promise<Conversation> {
+    await this.get(userId, conversationId);
+
+    const rows = await this.prisma.$queryRaw<any[]>`
+      UPDATE ai_conversations
+      SET title = ${title}, updated_at = NOW()
+      WHERE id = ${conversationId}::uuid
+      RETURNING *
+    `;
+    return this.mapConversation(rows[0]);
+  }
+
+  /**
+   * Archive (or restore) a conversation; archived ones are hidden from the default list
+   * يؤرشف المحادثة أو يستعيدها
+   */
+  async setArchived(userId: string, conversationId: string, archived: boolean): Promise<Conversation> {
+    await this.get(userId, conversationId);
+
+    const rows = await this.prisma.$queryRaw<any[]>`
+      UPDATE ai_conversations
+      SET is_active = ${!archived}, updated_at = NOW()
+      WHERE id = ${conversationId}::uuid
+      RETURNING *
+    `;
+    return this.mapConversation(rows[0]);
+  }
+
+  /**
+   * Messages in chronological order
+   * يعرض رسائل المحادثة
+   */
+  async getMessages(
+    userId: string,
+    conversationId: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<ConversationMessage[]> {
+    await this.get(userId, conversationId);
+
+    const rows = await this.prisma.$queryRaw<any[]>`
+      SELECT id, conversation_id, role, content, metadata, tokens_used, created_at
+      FROM ai_messages
+      WHERE conversation_id = ${conversationId}::uuid
+      ORDER BY created_at ASC
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+    return rows.map(row => this.mapMessage(row));
+  }
+
+  /**
+   * Append a message and update the conversation counters. Clients may only
+   * append user messages; assistant turns come from the answer flow.
+   * يضيف رسالة إلى المحادثة
+   */
+  async appendMessage(
+    conversationId: string,
+    role: MessageRole,
+    content: string,
+    metadata: any = null,
+    tokensUsed?: number
+  ): Promise<ConversationMessage> {
+    const tokens = tokensUsed ?? this.estimateTokens(content);
+
+    const [rows] = await this.prisma.$transaction([
+      this.prisma.$queryRaw<any[]>`
+        INSERT INTO ai_messages (conversation_id, role, content, metadata, tokens_used, created_at)
+        VALUES (${conversationId}::uuid, ${role}, ${content}, ${metadata ? JSON.stringify(metadata) : null}::jsonb, ${tokens}, NOW())
+        RETURNING id, conversation_id, role, content, metadata, tokens_used, created_at
+      `,
+      this.prisma.$executeRaw`
+        UPDATE ai_conversations
+        SET message_count = message_count + 1,
+            tokens_used = tokens_used + ${tokens},
+            last_message_at = NOW(),
+            updated_at = NOW(),
+            title = COALESCE(title, ${role === 'user' ? this.makeTitle(content) : null})
+        WHERE id = ${conversationId}::uuid
+      `
+    ]);
+
+    return this.mapMessage(rows[0]);
+  }
+
+  /**
+   * Most recent turns that fit the token budget, oldest first, ready for the prompt
+   * يحصل على سجل المحادثة ضمن حد التوكنز
+   */
+  async getHistory(
+    conversationId: string,
+    tokenBudget: number = this.HISTORY_TOKEN_BUDGET
+  ): Promise<ChatMessage[]> {
+    const rows = await this.prisma.$queryRaw<any[]>`
+      SELECT role, content, tokens_used
+      FROM ai_messages
+      WHERE conversation_id = ${conversationId}::uuid
+        AND role IN ('user', 'assistant')
+      ORDER BY created_at DESC
+      LIMIT 50
+    `;
+
+    const history: ChatMessage[] = [];
+    let used = 0;
+
+    for (const row of rows) {
+      const tokens = row.tokens_used ?? this.estimateTokens(row.content);
+      if (used + tokens > tokenBudget) {
+        break;
+      }
+      used += tokens;
+      // Old [n] markers point at sources that are no longer in the prompt
+      const content = row.role === 'assistant' ? row.content.replace(/\s*\[\d+(?:\s*,\s*\d+)*\]/g, '') : row.content;
+      history.unshift({ role: row.role, content });
+    }
+
+    return history;
+  }
+
+  /**
+   * Turn a follow-up like "and for the second one?" into a standalone search query
+   * يعيد صياغة السؤال التابع كسؤال مستقل
+   */
+  async rewriteQuery(
+    llm: LLMProvider,
+    history: ChatMessage[],
+    question: string,
+    language: PromptLanguage
+  ): Promise<string> {
+    if (history.length === 0) {
+      return question;
+    }
+
+    try {
+      const recent = history.slice(-this.REWRITE_HISTORY_MESSAGES);
+      const { content } = await llm.generateCompletion(
+        this.promptService.buildQueryRewritePrompt(recent, question, language),
+        { temperature: 0, maxTokens: 150 }
+      );
+
+      const rewritten = content.trim().replace(/^["']|["']$/g, '');
+      return rewritten.length > 0 ? rewritten : question;
+    } catch (error) {
+      logger.warn('Query rewrite failed, using original question:', error);
+      return question;
+    }
+  }
+
+  private makeTitle(content: string): string {
+    const firstLine = content.trim().split('\n')[0];
+    return firstLine.length > this.TITLE_MAX_LENGTH
+      ? `${firstLine.substring(0, this.TITLE_MAX_LENGTH - 3)}...`
+      : firstLine;
+  }
+
+  private estimateTokens(text: string): number {
+    return tokenizerService.count(text, process.env.OPENAI_MODEL_CHAT || 'gpt-4-turbo-preview');
+  }
+
+  private mapConversation(row: any): Conversation {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      title: row.title,
+      language: row.language,
+      departmentId: row.department_id,
+      tokensUsed: row.tokens_used,
+      messageCount: row.message_count,
+      lastMessageAt: row.last_message_at,
+      isActive: row.is_active,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapMessage(row: any): ConversationMessage {
+    return {
+      id: row.id,
+      conversationId: row.conversation_id,
+      role: row.role,
+      content: row.content,
+      metadata: row.metadata,
+      tokensUsed: row.tokens_used,
+      createdAt: row.created_at
+    };
+  }
+}
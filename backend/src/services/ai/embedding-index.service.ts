@@ -0,0 +1,309 @@
+// backend/src/services/ai/embedding-index.service.ts
+
+import { EmbeddingIndex } from '@prisma/client';
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import { EmbeddingProvider, createEmbeddingProvider, formatModelId } from './providers';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+export interface EmbeddingIndexTarget {
+  provider: string;
+  model?: string;
+  dimensions?: number;
+}
+
+export interface EmbeddingIndexProgress {
+  processed: number;
+  failed: number;
+  tokensUsed: number;
+  cost: number;
+}
+
+/**
+ * Tracks which embedding model search reads from and the indexes being built
+ * beside it. Each process caches the active index briefly, so a switch reaches
+ * every API and worker process within ACTIVE_CACHE_TTL_MS.
+ * يدير فهارس التضمين النشطة وقيد الإنشاء
+ */
+export class EmbeddingIndexService {
+  private prisma: TenantPrismaClient;
+  private providers: Map<string, EmbeddingProvider> = new Map();
+  private activeCache?: { provider: EmbeddingProvider; expiresAt: number };
+  private readonly ACTIVE_CACHE_TTL_MS = parseInt(process.env.EMBEDDING_INDEX_CACHE_TTL_MS || '30000');
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Provider for the index search currently reads from.
+   * Falls back to EMBEDDING_PROVIDER until a migration has registered an index.
+   * يعيد مزود الفهرس النشط
+   */
+  async getActiveProvider(): Promise<EmbeddingProvider> {
+    if (this.activeCache && this.activeCache.expiresAt > Date.now()) {
+      return this.activeCache.provider;
+    }
+
+    let provider: EmbeddingProvider;
+    try {
+      const active = await this.prisma.embeddingIndex.findFirst({
+        where: { status: 'active' }
+      });
+      provider = active ? this.getProvider(active) : this.getDefaultProvider();
+    } catch (error) {
+      logger.warn('Failed to load active embedding index, using configured provider:', error);
+      provider = this.getDefaultProvider();
+    }
+
+    this.activeCache = { provider, expiresAt: Date.now() + this.ACTIVE_CACHE_TTL_MS };
+    return provider;
+  }
+
+  /**
+   * Providers new chunks must be written to: the active index plus any index being built
+   * يعيد المزودين الذين يجب الكتابة إليهم
+   */
+  async getWriteProviders(): Promise<EmbeddingProvider[]> {
+    const active = await this.getActiveProvider();
+    const building = await this.prisma.embeddingIndex.findMany({
+      where: { status: 'building', modelId: { not: active.modelId } }
+    });
+
+    return [active, ...building.map(index => this.getProvider(index))];
+  }
+
+  /**
+   * Build a provider instance for a stored index
+   */
+  getProvider(index: Pick<EmbeddingIndex, 'provider' | 'model' | 'dimensions'>): EmbeddingProvider {
+    const modelId = formatModelId(index.provider, index.model);
+    const key = `${modelId}:${index.dimensions}`;
+
+    let provider = this.providers.get(key);
+    if (!provider) {
+      provider = createEmbeddingProvider(index.provider, {
+        model: index.model,
+        dimensions: index.dimensions
+      });
+      this.providers.set(key, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Register a new index in "building" state next to the active one
+   * ينشئ فهرساً جديداً بجانب الفهرس النشط
+   */
+  async createIndex(target: EmbeddingIndexTarget, userId?: string): Promise<EmbeddingIndex> {
+    const provider = createEmbeddingProvider(target.provider, {
+      model: target.model,
+      dimensions: target.dimensions
+    });
+
+    const active = await this.ensureActiveIndex();
+    if (active.modelId === provider.modelId) {
+      if (active.dimensions === provider.dimensions) {
+        throw new ValidationError(`${provider.modelId} is already the active embedding model`);
+      }
+      // Vectors are keyed by model id, so a resize needs its own id
+      throw new ValidationError(
+        `Changing dimensions of ${provider.modelId} in place is not supported; use a different model name`
+      );
+    }
+
+    const building = await this.prisma.embeddingIndex.findFirst({
+      where: { status: 'building' }
+    });
+    if (building) {
+      throw new ConflictError(`Embedding migration to ${building.modelId} is already running`);
+    }
+
+    const totalChunks = await this.prisma.chunk.count();
+    const data = {
+      provider: provider.name,
+      model: provider.model,
+      dimensions: provider.dimensions,
+      status: 'building',
+      totalChunks,
+      processedChunks: 0,
+      failedChunks: 0,
+      tokensUsed: 0,
+      estimatedCost: 0,
+      error: null,
+      jobId: null,
+      startedById: userId,
+      completedAt: null,
+      activatedAt: null,
+      retiredAt: null
+    };
+
+    // Re-running a retired or failed index keeps its vectors, so only gaps are re-embedded
+    const index = await this.prisma.embeddingIndex.upsert({
+      where: { modelId: provider.modelId },
+      create: { ...data, modelId: provider.modelId },
+      update: data
+    });
+
+    logger.info(`Created embedding index ${index.modelId} (${index.dimensions}d) for ${totalChunks} chunks`);
+    return index;
+  }
+
+  async getIndex(indexId: string): Promise<EmbeddingIndex> {
+    const index = await this.prisma.embeddingIndex.findUnique({
+      where: { id: indexId }
+    });
+    if (!index) {
+      throw new NotFoundError('Embedding index');
+    }
+    return index;
+  }
+
+  async listIndexes(): Promise<EmbeddingIndex[]> {
+    return this.prisma.embeddingIndex.findMany({
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  async setJobId(indexId: string, jobId: string): Promise<void> {
+    await this.prisma.embeddingIndex.update({
+      where: { id: indexId },
+      data: { jobId }
+    });
+  }
+
+  /**
+   * Add a batch's counters to the index
+   * يضيف تقدم الدفعة إلى الفهرس
+   */
+  async recordProgress(indexId: string, progress: EmbeddingIndexProgress): Promise<EmbeddingIndex> {
+    return this.prisma.embeddingIndex.update({
+      where: { id: indexId },
+      data: {
+        processedChunks: { increment: progress.processed },
+        failedChunks: { increment: progress.failed },
+        tokensUsed: { increment: progress.tokensUsed },
+        estimatedCost: { increment: progress.cost }
+      }
+    });
+  }
+
+  async markFailed(indexId: string, error: string): Promise<void> {
+    await this.prisma.embeddingIndex.update({
+      where: { id: indexId },
+      data: { status: 'failed', error, completedAt: new Date() }
+    });
+  }
+
+  /**
+   * Stop a running migration; the job notices on its next batch
+   * يلغي عملية الترحيل الجارية
+   */
+  async cancel(indexId: string): Promise<EmbeddingIndex> {
+    const index = await this.getIndex(indexId);
+    if (index.status !== 'building') {
+      throw new ValidationError(`Embedding index ${index.modelId} is ${index.status}, not building`);
+    }
+
+    return this.prisma.embeddingIndex.update({
+      where: { id: indexId },
+      data: { status: 'cancelled', completedAt: new Date() }
+    });
+  }
+
+  /**
+   * Make an index the one search reads from, retiring the previous one in the same transaction
+   * يبدّل الفهرس النشط بشكل ذري
+   */
+  async activate(indexId: string): Promise<EmbeddingIndex> {
+    const index = await this.getIndex(indexId);
+    if (index.status === 'active') {
+      return index;
+    }
+    if (!['building', 'retired'].includes(index.status)) {
+      throw new ValidationError(`Embedding index ${index.modelId} is ${index.status} and cannot be activated`);
+    }
+
+    const now = new Date();
+    const [, activated] = await this.prisma.$transaction([
+      this.prisma.embeddingIndex.updateMany({
+        where: { status: 'active', id: { not: indexId } },
+        data: { status: 'retired', retiredAt: now }
+      }),
+      this.prisma.embeddingIndex.update({
+        where: { id: indexId },
+        data: {
+          status: 'active',
+          activatedAt: now,
+          completedAt: index.completedAt ?? now,
+          retiredAt: null
+        }
+      })
+    ]);
+
+    this.activeCache = undefined;
+    logger.info(`Embedding index ${activated.modelId} is now active`);
+    return activated;
+  }
+
+  /**
+   * Delete the vectors of a retired index to reclaim space
+   * يحذف تضمينات فهرس متقاعد
+   */
+  async purge(indexId: string): Promise<number> {
+    const index = await this.getIndex(indexId);
+    if (index.status === 'active' || index.status === 'building') {
+      throw new ValidationError(`Cannot purge ${index.status} embedding index ${index.modelId}`);
+    }
+
+    const deleted = await this.prisma.embedding.deleteMany({
+      where: { model: index.modelId }
+    });
+    await this.prisma.embeddingIndex.delete({ where: { id: indexId } });
+
+    logger.info(`Purged ${deleted.count} vectors of embedding index ${index.modelId}`);
+    return deleted.count;
+  }
+
+  /**
+   * Register the configured provider as the active index the first time a migration starts
+   */
+  private async ensureActiveIndex(): Promise<EmbeddingIndex> {
+    const active = await this.prisma.embeddingIndex.findFirst({
+      where: { status: 'active' }
+    });
+    if (active) {
+      return active;
+    }
+
+    const provider = this.getDefaultProvider();
+    const totalChunks = await this.prisma.embedding.count({
+      where: { model: provider.modelId }
+    });
+
+    return this.prisma.embeddingIndex.upsert({
+      where: { modelId: provider.modelId },
+      create: {
+        provider: provider.name,
+        model: provider.model,
+        modelId: provider.modelId,
+        dimensions: provider.dimensions,
+        status: 'active',
+        totalChunks,
+        processedChunks: totalChunks,
+        activatedAt: new Date()
+      },
+      update: { status: 'active', activatedAt: new Date(), retiredAt: null }
+    });
+  }
+
+  private getDefaultProvider(): EmbeddingProvider {
+    const provider = createEmbeddingProvider();
+    const key = `${provider.modelId}:${provider.dimensions}`;
+
+    if (!this.providers.has(key)) {
+      this.providers.set(key, provider);
+    }
+    return this.providers.get(key)!;
+  }
+}
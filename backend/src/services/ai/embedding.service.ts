@@ -1,7 +1,10 @@
 // backend/src/services/ai/embedding.service.ts
 
-import { PrismaClient } from '@prisma/client';
-import { OpenAIService } from './openai.service';
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import { systemJob } from '../../lib/tenant-context';
+import { EmbeddingProvider } from './providers';
+import { EmbeddingIndexService } from './embedding-index.service';
+import { tokenizerService } from './tokenizer.service';
 import { logger } from '../../utils/logger';
 import { Queue, Job } from 'bull';
 import { redis } from '../../config/redis';
@@ -28,20 +31,26 @@ interface BatchEmbeddingOptions {
   delayMs?: number;
   maxRetries?: number;
   priority?: number;
+  provider?: EmbeddingProvider;
+}
+
+interface MigrationBatchResult {
+  processed: number;
+  failed: number;
+  tokensUsed: number;
+  cost: number;
 }
 
 export class EmbeddingService {
-  private prisma: PrismaClient;
-  private openaiService: OpenAIService;
+  private prisma: TenantPrismaClient;
+  private indexService: EmbeddingIndexService;
   private embeddingQueue: Queue<EmbeddingTask>;
-  private readonly MODEL = process.env.OPENAI_MODEL_EMBEDDING || 'text-embedding-3-small';
-  private readonly DIMENSIONS = parseInt(process.env.EMBEDDING_DIMENSIONS || '1536');
   private readonly BATCH_SIZE = parseInt(process.env.EMBEDDING_BATCH_SIZE || '100');
   private costTracker: Map<string, number> = new Map();
 
   constructor() {
-    this.prisma = new PrismaClient();
-    this.openaiService = new OpenAIService();
+    this.prisma = createPrismaClient();
+    this.indexService = new EmbeddingIndexService();
     
     // Initialize embedding queue
     this.embeddingQueue = new Queue('embeddings', {
@@ -61,14 +70,14 @@ export class EmbeddingService {
    */
   private setupQueueProcessors(): void {
     // Process embedding tasks
-    this.embeddingQueue.process('generate', 5, async (job: Job<EmbeddingTask>) => {
+    this.embeddingQueue.process('generate', 5, systemJob(async (job: Job<EmbeddingTask>) => {
       return await this.processEmbeddingTask(job.data);
-    });
+    }));
 
     // Process batch embeddings
-    this.embeddingQueue.process('batch', 2, async (job: Job<EmbeddingTask[]>) => {
+    this.embeddingQueue.process('batch', 2, systemJob(async (job: Job<EmbeddingTask[]>) => {
       return await this.processBatchEmbeddings(job.data);
-    });
+    }));
 
     // Log queue events
     this.embeddingQueue.on('completed', (job) => {
@@ -80,6 +89,20 @@ export class EmbeddingService {
     });
   }
 
+  /**
+   * Get the active provider's model identity
+   * يحصل على معلومات نموذج التضمين الحالي
+   */
+  async getModelInfo(): Promise<{ provider: string; model: string; modelId: string; dimensions: number }> {
+    const provider = await this.indexService.getActiveProvider();
+    return {
+      provider: provider.name,
+      model: provider.model,
+      modelId: provider.modelId,
+      dimensions: provider.dimensions
+    };
+  }
+
   /**
    * Generate embedding for text
    * يولد تضمين للنص
@@ -87,20 +110,23 @@ export class EmbeddingService {
   async generateEmbedding(
     text: string,
     metadata?: any,
-    useCache: boolean = true
+    useCache: boolean = true,
+    provider?: EmbeddingProvider
   ): Promise<EmbeddingResult> {
     const startTime = Date.now();
     
     try {
+      const embedder = provider || await this.indexService.getActiveProvider();
+
       // Check cache if enabled
       if (useCache) {
-        const cached = await this.getCachedEmbedding(text);
+        const cached = await this.getCachedEmbedding(text, embedder);
         if (cached) {
           logger.debug('Using cached embedding');
           return {
             id: this.generateHash(text),
             embedding: cached,
-            model: this.MODEL,
+            model: embedder.modelId,
             tokensUsed: 0,
             processingTime: Date.now() - startTime
           };
@@ -111,26 +137,23 @@ export class EmbeddingService {
       const processedText = this.preprocessText(text, metadata);
 
       // Generate embedding
-      const embedding = await this.openaiService.generateEmbedding(processedText, {
-        model: this.MODEL,
-        dimensions: this.DIMENSIONS
-      });
+      const embedding = await embedder.embed(processedText);
 
-      // Calculate tokens (approximate)
-      const tokensUsed = await this.estimateTokens(processedText);
+      // Calculate tokens
+      const tokensUsed = await this.estimateTokens(processedText, embedder);
 
       // Cache the embedding
       if (useCache) {
-        await this.cacheEmbedding(text, embedding);
+        await this.cacheEmbedding(text, embedding, embedder);
       }
 
       // Track cost
-      await this.trackCost(tokensUsed);
+      await this.trackCost(tokensUsed, embedder);
 
       return {
         id: this.generateHash(text),
         embedding,
-        model: this.MODEL,
+        model: embedder.modelId,
         tokensUsed,
         processingTime: Date.now() - startTime
       };
@@ -153,6 +176,7 @@ export class EmbeddingService {
       delayMs = 1000,
       maxRetries = 3
     } = options;
+    const embedder = options.provider || await this.indexService.getActiveProvider();
 
     const results: EmbeddingResult[] = [];
     
@@ -161,18 +185,15 @@ export class EmbeddingService {
       const batch = texts.slice(i, i + batchSize);
       
       try {
-        const embeddings = await this.openaiService.generateBatchEmbeddings(batch, {
-          model: this.MODEL,
-          dimensions: this.DIMENSIONS
-        });
+        const embeddings = await embedder.embedBatch(batch);
 
         // Create results
         batch.forEach((text, index) => {
           results.push({
             id: this.generateHash(text),
             embedding: embeddings[index],
-            model: this.MODEL,
-            tokensUsed: Math.ceil(text.length / 4), // Rough estimate
+            model: embedder.modelId,
+            tokensUsed: tokenizerService.count(text, embedder.model),
             processingTime: 0
           });
         });
@@ -187,7 +208,7 @@ export class EmbeddingService {
         // Retry individual items on batch failure
         for (const text of batch) {
           try {
-            const result = await this.generateEmbedding(text);
+            const result = await this.generateEmbedding(text, undefined, true, embedder);
             results.push(result);
           } catch (err) {
             logger.error(`Failed to generate embedding for text:`, err);
@@ -247,14 +268,23 @@ export class EmbeddingService {
    */
   private async processEmbeddingTask(task: EmbeddingTask): Promise<EmbeddingResult> {
     try {
-      const result = await this.generateEmbedding(task.text, task.metadata);
-      
-      // Save to database based on type
-      if (task.type === 'chunk' && task.id) {
-        await this.updateChunkEmbedding(task.id, result.embedding);
+      // Chunks also go into any index being built so a model switch never misses them
+      const providers = task.type === 'chunk'
+        ? await this.indexService.getWriteProviders()
+        : [await this.indexService.getActiveProvider()];
+
+      const results: EmbeddingResult[] = [];
+      for (const provider of providers) {
+        const result = await this.generateEmbedding(task.text, task.metadata, true, provider);
+        
+        // Save to database based on type
+        if (task.type === 'chunk' && task.id) {
+          await this.storeChunkEmbedding(task.id, result.embedding, provider);
+        }
+        results.push(result);
       }
       
-      return result;
+      return results[0];
     } catch (error) {
       logger.error(`Failed to process embedding task ${task.id}:`, error);
       throw error;
@@ -267,19 +297,34 @@ export class EmbeddingService {
    */
   private async processBatchEmbeddings(tasks: EmbeddingTask[]): Promise<EmbeddingResult[]> {
     const texts = tasks.map(t => t.text);
-    const results = await this.generateBatchEmbeddings(texts);
+    const [active, ...building] = await this.indexService.getWriteProviders();
+    const results = await this.generateBatchEmbeddings(texts, { provider: active });
     
     // Update database for each result
+    await this.storeBatchResults(tasks, results, active);
+
+    // Dual-write into indexes that are still being built
+    for (const provider of building) {
+      const buildingResults = await this.generateBatchEmbeddings(texts, { provider });
+      await this.storeBatchResults(tasks, buildingResults, provider);
+    }
+    
+    return results;
+  }
+
+  private async storeBatchResults(
+    tasks: EmbeddingTask[],
+    results: EmbeddingResult[],
+    provider: EmbeddingProvider
+  ): Promise<void> {
     for (let i = 0; i < tasks.length; i++) {
       const task = tasks[i];
       const result = results[i];
       
       if (task.type === 'chunk' && task.id && result) {
-        await this.updateChunkEmbedding(task.id, result.embedding);
+        await this.storeChunkEmbedding(task.id, result.embedding, provider);
       }
     }
-    
-    return results;
   }
 
   /**
@@ -289,10 +334,11 @@ export class EmbeddingService {
   async generateDocumentEmbeddings(documentId: string): Promise<void> {
     try {
       // Get all chunks for document
+      const provider = await this.indexService.getActiveProvider();
       const chunks = await this.prisma.chunk.findMany({
         where: { 
           documentId,
-          embedding: null 
+          embeddings: { none: { model: provider.modelId } }
         },
         orderBy: { chunkIndex: 'asc' }
       });
@@ -321,19 +367,31 @@ export class EmbeddingService {
   }
 
   /**
-   * Update chunk embedding in database
-   * يحدث تضمين الجزء في قاعدة البيانات
+   * Store chunk embedding tagged with its model and dimensions
+   * يحفظ تضمين الجزء مع اسم النموذج وأبعاده
    */
-  private async updateChunkEmbedding(chunkId: string, embedding: number[]): Promise<void> {
+  private async storeChunkEmbedding(
+    chunkId: string,
+    embedding: number[],
+    provider: EmbeddingProvider
+  ): Promise<void> {
     try {
-      await this.prisma.$executeRaw`
-        UPDATE chunks 
-        SET embedding = ${embedding}::vector,
-            updated_at = NOW()
-        WHERE id = ${chunkId}
-      `;
+      const vectorString = `[${embedding.join(',')}]`;
+      const { modelId, dimensions } = provider;
+
+      // Replace only this model's vector so other models' rows stay intact
+      await this.prisma.$transaction([
+        this.prisma.$executeRaw`
+          DELETE FROM embeddings
+          WHERE chunk_id = ${chunkId} AND model = ${modelId}
+        `,
+        this.prisma.$executeRaw`
+          INSERT INTO embeddings (id, chunk_id, embedding, model, dimensions, created_at)
+          VALUES (uuid_generate_v4(), ${chunkId}, ${vectorString}::vector, ${modelId}, ${dimensions}, NOW())
+        `
+      ]);
       
-      logger.debug(`Updated embedding for chunk ${chunkId}`);
+      logger.debug(`Stored ${modelId} embedding for chunk ${chunkId}`);
     } catch (error) {
       logger.error(`Failed to update chunk embedding:`, error);
       throw error;
@@ -387,9 +445,9 @@ export class EmbeddingService {
    * Get cached embedding
    * يحصل على التضمين المخزن
    */
-  private async getCachedEmbedding(text: string): Promise<number[] | null> {
+  private async getCachedEmbedding(text: string, provider: EmbeddingProvider): Promise<number[] | null> {
     try {
-      const hash = this.generateHash(text);
+      const hash = this.generateHash(`${provider.modelId}:${text}`);
       
       // Check Redis cache first
       const cached = await redis.get(`embedding:${hash}`);
@@ -402,6 +460,7 @@ export class EmbeddingService {
         SELECT embedding 
         FROM cached_embeddings 
         WHERE text_hash = ${hash}
+          AND model = ${provider.modelId}
       `;
 
       if (dbCached.length > 0) {
@@ -432,17 +491,18 @@ export class EmbeddingService {
    * Cache embedding
    * يخزن التضمين
    */
-  private async cacheEmbedding(text: string, embedding: number[]): Promise<void> {
+  private async cacheEmbedding(text: string, embedding: number[], provider: EmbeddingProvider): Promise<void> {
     try {
-      const hash = this.generateHash(text);
+      const hash = this.generateHash(`${provider.modelId}:${text}`);
+      const vectorString = `[${embedding.join(',')}]`;
       
       // Cache in Redis (1 hour)
       await redis.set(`embedding:${hash}`, JSON.stringify(embedding), 'EX', 3600);
       
       // Cache in database for long-term storage
       await this.prisma.$executeRaw`
-        INSERT INTO cached_embeddings (text_hash, text, embedding, model, created_at)
-        VALUES (${hash}, ${text}, ${embedding}::vector, ${this.MODEL}, NOW())
+        INSERT INTO cached_embeddings (text_hash, text, embedding, model, dimensions, created_at)
+        VALUES (${hash}, ${text}, ${vectorString}::vector, ${provider.modelId}, ${provider.dimensions}, NOW())
         ON CONFLICT (text_hash) 
         DO UPDATE SET 
           usage_count = cached_embeddings.usage_count + 1,
@@ -454,23 +514,19 @@ export class EmbeddingService {
   }
 
   /**
-   * Estimate token count
-   * يقدر عدد التوكنز
+   * Count tokens with the provider model's tokenizer
+   * يحسب عدد التوكنز
    */
-  private async estimateTokens(text: string): Promise<number> {
-    // Simple estimation: ~4 chars per token for English, ~2 for Arabic
-    const hasArabic = /[\u0600-\u06FF]/.test(text);
-    const avgCharsPerToken = hasArabic ? 2 : 4;
-    return Math.ceil(text.length / avgCharsPerToken);
+  private async estimateTokens(text: string, provider: EmbeddingProvider): Promise<number> {
+    return tokenizerService.count(text, provider.model);
   }
 
   /**
    * Track embedding costs
    * يتتبع تكاليف التضمين
    */
-  private async trackCost(tokens: number): Promise<void> {
-    const costPer1kTokens = 0.00002; // text-embedding-3-small pricing
-    const cost = (tokens / 1000) * costPer1kTokens;
+  private async trackCost(tokens: number, provider: EmbeddingProvider): Promise<void> {
+    const cost = this.estimateCost(tokens, provider);
     
     const today = new Date().toISOString().split('T')[0];
     const current = this.costTracker.get(today) || 0;
@@ -484,6 +540,16 @@ export class EmbeddingService {
     logger.debug(`Embedding cost: ${tokens} tokens = ${cost.toFixed(6)}`);
   }
 
+  /**
+   * Estimate the cost of embedding a number of tokens
+   * يقدر تكلفة التضمين
+   */
+  private estimateCost(tokens: number, provider: EmbeddingProvider): number {
+    // Local and hashing providers run on our own hardware
+    const costPer1kTokens = provider.name === 'openai' ? 0.00002 : 0; // text-embedding-3-small pricing
+    return (tokens / 1000) * costPer1kTokens;
+  }
+
   /**
    * Get embedding statistics
    * يحصل على إحصائيات التضمين
@@ -509,19 +575,23 @@ export class EmbeddingService {
       `;
       
       // Get processing stats
+      const { modelId } = await this.indexService.getActiveProvider();
       const processingStats = await this.prisma.$queryRaw`
         SELECT 
           COUNT(*) as total_chunks,
-          COUNT(embedding) as chunks_with_embeddings,
-          COUNT(*) - COUNT(embedding) as chunks_without_embeddings
-        FROM chunks
+          COUNT(e.id) as chunks_with_embeddings,
+          COUNT(*) - COUNT(e.id) as chunks_without_embeddings
+        FROM chunks c
+        LEFT JOIN embeddings e ON e.chunk_id = c.id AND e.model = ${modelId}
       `;
       
       return {
         queue: queueStats,
         costs: costStats,
         cache: cacheStats[0],
-        processing: processingStats[0]
+        processing: processingStats[0],
+        model: await this.getModelInfo(),
+        indexes: await this.indexService.listIndexes()
       };
     } catch (error) {
       logger.error('Failed to get embedding statistics:', error);
@@ -569,7 +639,7 @@ export class EmbeddingService {
    * Validate embeddings
    * يتحقق من صحة التضمينات
    */
-  async validateEmbeddings(documentId?: string): Promise<{
+  async validateEmbeddings(documentId?: string, provider?: EmbeddingProvider): Promise<{
     valid: number;
     invalid: number;
     missing: number;
@@ -581,28 +651,22 @@ export class EmbeddingService {
     let missing = 0;
 
     try {
-      const whereClause = documentId ? { documentId } : {};
-      const chunks = await this.prisma.chunk.findMany({
-        where: whereClause,
-        select: {
-          id: true,
-          embedding: true
-        }
-      });
+      const { modelId, dimensions } = provider || await this.indexService.getActiveProvider();
+      const rows = await this.prisma.$queryRaw<any[]>`
+        SELECT c.id, e.dimensions, vector_dims(e.embedding) as actual_dimensions
+        FROM chunks c
+        LEFT JOIN embeddings e ON e.chunk_id = c.id AND e.model = ${modelId}
+        WHERE (${documentId ?? null}::text IS NULL OR c.document_id = ${documentId ?? null})
+      `;
 
-      for (const chunk of chunks) {
-        if (!chunk.embedding) {
+      for (const row of rows) {
+        if (row.actual_dimensions === null) {
           missing++;
-        } else if (Array.isArray(chunk.embedding)) {
-          if (chunk.embedding.length === this.DIMENSIONS) {
-            valid++;
-          } else {
-            invalid++;
-            errors.push(`Chunk ${chunk.id}: Wrong dimension ${chunk.embedding.length}`);
-          }
+        } else if (row.actual_dimensions === dimensions && row.dimensions === dimensions) {
+          valid++;
         } else {
           invalid++;
-          errors.push(`Chunk ${chunk.id}: Invalid embedding type`);
+          errors.push(`Chunk ${row.id}: Wrong dimension ${row.actual_dimensions} for ${modelId}`);
         }
       }
 
@@ -619,8 +683,9 @@ export class EmbeddingService {
    */
   async regenerateMissingEmbeddings(batchSize: number = 10): Promise<number> {
     try {
+      const { modelId } = await this.indexService.getActiveProvider();
       const chunks = await this.prisma.chunk.findMany({
-        where: { embedding: null },
+        where: { embeddings: { none: { model: modelId } } },
         take: batchSize
       });
 
@@ -643,4 +708,62 @@ export class EmbeddingService {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Embed one batch of chunks that have no vector for the given provider yet.
+   * Runs inline (not queued) so a migration job can report progress per batch.
+   * Chunks that fail are appended to skipChunkIds so the next batch moves on.
+   * يضمّن دفعة من الأجزاء المفقودة لنموذج محدد
+   */
+  async embedMissingChunks(
+    provider: EmbeddingProvider,
+    batchSize: number = this.BATCH_SIZE,
+    skipChunkIds: string[] = []
+  ): Promise<MigrationBatchResult> {
+    const chunks = await this.prisma.chunk.findMany({
+      where: {
+        embeddings: { none: { model: provider.modelId } },
+        id: { notIn: skipChunkIds }
+      },
+      orderBy: { createdAt: 'asc' },
+      take: batchSize
+    });
+
+    const result: MigrationBatchResult = { processed: 0, failed: 0, tokensUsed: 0, cost: 0 };
+    if (chunks.length === 0) {
+      return result;
+    }
+
+    // Raw content, as at ingest, so vectors of both models embed the same text
+    const texts = chunks.map(chunk => chunk.content);
+    let embeddings: (number[] | null)[];
+
+    try {
+      embeddings = await provider.embedBatch(texts);
+    } catch (error) {
+      logger.warn(`Batch embedding with ${provider.modelId} failed, retrying chunks individually:`, error);
+      embeddings = [];
+      for (const text of texts) {
+        embeddings.push(await provider.embed(text).catch(() => null));
+      }
+    }
+
+    for (let i = 0; i < chunks.length; i++) {
+      const embedding = embeddings[i];
+      if (!embedding) {
+        result.failed++;
+        skipChunkIds.push(chunks[i].id);
+        continue;
+      }
+
+      await this.storeChunkEmbedding(chunks[i].id, embedding, provider);
+      const tokens = await this.estimateTokens(texts[i], provider);
+      result.processed++;
+      result.tokensUsed += tokens;
+      result.cost += this.estimateCost(tokens, provider);
+    }
+
+    await this.trackCost(result.tokensUsed, provider);
+    return result;
+  }
+}
@@ -0,0 +1,275 @@
+// backend/src/services/ai/grounding.service.ts
+
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import { EmbeddingIndexService } from './embedding-index.service';
+import { NumberedSource, PromptLanguage } from './prompt.service';
+import { Citation } from './citation.service';
+import { logger } from '../../utils/logger';
+
+export type GroundingVerdict = 'accept' | 'soften' | 'refuse';
+
+export interface SentenceSupport {
+  text: string;
+  lexicalScore: number;
+  semanticScore: number;
+  support: number;
+  /** Marker of the source that supports the sentence best */
+  bestMarker: number | null;
+  cited: boolean;
+}
+
+export interface GroundingReport {
+  confidence: number;
+  verdict: GroundingVerdict;
+  supportedRatio: number;
+  citationCoverage: number;
+  sentences: SentenceSupport[];
+}
+
+interface VerifiedAnswer {
+  answer: string;
+  report: GroundingReport;
+}
+
+// A terminator ends a sentence only before whitespace or the end of the text, so
+// decimals ("2.5 bar") stay whole; a lowercase word after it marks an
+// abbreviation ("e.g. nitrile") rather than a new sentence
+const SENTENCE_PATTERN = /[^\n]+?(?:[.!?؟]+(?=\s*$|\s+(?![a-z]))|\n|$)/g;
+const CITATION_MARKER = /\[[0-9٠-٩\s,،]+\]/g;
+
+// Function words that would otherwise inflate lexical overlap
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'with', 'this', 'that', 'from', 'have', 'has', 'you', 'your', 'not',
+  'can', 'will', 'should', 'must', 'into', 'then', 'than', 'when', 'which', 'also', 'all', 'any',
+  'der', 'die', 'das', 'und', 'ist', 'mit', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'sie',
+  'nicht', 'auf', 'für', 'von', 'werden', 'wird', 'sind', 'oder', 'auch', 'bei', 'nach', 'wenn',
+  'في', 'من', 'على', 'إلى', 'عن', 'مع', 'هذا', 'هذه', 'ذلك', 'التي', 'الذي', 'أن', 'إن', 'كان',
+  'لا', 'ما', 'هو', 'هي', 'يجب', 'ثم', 'أو', 'كل', 'بعد', 'قبل'
+]);
+
+const REFUSAL_MESSAGES: Record<PromptLanguage, string> = {
+  en: 'I could not find enough support for an answer in the available documents. Please check the relevant SOP or ask a supervisor.',
+  ar: 'لم أجد في المستندات المتاحة ما يكفي لدعم إجابة موثوقة. يرجى مراجعة إجراء التشغيل القياسي المعني أو سؤال المشرف.',
+  de: 'In den verfügbaren Dokumenten wurde keine ausreichende Grundlage für eine Antwort gefunden. Bitte prüfen Sie die zugehörige SOP oder fragen Sie eine Vorgesetzte oder einen Vorgesetzten.'
+};
+
+const SOFTENING_PREFIXES: Record<PromptLanguage, string> = {
+  en: 'Note: parts of this answer are only partly supported by the documents. Verify before acting.',
+  ar: 'تنبيه: بعض أجزاء هذه الإجابة غير مدعومة بالكامل من المستندات. يرجى التحقق قبل التنفيذ.',
+  de: 'Hinweis: Teile dieser Antwort werden von den Dokumenten nur teilweise gestützt. Bitte vor dem Handeln prüfen.'
+};
+
+/**
+ * Checks each answer sentence against the retrieved chunks and turns the
+ * evidence into a calibrated confidence score
+ * يتحقق من استناد الإجابة إلى المقاطع المسترجعة ويحسب درجة الثقة
+ */
+export class GroundingService {
+  private prisma: TenantPrismaClient;
+  private embeddingIndexService: EmbeddingIndexService;
+  private readonly LEXICAL_WEIGHT = parseFloat(process.env.GROUNDING_LEXICAL_WEIGHT || '0.4');
+  private readonly SEMANTIC_WEIGHT = parseFloat(process.env.GROUNDING_SEMANTIC_WEIGHT || '0.6');
+  private readonly SUPPORT_THRESHOLD = parseFloat(process.env.GROUNDING_SUPPORT_THRESHOLD || '0.55');
+  private readonly REFUSE_THRESHOLD = parseFloat(process.env.ANSWER_REFUSE_CONFIDENCE || '0.35');
+  private readonly SOFTEN_THRESHOLD = parseFloat(process.env.ANSWER_SOFTEN_CONFIDENCE || '0.6');
+  // Logistic calibration: confidence = 1 / (1 + e^(-slope * (raw - midpoint)))
+  private readonly CALIBRATION_SLOPE = parseFloat(process.env.GROUNDING_CALIBRATION_SLOPE || '8');
+  private readonly CALIBRATION_MIDPOINT = parseFloat(process.env.GROUNDING_CALIBRATION_MIDPOINT || '0.5');
+  private readonly MIN_SENTENCE_TOKENS = 3;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+    this.embeddingIndexService = new EmbeddingIndexService();
+  }
+
+  /**
+   * Score an answer against its sources
+   * يقيّم الإجابة مقابل مصادرها
+   */
+  async verify(
+    answer: string,
+    sources: NumberedSource[],
+    citations: Citation[] = []
+  ): Promise<GroundingReport> {
+    const sentences = this.splitSentences(answer);
+
+    if (sentences.length === 0 || sources.length === 0) {
+      return this.buildReport([], 0);
+    }
+
+    const sourceTokens = sources.map(source => this.tokenize(source.content));
+    const semanticScores = await this.scoreSemantic(sentences.map(s => s.text), sources);
+    const citedMarkers = new Set(citations.map(c => c.marker));
+
+    const scored: SentenceSupport[] = sentences.map((sentence, i) => {
+      const tokens = this.tokenize(sentence.text);
+      let best = { marker: null as number | null, lexical: 0, semantic: 0, support: 0 };
+
+      sources.forEach((source, j) => {
+        const lexical = this.overlap(tokens, sourceTokens[j]);
+        const semantic = semanticScores[i]?.[j] ?? 0;
+        const support = this.LEXICAL_WEIGHT * lexical + this.SEMANTIC_WEIGHT * semantic;
+        if (support > best.support) {
+          best = { marker: source.marker, lexical, semantic, support };
+        }
+      });
+
+      return {
+        text: sentence.text,
+        lexicalScore: this.round(best.lexical),
+        semanticScore: this.round(best.semantic),
+        support: this.round(best.support),
+        bestMarker: best.marker,
+        cited: sentence.markers.some(marker => citedMarkers.has(marker))
+      };
+    });
+
+    const citationCoverage = scored.filter(s => s.cited).length / scored.length;
+    return this.buildReport(scored, citationCoverage);
+  }
+
+  /**
+   * Verify an answer and refuse or soften it when confidence is too low
+   * يتحقق من الإجابة ويرفضها أو يخففها عند انخفاض الثقة
+   */
+  async verifyAnswer(
+    answer: string,
+    sources: NumberedSource[],
+    citations: Citation[],
+    language: PromptLanguage
+  ): Promise<VerifiedAnswer> {
+    const report = await this.verify(answer, sources, citations);
+
+    if (report.verdict === 'refuse') {
+      logger.warn(`Refused answer with confidence ${report.confidence}`);
+      return { answer: REFUSAL_MESSAGES[language], report };
+    }
+
+    if (report.verdict === 'soften') {
+      return { answer: `${SOFTENING_PREFIXES[language]}\n\n${answer}`, report };
+    }
+
+    return { answer, report };
+  }
+
+  private buildReport(sentences: SentenceSupport[], citationCoverage: number): GroundingReport {
+    if (sentences.length === 0) {
+      return {
+        confidence: 0,
+        verdict: 'refuse',
+        supportedRatio: 0,
+        citationCoverage: 0,
+        sentences
+      };
+    }
+
+    const meanSupport = sentences.reduce((sum, s) => sum + s.support, 0) / sentences.length;
+    const supportedRatio = sentences.filter(s => s.support >= this.SUPPORT_THRESHOLD).length / sentences.length;
+
+    // Unsupported sentences drag the score down harder than a low average alone
+    const raw = 0.5 * meanSupport + 0.35 * supportedRatio + 0.15 * citationCoverage;
+    const confidence = this.round(
+      1 / (1 + Math.exp(-this.CALIBRATION_SLOPE * (raw - this.CALIBRATION_MIDPOINT)))
+    );
+
+    let verdict: GroundingVerdict = 'accept';
+    if (confidence < this.REFUSE_THRESHOLD) {
+      verdict = 'refuse';
+    } else if (confidence < this.SOFTEN_THRESHOLD) {
+      verdict = 'soften';
+    }
+
+    return {
+      confidence,
+      verdict,
+      supportedRatio: this.round(supportedRatio),
+      citationCoverage: this.round(citationCoverage),
+      sentences
+    };
+  }
+
+  /**
+   * Cosine similarity of each sentence to each source chunk, computed against
+   * the stored chunk vectors so sources are not re-embedded
+   */
+  private async scoreSemantic(sentences: string[], sources: NumberedSource[]): Promise<number[][]> {
+    try {
+      const provider = await this.embeddingIndexService.getActiveProvider();
+      const vectors = await provider.embedBatch(sentences);
+      const chunkIds = sources.map(source => source.chunkId);
+
+      const scores: number[][] = [];
+      for (const vector of vectors) {
+        const rows = await this.prisma.$queryRaw<any[]>`
+          SELECT e.chunk_id, 1 - (e.embedding <=> ${`[${vector.join(',')}]`}::vector) as similarity
+          FROM embeddings e
+          WHERE e.chunk_id::text = ANY(${chunkIds})
+            AND e.model = ${provider.modelId}
+        `;
+
+        const byChunk = new Map<string, number>(rows.map(row => [row.chunk_id, parseFloat(row.similarity)]));
+        scores.push(chunkIds.map(id => Math.max(0, byChunk.get(id) ?? 0)));
+      }
+
+      return scores;
+    } catch (error) {
+      // Lexical overlap alone still gives a usable, if harsher, score
+      logger.warn('Semantic grounding check failed, using lexical overlap only:', error);
+      return [];
+    }
+  }
+
+  private splitSentences(answer: string): Array<{ text: string; markers: number[] }> {
+    const matches = answer.match(SENTENCE_PATTERN) || [];
+    const sentences = matches
+      .map(raw => this.parseSentence(raw))
+      .filter(sentence => this.tokenize(sentence.text).size >= this.MIN_SENTENCE_TOKENS);
+
+    // A short answer ("Use 2.5 bar [1].") may have no sentence long enough on
+    // its own; it is scored as a whole rather than refused
+    if (sentences.length === 0 && answer.replace(CITATION_MARKER, '').trim()) {
+      return [this.parseSentence(answer)];
+    }
+    return sentences;
+  }
+
+  private parseSentence(raw: string): { text: string; markers: number[] } {
+    const markers = (raw.match(CITATION_MARKER) || [])
+      .flatMap(marker => marker.replace(/[\[\]]/g, '').split(/[,،]/))
+      .map(part => parseInt(part.trim().replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660)), 10))
+      .filter(marker => !isNaN(marker));
+
+    return { text: raw.replace(CITATION_MARKER, '').trim(), markers };
+  }
+
+  private tokenize(text: string): Set<string> {
+    const tokens = text
+      .toLowerCase()
+      .normalize('NFKC')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(token => token.length >= 3 && !STOPWORDS.has(token));
+
+    return new Set(tokens);
+  }
+
+  /**
+   * Share of the sentence's content words that appear in the source
+   */
+  private overlap(sentence: Set<string>, source: Set<string>): number {
+    if (sentence.size === 0) {
+      return 0;
+    }
+
+    let shared = 0;
+    for (const token of sentence) {
+      if (source.has(token)) {
+        shared++;
+      }
+    }
+    return shared / sentence.size;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
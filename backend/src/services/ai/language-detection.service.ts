@@ -0,0 +1,161 @@
+// backend/src/services/ai/language-detection.service.ts
+
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../../utils/logger';
+
+export interface LanguageDetection {
+  language: string;
+  confidence: number;
+  /** True when confidence is above LANGUAGE_MIN_CONFIDENCE */
+  reliable: boolean;
+  scores: Record<string, number>;
+}
+
+interface LanguageProfile {
+  freq: Record<string, number>;
+  n_words: number[];
+}
+
+const MAX_NGRAM = 3;
+const MAX_TEXT_LENGTH = 2000;
+
+/**
+ * Offline character n-gram language identifier (naive Bayes over 1-3 grams).
+ * Profiles are the Wikipedia n-gram profiles shipped with the langdetect
+ * package; add a language by listing its code in DETECTION_LANGUAGES, or point
+ * LANGUAGE_PROFILE_PATH at a directory with additional <code>.json profiles.
+ * يحدد لغة النص دون اتصال باستخدام نماذج الحروف
+ */
+export class LanguageDetectionService {
+  private readonly LANGUAGES = (process.env.DETECTION_LANGUAGES || 'en,ar,de').split(',').map(l => l.trim());
+  private readonly MIN_CONFIDENCE = parseFloat(process.env.LANGUAGE_MIN_CONFIDENCE || '0.85');
+  private readonly MIN_LETTERS = 3;
+  private readonly PROFILE_PATH = process.env.LANGUAGE_PROFILE_PATH;
+  private profiles: Map<string, LanguageProfile> | null = null;
+
+  /**
+   * Detect the language of a text; null when it has too few letters to tell
+   * يكتشف لغة النص
+   */
+  detect(text: string): LanguageDetection | null {
+    const ngrams = this.extractNGrams(text.substring(0, MAX_TEXT_LENGTH));
+    if (ngrams.length === 0) {
+      return null;
+    }
+
+    const profiles = this.getProfiles();
+    if (profiles.size === 0) {
+      return null;
+    }
+
+    const logLikelihood: Record<string, number> = {};
+    for (const code of profiles.keys()) {
+      logLikelihood[code] = 0;
+    }
+
+    for (const ngram of ngrams) {
+      // N-grams no profile knows (digits, symbols, rare scripts) carry no evidence
+      if (![...profiles.values()].some(profile => profile.freq[ngram])) {
+        continue;
+      }
+
+      for (const [code, profile] of profiles) {
+        const total = profile.n_words[ngram.length - 1] || 1;
+        logLikelihood[code] += Math.log(((profile.freq[ngram] || 0) + 1) / (total + 1));
+      }
+    }
+
+    const scores = this.softmax(logLikelihood, ngrams.length);
+    const [language, confidence] = Object.entries(scores).sort((a, b) => b[1] - a[1])[0];
+
+    return {
+      language,
+      confidence: Math.round(confidence * 1000) / 1000,
+      reliable: confidence >= this.MIN_CONFIDENCE,
+      scores
+    };
+  }
+
+  /**
+   * Detected language when reliable, otherwise the fallback
+   * يعيد اللغة المكتشفة أو اللغة الافتراضية
+   */
+  detectOr<T extends string>(text: string, fallback: T, allowed?: readonly T[]): T {
+    const detection = this.detect(text);
+    if (!detection?.reliable) {
+      return fallback;
+    }
+    if (allowed && !allowed.includes(detection.language as T)) {
+      return fallback;
+    }
+    return detection.language as T;
+  }
+
+  /**
+   * Letter n-grams of each word padded with spaces, as in the profiles
+   */
+  private extractNGrams(text: string): string[] {
+    const words = text
+      .normalize('NFC')
+      .replace(/[^\p{L}\s]+/gu, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      // Headings in capitals would otherwise miss the mostly lower-case profiles
+      .map(word => (word.length > 1 && word === word.toUpperCase() ? word.toLowerCase() : word));
+
+    if (words.join('').length < this.MIN_LETTERS) {
+      return [];
+    }
+
+    const ngrams: string[] = [];
+    for (const word of words) {
+      const padded = ` ${word} `;
+      for (let n = 1; n <= MAX_NGRAM; n++) {
+        for (let i = 0; i + n <= padded.length; i++) {
+          const ngram = padded.substring(i, i + n);
+          if (ngram.trim()) {
+            ngrams.push(ngram);
+          }
+        }
+      }
+    }
+    return ngrams;
+  }
+
+  /**
+   * Turn summed log likelihoods into probabilities. Scaling by the square root
+   * of the n-gram count keeps long chunks from being overconfident.
+   */
+  private softmax(logLikelihood: Record<string, number>, ngramCount: number): Record<string, number> {
+    const temperature = Math.max(1, Math.sqrt(ngramCount));
+    const max = Math.max(...Object.values(logLikelihood));
+    const exp = Object.entries(logLikelihood).map(([code, value]) =>
+      [code, Math.exp((value - max) / temperature)] as const
+    );
+    const sum = exp.reduce((total, [, value]) => total + value, 0);
+
+    return Object.fromEntries(exp.map(([code, value]) => [code, Math.round((value / sum) * 1000) / 1000]));
+  }
+
+  private getProfiles(): Map<string, LanguageProfile> {
+    if (this.profiles) {
+      return this.profiles;
+    }
+
+    this.profiles = new Map();
+    for (const code of this.LANGUAGES) {
+      try {
+        const file = this.PROFILE_PATH && fs.existsSync(path.join(this.PROFILE_PATH, `${code}.json`))
+          ? path.join(this.PROFILE_PATH, `${code}.json`)
+          : require.resolve(`langdetect/profiles/${code}.json`);
+        this.profiles.set(code, JSON.parse(fs.readFileSync(file, 'utf-8')));
+      } catch (error) {
+        logger.warn(`No language profile for "${code}", skipping it:`, error);
+      }
+    }
+    return this.profiles;
+  }
+}
+
+export const languageDetectionService = new LanguageDetectionService();
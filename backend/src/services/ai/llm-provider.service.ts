@@ -0,0 +1,86 @@
+// backend/src/services/ai/llm-provider.service.ts
+
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import { createLLMProvider, LLMProvider, LLMProviderConfig } from './providers';
+
+interface CachedProvider {
+  provider: LLMProvider;
+  expiresAt: number;
+}
+
+/**
+ * Resolves the chat-completion provider configured for a warehouse
+ * يحدد مزود نموذج المحادثة الخاص بكل مستودع
+ */
+export class LLMProviderService {
+  private prisma: TenantPrismaClient;
+  private cache: Map<string, CachedProvider> = new Map();
+  private defaultProvider?: LLMProvider;
+  private readonly CACHE_TTL_MS = parseInt(process.env.LLM_PROVIDER_CACHE_TTL_MS || '60000');
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Provider for the given warehouse, falling back to LLM_PROVIDER
+   * يعيد مزود المستودع أو المزود الافتراضي
+   */
+  async getProvider(warehouseId?: string): Promise<LLMProvider> {
+    if (!warehouseId) {
+      return this.getDefaultProvider();
+    }
+
+    const cached = this.cache.get(warehouseId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.provider;
+    }
+
+    const config = await this.getWarehouseConfig(warehouseId);
+    const provider = config ? createLLMProvider(config) : this.getDefaultProvider();
+
+    this.cache.set(warehouseId, {
+      provider,
+      expiresAt: Date.now() + this.CACHE_TTL_MS
+    });
+
+    return provider;
+  }
+
+  /**
+   * Drop the cached provider after a warehouse's settings change
+   * يحذف المزود المخزن مؤقتاً عند تغيير الإعدادات
+   */
+  invalidate(warehouseId?: string): void {
+    if (warehouseId) {
+      this.cache.delete(warehouseId);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  private getDefaultProvider(): LLMProvider {
+    if (!this.defaultProvider) {
+      this.defaultProvider = createLLMProvider();
+    }
+    return this.defaultProvider;
+  }
+
+  private async getWarehouseConfig(warehouseId: string): Promise<LLMProviderConfig | null> {
+    try {
+      const warehouse = await this.prisma.warehouse.findUnique({
+        where: { id: warehouseId },
+        select: { metadata: true }
+      });
+
+      const llm = (warehouse?.metadata as any)?.llm;
+      return llm?.provider ? llm as LLMProviderConfig : null;
+    } catch (error) {
+      logger.error('Failed to load warehouse LLM configuration:', error);
+      return null;
+    }
+  }
+}
+
+export const llmProviderService = new LLMProviderService();
@@ -7,13 +7,21 @@ import { AppError } from '../../middleware/error';
 import { redis } from '../../config/redis';
 import pRetry from 'p-retry';
 
+export interface OpenAIServiceConfig {
+  apiKey?: string;
+  baseURL?: string;
+  chatModel?: string;
+  embeddingModel?: string;
+  trackCosts?: boolean;
+}
+
 interface EmbeddingOptions {
   model?: string;
   dimensions?: number;
   user?: string;
 }
 
-interface CompletionOptions {
+export interface CompletionOptions {
   model?: string;
   temperature?: number;
   maxTokens?: number;
@@ -24,7 +32,7 @@ interface CompletionOptions {
   systemPrompt?: string;
 }
 
-interface TokenUsage {
+export interface TokenUsage {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
@@ -36,24 +44,31 @@ export class OpenAIService {
   private embeddingModel: string;
   private chatModel: string;
   private maxRetries: number = 3;
+  private trackCosts: boolean;
   private costTracker: Map<string, number> = new Map();
 
-  constructor() {
-    this.validateConfiguration();
+  /**
+   * Pass a baseURL to talk to any OpenAI-compatible server (Ollama, vLLM, llama.cpp)
+   */
+  constructor(config: OpenAIServiceConfig = {}) {
+    const apiKey = config.apiKey ?? process.env.OPENAI_API_KEY;
+    this.validateConfiguration(apiKey);
     
     this.client = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      organization: process.env.OPENAI_ORG_ID,
+      apiKey,
+      baseURL: config.baseURL,
+      organization: config.baseURL ? undefined : process.env.OPENAI_ORG_ID,
       maxRetries: this.maxRetries,
       timeout: 30000, // 30 seconds
     });
 
-    this.embeddingModel = process.env.OPENAI_MODEL_EMBEDDING || 'text-embedding-3-small';
-    this.chatModel = process.env.OPENAI_MODEL_CHAT || 'gpt-4-turbo-preview';
+    this.embeddingModel = config.embeddingModel || process.env.OPENAI_MODEL_EMBEDDING || 'text-embedding-3-small';
+    this.chatModel = config.chatModel || process.env.OPENAI_MODEL_CHAT || 'gpt-4-turbo-preview';
+    this.trackCosts = config.trackCosts ?? !config.baseURL;
   }
 
-  private validateConfiguration(): void {
-    if (!process.env.OPENAI_API_KEY) {
+  private validateConfiguration(apiKey?: string): void {
+    if (!apiKey) {
       throw new Error('OPENAI_API_KEY is not configured');
     }
   }
@@ -67,8 +82,9 @@ export class OpenAIService {
     options: EmbeddingOptions = {}
   ): Promise<number[]> {
     try {
-      // Check cache first
-      const cacheKey = `embedding:${this.hashText(text)}`;
+      // Check cache first (keyed by model so vectors from different models never mix)
+      const model = options.model || this.embeddingModel;
+      const cacheKey = `embedding:${model}:${options.dimensions || 'default'}:${this.hashText(text)}`;
       const cached = await redis.get(cacheKey);
       if (cached) {
         logger.debug('Embedding retrieved from cache');
@@ -79,7 +95,7 @@ export class OpenAIService {
       const response = await pRetry(
         async () => {
           return await this.client.embeddings.create({
-            model: options.model || this.embeddingModel,
+            model,
             input: text,
             dimensions: options.dimensions,
             user: options.user,
@@ -281,6 +297,11 @@ export class OpenAIService {
    * يتتبع الاستخدام والتكاليف
    */
   private async trackUsage(type: 'embedding' | 'completion', tokens: number): Promise<void> {
+    if (!this.trackCosts) {
+      logger.debug(`Self-hosted usage: ${type} - ${tokens} tokens`);
+      return;
+    }
+
     const costs = {
       embedding: 0.00002, // per 1K tokens for text-embedding-3-small
       completion: {
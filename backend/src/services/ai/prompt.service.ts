@@ -0,0 +1,190 @@
+// backend/src/services/ai/prompt.service.ts
+
+import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { SearchResult } from '../search/semantic-search.service';
+
+export type PromptLanguage = 'ar' | 'en' | 'de';
+export type PromptType = 'qa' | 'summary' | 'explanation' | 'troubleshooting' | 'safety';
+
+export interface PromptContext {
+  language: PromptLanguage;
+  type: PromptType;
+  userRole?: string;
+  documentContext?: string;
+}
+
+/**
+ * A retrieved chunk as presented to the model, addressed by its marker number
+ */
+export interface NumberedSource {
+  marker: number;
+  chunkId: string;
+  documentId: string;
+  title: string;
+  page: number | null;
+  section: string | null;
+  content: string;
+}
+
+const LANGUAGE_NAMES: Record<PromptLanguage, string> = {
+  en: 'English',
+  ar: 'Arabic',
+  de: 'German'
+};
+
+export const PROMPT_LANGUAGES = Object.keys(LANGUAGE_NAMES) as PromptLanguage[];
+
+const TYPE_INSTRUCTIONS: Record<PromptType, string> = {
+  qa: 'Answer the question directly and concisely.',
+  summary: 'Summarize the relevant information from the sources.',
+  explanation: 'Explain the topic step by step so a new worker can follow it.',
+  troubleshooting: 'Give numbered troubleshooting steps, starting with the most likely cause.',
+  safety: 'Put safety warnings and required protective equipment first, then the procedure.'
+};
+
+export class PromptService {
+  private readonly MAX_SOURCE_CHARS = parseInt(process.env.PROMPT_MAX_SOURCE_CHARS || '2000');
+
+  /**
+   * Number retrieved chunks so the model can cite them as [n]
+   * يرقّم المقاطع المسترجعة لاستخدامها كمراجع
+   */
+  numberSources(searchResults: SearchResult[]): NumberedSource[] {
+    return searchResults.map((result, index) => ({
+      marker: index + 1,
+      chunkId: result.id,
+      documentId: result.documentId,
+      title: result.documentTitle || 'Untitled document',
+      page: result.pageNumber ?? null,
+      section: result.headingPath?.length ? result.headingPath[result.headingPath.length - 1] : null,
+      content: result.content
+    }));
+  }
+
+  /**
+   * System prompt requiring inline citations
+   * يبني تعليمات النظام مع اشتراط ذكر المصادر
+   */
+  buildSystemPrompt(context: PromptContext): string {
+    const lines = [
+      'You are an AI assistant for a warehouse management system.',
+      'You help warehouse workers find accurate information in SOPs, safety rules and equipment manuals.',
+      TYPE_INSTRUCTIONS[context.type],
+      `Respond in ${LANGUAGE_NAMES[context.language]}.`,
+      'Use only the numbered sources provided by the user.',
+      'Sources may be written in another language; translate what you use from them.',
+      'After every sentence that relies on a source, cite it with its number in square brackets, e.g. [1] or [2][3].',
+      'Always write citation numbers with Western digits, even when answering in Arabic.',
+      'If the sources do not contain the answer, say so plainly and do not cite anything.'
+    ];
+
+    if (context.userRole) {
+      lines.push(`The user is a ${context.userRole}.`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Build the messages for an answer, with retrieved chunks numbered [1]..[n].
+   * Earlier conversation turns go before the question so follow-ups make sense.
+   * يبني رسائل المحادثة مع ترقيم المصادر
+   */
+  buildMessages(
+    query: string,
+    context: PromptContext,
+    searchResults: SearchResult[],
+    history: ChatCompletionMessageParam[] = []
+  ): ChatCompletionMessageParam[] {
+    const sources = this.numberSources(searchResults);
+    const parts: string[] = [];
+
+    if (sources.length > 0) {
+      parts.push('Sources:');
+      for (const source of sources) {
+        parts.push(this.formatSource(source));
+      }
+    }
+
+    if (context.documentContext) {
+      parts.push(`Additional context (not citable):\n${context.documentContext}`);
+    }
+
+    parts.push(`Question: ${query}`);
+
+    return [...history, { role: 'user', content: parts.join('\n\n') }];
+  }
+
+  /**
+   * Ask the model to rewrite a follow-up question as a standalone search query
+   * يبني طلب إعادة صياغة السؤال التابع
+   */
+  buildQueryRewritePrompt(
+    history: ChatCompletionMessageParam[],
+    question: string,
+    language: PromptLanguage
+  ): ChatCompletionMessageParam[] {
+    const transcript = history
+      .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+      .join('\n');
+
+    return [{
+      role: 'user',
+      content: [
+        `Conversation so far:\n${transcript}`,
+        `Follow-up question: ${question}`,
+        'Rewrite the follow-up question as a single standalone search query that can be understood without the conversation.',
+        `Keep it in ${LANGUAGE_NAMES[language]}, keep equipment names, codes and error numbers exactly, and reply with the query only.`
+      ].join('\n\n')
+    }];
+  }
+
+  /**
+   * Ask for the search query in other languages as a JSON object keyed by language code
+   * يبني طلب ترجمة الاستعلام إلى لغات أخرى
+   */
+  buildQueryTranslationPrompt(
+    query: string,
+    languages: PromptLanguage[]
+  ): ChatCompletionMessageParam[] {
+    return [{
+      role: 'user',
+      content: [
+        `Search query: ${query}`,
+        `Translate the query into ${languages.map(language => LANGUAGE_NAMES[language]).join(', ')}, using the terms a warehouse SOP or equipment manual would use.`,
+        'Keep equipment names, codes and error numbers exactly.',
+        `Reply with a JSON object whose keys are the language codes ${languages.map(language => `"${language}"`).join(', ')} only.`
+      ].join('\n\n')
+    }];
+  }
+
+  /**
+   * Ask for follow-up questions as a JSON array
+   * يبني طلب الأسئلة ذات الصلة
+   */
+  buildRelatedQuestionsPrompt(
+    query: string,
+    answer: string,
+    language: PromptLanguage
+  ): ChatCompletionMessageParam[] {
+    return [{
+      role: 'user',
+      content: [
+        `Question: ${query}`,
+        `Answer: ${answer}`,
+        `Suggest 3 short follow-up questions a warehouse worker might ask next, in ${LANGUAGE_NAMES[language]}.`,
+        'Reply with a JSON array of strings only.'
+      ].join('\n\n')
+    }];
+  }
+
+  private formatSource(source: NumberedSource): string {
+    const page = source.page !== null ? `, page ${source.page}` : '';
+    const section = source.section ? `, section "${source.section}"` : '';
+    const content = source.content.length > this.MAX_SOURCE_CHARS
+      ? `${source.content.substring(0, this.MAX_SOURCE_CHARS)}...`
+      : source.content;
+
+    return `[${source.marker}] ${source.title}${page}${section}\n${content}`;
+  }
+}
@@ -0,0 +1,28 @@
+// backend/src/services/ai/providers/embedding.provider.ts
+
+/**
+ * Contract implemented by every embedding backend (OpenAI, local server, hashing)
+ * واجهة موحدة لمزودي التضمينات
+ */
+export interface EmbeddingProvider {
+  /** Provider key, e.g. "openai", "local", "hashing" */
+  readonly name: string;
+  /** Model name as understood by the provider */
+  readonly model: string;
+  /** Vector length produced by this provider/model pair */
+  readonly dimensions: number;
+  /** Identifier stored in Embedding.model, e.g. "openai:text-embedding-3-small" */
+  readonly modelId: string;
+
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = 'openai' | 'local' | 'hashing';
+
+/**
+ * Build the identifier persisted alongside each vector
+ */
+export function formatModelId(provider: string, model: string): string {
+  return `${provider}:${model}`;
+}
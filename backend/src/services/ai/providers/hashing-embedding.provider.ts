@@ -0,0 +1,64 @@
+// backend/src/services/ai/providers/hashing-embedding.provider.ts
+
+import { EmbeddingProvider, formatModelId } from './embedding.provider';
+
+/**
+ * Deterministic feature-hashing embedder.
+ * Needs no network or API key, so it is used in CI and tests; texts sharing
+ * words or character trigrams land close to each other in vector space.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+  readonly model: string;
+  readonly dimensions: number;
+  readonly modelId: string;
+  private readonly TRIGRAM_WEIGHT = 0.5;
+
+  constructor(dimensions: number = parseInt(process.env.HASHING_EMBEDDING_DIMENSIONS || '384')) {
+    this.dimensions = dimensions;
+    this.model = `fnv1a-${dimensions}`;
+    this.modelId = formatModelId(this.name, this.model);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return this.hashText(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.hashText(text));
+  }
+
+  private hashText(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, this.TRIGRAM_WEIGHT);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = this.fnv1a(feature);
+    const index = hash % this.dimensions;
+    // Use the high bit as a sign to reduce collision bias
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[index] += sign * weight;
+  }
+
+  private fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,67 @@
+// backend/src/services/ai/providers/index.ts
+
+import { EmbeddingProvider, EmbeddingProviderName } from './embedding.provider';
+import { OpenAIEmbeddingProvider } from './openai-embedding.provider';
+import { LocalEmbeddingProvider } from './local-embedding.provider';
+import { HashingEmbeddingProvider } from './hashing-embedding.provider';
+import { LLMProvider, LLMProviderConfig, LLMProviderName } from './llm.provider';
+import { OpenAILLMProvider } from './openai-llm.provider';
+import { LocalLLMProvider } from './local-llm.provider';
+import { ScriptedLLMProvider } from './mock-llm.provider';
+
+export type { EmbeddingProvider, EmbeddingProviderName } from './embedding.provider';
+export { formatModelId } from './embedding.provider';
+export { OpenAIEmbeddingProvider } from './openai-embedding.provider';
+export { LocalEmbeddingProvider } from './local-embedding.provider';
+export { HashingEmbeddingProvider } from './hashing-embedding.provider';
+export type { LLMProvider, LLMProviderConfig, LLMProviderName, ChatMessage, CompletionResult } from './llm.provider';
+export { OpenAILLMProvider } from './openai-llm.provider';
+export { LocalLLMProvider } from './local-llm.provider';
+export { ScriptedLLMProvider } from './mock-llm.provider';
+export type { ScriptedResponse, RecordedCall } from './mock-llm.provider';
+
+export interface EmbeddingProviderOptions {
+  model?: string;
+  dimensions?: number;
+}
+
+const embeddingProviders: Record<EmbeddingProviderName, (options: EmbeddingProviderOptions) => EmbeddingProvider> = {
+  openai: options => new OpenAIEmbeddingProvider(options.model, options.dimensions),
+  local: options => new LocalEmbeddingProvider(options.model, options.dimensions),
+  hashing: options => new HashingEmbeddingProvider(options.dimensions)
+};
+
+/**
+ * Create the embedding provider selected by EMBEDDING_PROVIDER (default: openai).
+ * Model and dimensions fall back to the provider's own env settings.
+ * ينشئ مزود التضمينات المحدد في الإعدادات
+ */
+export function createEmbeddingProvider(
+  name: string = process.env.EMBEDDING_PROVIDER || 'openai',
+  options: EmbeddingProviderOptions = {}
+): EmbeddingProvider {
+  const factory = embeddingProviders[name as EmbeddingProviderName];
+  if (!factory) {
+    throw new Error(`Unknown embedding provider: ${name}`);
+  }
+  return factory(options);
+}
+
+const llmProviders: Record<LLMProviderName, (config: Partial<LLMProviderConfig>) => LLMProvider> = {
+  openai: config => new OpenAILLMProvider(config.model),
+  local: config => new LocalLLMProvider(config.model, config.baseUrl),
+  mock: () => new ScriptedLLMProvider()
+};
+
+/**
+ * Create a chat-completion provider; falls back to LLM_PROVIDER (default: openai)
+ * ينشئ مزود نموذج المحادثة
+ */
+export function createLLMProvider(config: Partial<LLMProviderConfig> = {}): LLMProvider {
+  const name = config.provider || process.env.LLM_PROVIDER || 'openai';
+  const factory = llmProviders[name as LLMProviderName];
+  if (!factory) {
+    throw new Error(`Unknown LLM provider: ${name}`);
+  }
+  return factory(config);
+}
@@ -0,0 +1,36 @@
+// backend/src/services/ai/providers/llm.provider.ts
+
+import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { CompletionOptions, TokenUsage } from '../openai.service';
+
+export type ChatMessage = ChatCompletionMessageParam;
+
+export interface CompletionResult {
+  content: string;
+  usage: TokenUsage;
+}
+
+/**
+ * Contract implemented by every chat-completion backend (OpenAI, local, scripted mock)
+ * واجهة موحدة لمزودي نماذج المحادثة
+ */
+export interface LLMProvider {
+  /** Provider key, e.g. "openai", "local", "mock" */
+  readonly name: string;
+  /** Chat model used when the caller does not override it */
+  readonly model: string;
+
+  generateCompletion(messages: ChatMessage[], options?: CompletionOptions): Promise<CompletionResult>;
+  streamCompletion(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string>;
+}
+
+export type LLMProviderName = 'openai' | 'local' | 'mock';
+
+/**
+ * Per-warehouse selection stored under Warehouse.metadata.llm
+ */
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model?: string;
+  baseUrl?: string;
+}
@@ -0,0 +1,121 @@
+// backend/src/services/ai/providers/local-embedding.provider.ts
+
+import { EmbeddingProvider, formatModelId } from './embedding.provider';
+import { ExternalServiceError } from '../../../utils/errors';
+import { logger } from '../../../utils/logger';
+
+type LocalEmbeddingApi = 'ollama' | 'openai';
+
+/**
+ * Embeddings from a self-hosted server for sites without outbound internet.
+ * Supports Ollama (/api/embed) and OpenAI-compatible servers such as
+ * llama.cpp or vLLM (/v1/embeddings).
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model: string;
+  readonly dimensions: number;
+  readonly modelId: string;
+  private readonly baseUrl: string;
+  private readonly api: LocalEmbeddingApi;
+  private readonly timeoutMs: number;
+
+  constructor(
+    model: string = process.env.LOCAL_EMBEDDING_MODEL || 'nomic-embed-text',
+    dimensions: number = parseInt(process.env.LOCAL_EMBEDDING_DIMENSIONS || '768')
+  ) {
+    this.model = model;
+    this.dimensions = dimensions;
+    this.modelId = formatModelId(this.name, model);
+    this.baseUrl = (process.env.LOCAL_EMBEDDING_URL || 'http://localhost:11434').replace(/\/+$/, '');
+    this.api = (process.env.LOCAL_EMBEDDING_API || 'ollama') as LocalEmbeddingApi;
+    this.timeoutMs = parseInt(process.env.LOCAL_EMBEDDING_TIMEOUT_MS || '30000');
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const embeddings = this.api === 'openai'
+      ? await this.requestOpenAICompatible(texts)
+      : await this.requestOllama(texts);
+
+    if (embeddings.length !== texts.length) {
+      throw new ExternalServiceError(
+        'local-embedding',
+        `Expected ${texts.length} embeddings, received ${embeddings.length}`
+      );
+    }
+
+    for (const embedding of embeddings) {
+      if (embedding.length !== this.dimensions) {
+        throw new ExternalServiceError(
+          'local-embedding',
+          `Model ${this.model} returned ${embedding.length} dimensions, expected ${this.dimensions}`
+        );
+      }
+    }
+
+    return embeddings;
+  }
+
+  private async requestOllama(texts: string[]): Promise<number[][]> {
+    const body = await this.post('/api/embed', { model: this.model, input: texts });
+    const embeddings = body?.embeddings;
+
+    if (!Array.isArray(embeddings) || !embeddings.every(isVector)) {
+      throw this.malformedResponse('/api/embed', body);
+    }
+    return embeddings;
+  }
+
+  private async requestOpenAICompatible(texts: string[]): Promise<number[][]> {
+    const body = await this.post('/v1/embeddings', { model: this.model, input: texts });
+    const data = body?.data;
+
+    if (!Array.isArray(data) || !data.every((item: any) => typeof item?.index === 'number' && isVector(item.embedding))) {
+      throw this.malformedResponse('/v1/embeddings', body);
+    }
+    return [...data]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+  }
+
+  // Error bodies such as {"error": "model not found"} arrive with status 200 from some servers
+  private malformedResponse(path: string, body: any): ExternalServiceError {
+    const error = body?.error;
+    const detail = error ? `: ${typeof error === 'string' ? error : JSON.stringify(error)}` : '';
+    logger.error(`Local embedding server returned an unexpected response from ${this.baseUrl}${path}${detail}`);
+    return new ExternalServiceError('local-embedding', `Unexpected response from local embedding server${detail}`);
+  }
+
+  private async post(path: string, payload: unknown): Promise<any> {
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      logger.error(`Local embedding request to ${this.baseUrl}${path} failed:`, error);
+      throw new ExternalServiceError('local-embedding', 'Local embedding server request failed');
+    }
+  }
+}
+
+function isVector(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'number');
+}
@@ -0,0 +1,37 @@
+// backend/src/services/ai/providers/local-llm.provider.ts
+
+import { OpenAIService, CompletionOptions } from '../openai.service';
+import { ChatMessage, CompletionResult, LLMProvider } from './llm.provider';
+
+/**
+ * Chat completions from a self-hosted OpenAI-compatible endpoint
+ * (Ollama /v1, vLLM, llama.cpp server) so answers can be generated on-prem.
+ */
+export class LocalLLMProvider implements LLMProvider {
+  readonly name = 'local';
+  readonly model: string;
+  readonly baseUrl: string;
+  private client: OpenAIService;
+
+  constructor(
+    model: string = process.env.LOCAL_LLM_MODEL || 'llama3.1:8b',
+    baseUrl: string = process.env.LOCAL_LLM_URL || 'http://localhost:11434/v1'
+  ) {
+    this.model = model;
+    this.baseUrl = baseUrl;
+    this.client = new OpenAIService({
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+      baseURL: baseUrl,
+      chatModel: model,
+      trackCosts: false
+    });
+  }
+
+  generateCompletion(messages: ChatMessage[], options: CompletionOptions = {}): Promise<CompletionResult> {
+    return this.client.generateCompletion(messages, options);
+  }
+
+  streamCompletion(messages: ChatMessage[], options: CompletionOptions = {}): AsyncGenerator<string> {
+    return this.client.streamCompletion(messages, options);
+  }
+}
@@ -0,0 +1,108 @@
+// backend/src/services/ai/providers/mock-llm.provider.ts
+
+import fs from 'fs';
+import { CompletionOptions } from '../openai.service';
+import { ChatMessage, CompletionResult, LLMProvider } from './llm.provider';
+
+export interface ScriptedResponse {
+  /** Regular expression tested against the last user message; omit to match anything */
+  match?: string;
+  /** Full response text returned by generateCompletion */
+  response: string;
+  /** Pieces yielded by streamCompletion; defaults to the response split on spaces */
+  chunks?: string[];
+}
+
+export interface RecordedCall {
+  messages: ChatMessage[];
+  options: CompletionOptions;
+  streamed: boolean;
+}
+
+/**
+ * Replays canned responses so the answer pipeline can run without network.
+ * Entries with a `match` pattern are preferred; otherwise unmatched entries
+ * are replayed in order, cycling when the script is exhausted.
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'scripted';
+  readonly calls: RecordedCall[] = [];
+  private script: ScriptedResponse[];
+  private cursor = 0;
+  private readonly streamDelayMs: number;
+
+  constructor(
+    script: ScriptedResponse[] = ScriptedLLMProvider.loadScript(process.env.MOCK_LLM_SCRIPT),
+    streamDelayMs: number = 0
+  ) {
+    this.script = script;
+    this.streamDelayMs = streamDelayMs;
+  }
+
+  static loadScript(filePath?: string): ScriptedResponse[] {
+    if (!filePath) {
+      return [{ response: 'This is a scripted answer.' }];
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  async generateCompletion(messages: ChatMessage[], options: CompletionOptions = {}): Promise<CompletionResult> {
+    this.calls.push({ messages, options, streamed: false });
+    const entry = this.nextResponse(messages);
+
+    return {
+      content: entry.response,
+      usage: {
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        estimatedCost: 0
+      }
+    };
+  }
+
+  async *streamCompletion(messages: ChatMessage[], options: CompletionOptions = {}): AsyncGenerator<string> {
+    this.calls.push({ messages, options, streamed: true });
+    const entry = this.nextResponse(messages);
+    const chunks = entry.chunks || entry.response.split(/(?<= )/);
+
+    for (const chunk of chunks) {
+      if (this.streamDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.streamDelayMs));
+      }
+      yield chunk;
+    }
+  }
+
+  /**
+   * Replace the script and rewind, e.g. between test cases
+   */
+  reset(script?: ScriptedResponse[]): void {
+    if (script) {
+      this.script = script;
+    }
+    this.cursor = 0;
+    this.calls.length = 0;
+  }
+
+  private nextResponse(messages: ChatMessage[]): ScriptedResponse {
+    if (this.script.length === 0) {
+      throw new Error('Scripted LLM provider has no responses');
+    }
+
+    const lastUser = [...messages].reverse().find(message => message.role === 'user');
+    const prompt = typeof lastUser?.content === 'string' ? lastUser.content : '';
+
+    const matched = this.script.find(entry => entry.match && new RegExp(entry.match, 'i').test(prompt));
+    if (matched) {
+      return matched;
+    }
+
+    const sequential = this.script.filter(entry => !entry.match);
+    const pool = sequential.length > 0 ? sequential : this.script;
+    const entry = pool[this.cursor % pool.length];
+    this.cursor++;
+    return entry;
+  }
+}
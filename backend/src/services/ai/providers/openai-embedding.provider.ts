@@ -0,0 +1,36 @@
+// backend/src/services/ai/providers/openai-embedding.provider.ts
+
+import { OpenAIService } from '../openai.service';
+import { EmbeddingProvider, formatModelId } from './embedding.provider';
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly dimensions: number;
+  readonly modelId: string;
+  private openaiService: OpenAIService;
+
+  constructor(
+    model: string = process.env.OPENAI_MODEL_EMBEDDING || 'text-embedding-3-small',
+    dimensions: number = parseInt(process.env.EMBEDDING_DIMENSIONS || '1536')
+  ) {
+    this.model = model;
+    this.dimensions = dimensions;
+    this.modelId = formatModelId(this.name, model);
+    this.openaiService = new OpenAIService();
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return this.openaiService.generateEmbedding(text, {
+      model: this.model,
+      dimensions: this.dimensions
+    });
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return this.openaiService.generateBatchEmbeddings(texts, {
+      model: this.model,
+      dimensions: this.dimensions
+    });
+  }
+}
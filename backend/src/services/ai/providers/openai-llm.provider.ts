@@ -0,0 +1,23 @@
+// backend/src/services/ai/providers/openai-llm.provider.ts
+
+import { OpenAIService, CompletionOptions } from '../openai.service';
+import { ChatMessage, CompletionResult, LLMProvider } from './llm.provider';
+
+export class OpenAILLMProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private openaiService: OpenAIService;
+
+  constructor(model: string = process.env.OPENAI_MODEL_CHAT || 'gpt-4-turbo-preview') {
+    this.model = model;
+    this.openaiService = new OpenAIService({ chatModel: model });
+  }
+
+  generateCompletion(messages: ChatMessage[], options: CompletionOptions = {}): Promise<CompletionResult> {
+    return this.openaiService.generateCompletion(messages, options);
+  }
+
+  streamCompletion(messages: ChatMessage[], options: CompletionOptions = {}): AsyncGenerator<string> {
+    return this.openaiService.streamCompletion(messages, options);
+  }
+}
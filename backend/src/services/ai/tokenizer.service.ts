@@ -0,0 +1,114 @@
+// backend/src/services/ai/tokenizer.service.ts
+
+import { encoding_for_model, get_encoding, Tiktoken, TiktokenEncoding, TiktokenModel } from 'tiktoken';
+import { logger } from '../../utils/logger';
+
+/**
+ * BPE tokenizer bound to one model
+ * مُرمِّز مرتبط بنموذج محدد
+ */
+export class Tokenizer {
+  private decoder = new TextDecoder();
+
+  constructor(
+    readonly model: string,
+    private encoder: Tiktoken
+  ) {}
+
+  count(text: string): number {
+    return text ? this.encoder.encode_ordinary(text).length : 0;
+  }
+
+  /**
+   * Cut text to at most maxTokens tokens
+   * يقتطع النص إلى عدد محدد من التوكنز
+   */
+  truncate(text: string, maxTokens: number): string {
+    const tokens = this.encoder.encode_ordinary(text);
+    if (tokens.length <= maxTokens) {
+      return text;
+    }
+    return this.decode(tokens.slice(0, maxTokens));
+  }
+
+  /**
+   * Last maxTokens tokens of the text, used as chunk overlap
+   */
+  tail(text: string, maxTokens: number): string {
+    if (maxTokens <= 0) {
+      return '';
+    }
+
+    const tokens = this.encoder.encode_ordinary(text);
+    if (tokens.length <= maxTokens) {
+      return text;
+    }
+    return this.decode(tokens.slice(tokens.length - maxTokens));
+  }
+
+  /**
+   * Split text into consecutive pieces of at most maxTokens tokens
+   */
+  split(text: string, maxTokens: number): string[] {
+    const tokens = this.encoder.encode_ordinary(text);
+    const pieces: string[] = [];
+
+    for (let i = 0; i < tokens.length; i += maxTokens) {
+      const piece = this.decode(tokens.slice(i, i + maxTokens)).trim();
+      if (piece) {
+        pieces.push(piece);
+      }
+    }
+    return pieces;
+  }
+
+  private decode(tokens: Uint32Array): string {
+    // A slice can cut a multi-byte character (common in Arabic); drop the broken ends
+    return this.decoder.decode(this.encoder.decode(tokens)).replace(/^\uFFFD+|\uFFFD+$/g, '');
+  }
+}
+
+/**
+ * Hands out tokenizers for the configured embedding and chat models.
+ * Models without a published BPE (e.g. local Ollama models) use the
+ * fallback encoding, which is close enough for budgeting.
+ * يوفر المُرمِّزات المناسبة لنماذج التضمين والمحادثة
+ */
+export class TokenizerService {
+  private tokenizers = new Map<string, Tokenizer>();
+  private readonly FALLBACK_ENCODING = (process.env.TOKENIZER_FALLBACK_ENCODING || 'cl100k_base') as TiktokenEncoding;
+
+  /**
+   * Tokenizer for a model name, with or without the "<provider>:" prefix
+   * يحصل على المُرمِّز الخاص بالنموذج
+   */
+  forModel(model: string = process.env.EMBEDDING_MODEL || 'text-embedding-3-small'): Tokenizer {
+    const name = model.includes(':') ? model.substring(model.indexOf(':') + 1) : model;
+
+    let tokenizer = this.tokenizers.get(name);
+    if (!tokenizer) {
+      tokenizer = this.createTokenizer(name);
+      this.tokenizers.set(name, tokenizer);
+    }
+    return tokenizer;
+  }
+
+  /**
+   * Exact token count for a model
+   * يحسب عدد التوكنز بدقة
+   */
+  count(text: string, model?: string): number {
+    return this.forModel(model).count(text);
+  }
+
+  private createTokenizer(model: string): Tokenizer {
+    try {
+      return new Tokenizer(model, encoding_for_model(model as TiktokenModel));
+    } catch {
+      logger.debug(`No tokenizer published for ${model}, using ${this.FALLBACK_ENCODING}`);
+      return new Tokenizer(model, get_encoding(this.FALLBACK_ENCODING));
+    }
+  }
+}
+
+export const tokenizerService = new TokenizerService();
@@ -4,8 +4,44 @@ import { ExcelProcessor } from './excelProcessor';
 import { WordProcessor } from './wordProcessor';
 import { TextProcessor } from './textProcessor';
 import { ImageProcessor } from './imageProcessor';
+import { PPTXProcessor } from './pptxProcessor';
 import { prisma } from '../../lib/prisma';
+import { EmbeddingIndexService } from '../ai/embedding-index.service';
+import { Tokenizer, tokenizerService } from '../ai/tokenizer.service';
+import { languageDetectionService } from '../ai/language-detection.service';
+import { textNormalizationService } from '../search/text-normalization.service';
+import { getStorageDriver } from '../storage';
+import { DocumentProcessingError, classifyProcessingError, isFileFormatError } from './processingFailure';
+import { documentReviewService } from '../review/document-review.service';
+import { logger } from '../../utils/logger';
 import path from 'path';
+import crypto from 'crypto';
+
+export type SegmentType = 'text' | 'heading' | 'table' | 'list';
+export type DocumentLanguage = 'en' | 'ar' | 'de';
+
+export const SUPPORTED_LANGUAGES: DocumentLanguage[] = ['en', 'ar', 'de'];
+
+/**
+ * Per-document settings passed to every processor
+ */
+export interface ProcessorOptions {
+  /** OCR languages, the document's own language first */
+  ocrLanguages: DocumentLanguage[];
+}
+
+/**
+ * A structural piece of a document in reading order, as emitted by a processor
+ */
+export interface DocumentSegment {
+  type: SegmentType;
+  text: string;
+  page?: number;
+  level?: number; // heading level, 1 = top
+  ocrConfidence?: number; // Tesseract confidence 0-100, only for OCR'd text
+  language?: DocumentLanguage; // from the OCR'd script, overrides text detection
+  script?: string;
+}
 
 export interface ProcessorResult {
   text: string;
@@ -13,43 +49,182 @@ export interface ProcessorResult {
   pages?: number;
   tables?: any[];
   images?: string[];
+  segments?: DocumentSegment[];
+  warnings?: string[];
 }
 
 export interface DocumentChunk {
   text: string;
+  /** Normalized text for keyword search */
+  searchText: string;
+  tokenCount: number;
   metadata: {
     page?: number;
     section?: string;
-    type: 'text' | 'table' | 'image' | 'heading';
+    headingPath?: string[];
+    type: 'text' | 'table' | 'image' | 'heading' | 'list';
     language?: string;
+    languageConfidence?: number;
+    ocrConfidence?: number;
+    script?: string;
   };
 }
 
+/**
+ * Chunk target and overlap, measured in tokens of the embedding model
+ */
+export interface ChunkingOptions {
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+/**
+ * A chunked document version, published by promote() once it is embedded
+ */
+export interface ProcessedVersion {
+  version: number;
+  /** Document fields written when the version becomes current */
+  update: Record<string, any>;
+}
+
+const HEADING_MAX_LENGTH = 100;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*•▪◦–]|\d+[.)]|[a-zA-Z][.)])\s+\S/;
+const TABLE_ROW_PATTERN = /\t|\s\|\s|\S\s{3,}\S.*\s{3,}\S/;
+
+/**
+ * Detect a heading line and its level: "# Title", "3.2 Battery change",
+ * "3 Safety" or an all-caps line such as "EMERGENCY STOP"
+ */
+function headingLevel(line: string): number | null {
+  const trimmed = line.trim();
+
+  const markdown = trimmed.match(/^(#{1,6})\s+\S/);
+  if (markdown) {
+    return markdown[1].length;
+  }
+
+  if (trimmed.length > HEADING_MAX_LENGTH || /[.,;:]$/.test(trimmed)) {
+    return null;
+  }
+
+  // "3.2 Battery change" or "3 Safety"; "3. Check the fork" is a list item
+  const numbered = trimmed.match(/^(\d+(?:\.\d+)+)\.?\s+\p{L}|^(\d+)\s+\p{Lu}/u);
+  if (numbered) {
+    return numbered[1] ? numbered[1].split('.').length : 1;
+  }
+
+  if (/^[A-Z][A-Z0-9\s\-&/]{2,}$/.test(trimmed)) {
+    return 1;
+  }
+
+  return null;
+}
+
+/**
+ * Split plain text into headings, lists, tables and prose blocks.
+ * Used by processors that only get flat text, and as the fallback for
+ * processors that emit no segments.
+ */
+export function segmentPlainText(text: string, page?: number): DocumentSegment[] {
+  const segments: DocumentSegment[] = [];
+  let block: string[] = [];
+  let blockType: SegmentType = 'text';
+
+  const flush = () => {
+    const content = block.join('\n').trim();
+    if (content) {
+      segments.push({ type: blockType, text: content, page });
+    }
+    block = [];
+    blockType = 'text';
+  };
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trimEnd();
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const level = headingLevel(line);
+    if (level) {
+      flush();
+      segments.push({ type: 'heading', text: line.trim().replace(/^#{1,6}\s+/, ''), level, page });
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      if (blockType !== 'list') {
+        flush();
+        blockType = 'list';
+      }
+    } else if (TABLE_ROW_PATTERN.test(line)) {
+      if (blockType !== 'table') {
+        flush();
+        blockType = 'table';
+      }
+    } else if (blockType === 'table') {
+      flush();
+    }
+    // Other lines after a list item are treated as its wrapped continuation
+
+    block.push(line);
+  }
+
+  flush();
+  return segments;
+}
+
 export class DocumentProcessor {
   private processors: Map<string, any>;
+  private embeddingIndexService: EmbeddingIndexService;
+  private readonly DEFAULT_CHUNKING: ChunkingOptions = {
+    maxTokens: parseInt(process.env.CHUNK_MAX_TOKENS || '300'),
+    overlapTokens: parseInt(process.env.CHUNK_OVERLAP_TOKENS || '40')
+  };
+  // e.g. {"SOPs": {"maxTokens": 200}, "Reports": {"maxTokens": 500, "overlapTokens": 60}}
+  private readonly CATEGORY_CHUNKING = this.parseCategoryChunking(process.env.CHUNK_TOKENS_BY_CATEGORY);
+  private readonly DEFAULT_OCR_LANGUAGES = (process.env.OCR_DEFAULT_LANGUAGES || 'en,ar').split(',').map(l => l.trim());
 
   constructor() {
+    this.embeddingIndexService = new EmbeddingIndexService();
     this.processors = new Map([
       ['application/pdf', new PDFProcessor()],
       ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', new ExcelProcessor()],
       ['application/vnd.openxmlformats-officedocument.wordprocessingml.document', new WordProcessor()],
+      ['application/vnd.openxmlformats-officedocument.presentationml.presentation', new PPTXProcessor()],
       ['text/plain', new TextProcessor()],
       ['image/jpeg', new ImageProcessor()],
       ['image/png', new ImageProcessor()]
     ]);
   }
 
-  async process(documentId: string): Promise<void> {
+  /**
+   * Extract and chunk the latest version of a document. The document keeps
+   * serving its current version; the queue promotes the new one after its
+   * chunks are embedded, so search never serves a version without vectors.
+   */
+  async process(documentId: string): Promise<ProcessedVersion> {
     try {
       // Get document from database
       const document = await prisma.document.findUnique({
-        where: { id: documentId }
+        where: { id: documentId },
+        include: { warehouse: { select: { metadata: true } } }
       });
 
       if (!document) {
         throw new Error('Document not found');
       }
 
+      // A new revision is processed from its own file
+      const latestVersion = await prisma.documentVersion.findFirst({
+        where: { documentId },
+        orderBy: { version: 'desc' }
+      });
+      const source = latestVersion ?? document;
+      const version = latestVersion?.version ?? document.version;
+
       // Update status to processing
       await prisma.document.update({
         where: { id: documentId },
@@ -60,13 +235,25 @@ export class DocumentProcessor {
       });
 
       // Get appropriate processor
-      const processor = this.processors.get(document.mimeType);
+      const processor = this.processors.get(source.mimeType);
       if (!processor) {
-        throw new Error(`No processor available for ${document.mimeType}`);
+        throw new DocumentProcessingError('unsupported_format', `No processor available for ${source.mimeType}`);
       }
 
-      // Extract text and metadata
-      const result: ProcessorResult = await processor.process(document.path);
+      // Extract text and metadata; remote stores download the file first.
+      // Processors report OCR failures themselves; parser format errors mean
+      // the file is corrupt, and anything else is classified like other failures
+      const result: ProcessorResult = await getStorageDriver(source.storageDriver).withLocalFile(
+        source.path,
+        filePath => processor.process(filePath, {
+          ocrLanguages: this.getOcrLanguages(document.language, document.warehouse?.metadata)
+        }).catch(error => {
+          if (error instanceof DocumentProcessingError || !isFileFormatError(error)) {
+            throw error;
+          }
+          throw new DocumentProcessingError('corrupt_file', error.message);
+        })
+      );
 
       // Update progress
       await prisma.document.update({
@@ -74,11 +261,18 @@ export class DocumentProcessor {
         data: { processingProgress: 50 }
       });
 
-      // Create chunks
-      const chunks = await this.createChunks(result.text, result.metadata);
+      // Create chunks sized in tokens of the model that will embed them
+      const embeddingProvider = await this.embeddingIndexService.getActiveProvider();
+      const tokenizer = tokenizerService.forModel(embeddingProvider.model);
+      const chunks = this.createChunks(
+        result,
+        tokenizer,
+        this.getChunkingOptions(document.category),
+        document.language
+      );
 
-      // Save chunks to database
-      await this.saveChunks(documentId, chunks);
+      // Save chunks to database; unchanged chunks reuse their previous embeddings
+      const changedChunks = await this.saveChunks(documentId, version, chunks);
 
       // Update progress
       await prisma.document.update({
@@ -89,22 +283,36 @@ export class DocumentProcessor {
       // Generate embeddings (to be implemented)
       await this.generateEmbeddings(documentId, chunks);
 
-      // Update document status
-      await prisma.document.update({
-        where: { id: documentId },
-        data: { 
-          status: 'completed',
+      // Status and file of the version once promoted; warnings (e.g. poor OCR)
+      // keep the document searchable but flag it for a human to check
+      const warnings = result.warnings || [];
+      return {
+        version,
+        update: {
+          status: warnings.length > 0 ? 'warning' : 'completed',
           processingProgress: 100,
+          version,
+          filename: source.filename,
+          originalName: source.originalName,
+          mimeType: source.mimeType,
+          size: source.size,
+          path: source.path,
+          storageDriver: source.storageDriver,
+          fileHash: source.fileHash,
+          processingError: null,
+          failureCategory: null,
           extractedText: result.text.substring(0, 5000), // Store preview
           metadata: {
             ...document.metadata as any,
             ...result.metadata,
             processedAt: new Date().toISOString(),
-            totalChunks: chunks.length
+            totalChunks: chunks.length,
+            changedChunks,
+            detectedLanguage: languageDetectionService.detect(result.text.substring(0, 5000)),
+            warnings
           }
         }
-      });
-
+      };
     } catch (error) {
       console.error('Processing error:', error);
       
@@ -112,7 +320,8 @@ export class DocumentProcessor {
         where: { id: documentId },
         data: { 
           status: 'failed',
-          processingError: error instanceof Error ? error.message : 'Processing failed'
+          processingError: error instanceof Error ? error.message : 'Processing failed',
+          failureCategory: classifyProcessingError(error)
         }
       });
 
@@ -120,89 +329,322 @@ export class DocumentProcessor {
     }
   }
 
-  private async createChunks(text: string, metadata: Record<string, any>): Promise<DocumentChunk[]> {
-    const chunks: DocumentChunk[] = [];
-    const chunkSize = 1000; // Characters per chunk
-    const overlap = 200; // Overlap between chunks
+  /**
+   * Make a processed version the document's current one. A new revision goes
+   * back to review; Workers keep finding the approved version until then.
+   */
+  async promote(documentId: string, processed: ProcessedVersion): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const document = await tx.document.findUnique({
+        where: { id: documentId },
+        select: { version: true, category: true }
+      });
+      if (!document) {
+        throw new Error('Document not found');
+      }
+
+      await tx.document.update({
+        where: { id: documentId },
+        data: processed.update
+      });
+
+      if (processed.version !== document.version) {
+        await documentReviewService.reset(documentId, document.category, processed.version, tx);
+      }
+    });
+  }
 
-    // Split text into paragraphs first
-    const paragraphs = text.split(/\n\n+/);
+  /**
+   * OCR languages for a document: its own language, then the warehouse
+   * default (metadata.ocrLanguages) or OCR_DEFAULT_LANGUAGES
+   */
+  getOcrLanguages(language: string, warehouseMetadata?: any): DocumentLanguage[] {
+    const defaults: string[] = Array.isArray(warehouseMetadata?.ocrLanguages)
+      ? warehouseMetadata.ocrLanguages
+      : this.DEFAULT_OCR_LANGUAGES;
+
+    return [...new Set([language, ...defaults])]
+      .filter((l): l is DocumentLanguage => SUPPORTED_LANGUAGES.includes(l as DocumentLanguage));
+  }
+
+  /**
+   * Chunk sizes for a document category, falling back to the defaults
+   */
+  getChunkingOptions(category?: string | null): ChunkingOptions {
+    const override = category ? this.CATEGORY_CHUNKING[category] : undefined;
+    return { ...this.DEFAULT_CHUNKING, ...override };
+  }
+
+  private parseCategoryChunking(value?: string): Record<string, Partial<ChunkingOptions>> {
+    if (!value) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      console.error('Invalid CHUNK_TOKENS_BY_CATEGORY, using default chunk sizes:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Build chunks from the processor's segments. Chunks never cross a page or
+   * section boundary, so each one carries its real page number and heading
+   * path; tables and lists are kept apart from prose and split by rows.
+   * Sizes are in tokens, and every chunk gets its exact token count.
+   */
+  private createChunks(
+    result: ProcessorResult,
+    tokenizer: Tokenizer,
+    options: ChunkingOptions,
+    documentLanguage: string
+  ): DocumentChunk[] {
+    const { maxTokens, overlapTokens } = options;
+
+    const segments = (result.segments && result.segments.length > 0
+      ? result.segments
+      : segmentPlainText(result.text)
+    ).map(segment => ({ ...segment, text: textNormalizationService.clean(segment.text) }));
+
+    const chunks: DocumentChunk[] = [];
+    const headings: Array<{ level: number; text: string }> = [];
+    const ocrByPage = new Map<number | undefined, DocumentSegment>(
+      segments
+        .filter(segment => segment.ocrConfidence !== undefined)
+        .map(segment => [segment.page, segment])
+    );
+    let pendingHeading: string | null = null;
     let currentChunk = '';
-    let currentMetadata: any = { type: 'text' };
-
-    for (const paragraph of paragraphs) {
-      // Check if paragraph is a heading
-      if (paragraph.match(/^#{1,6}\s/) || paragraph.match(/^[A-Z\s]{3,}$/)) {
-        // Save current chunk if exists
-        if (currentChunk.trim()) {
-          chunks.push({
-            text: currentChunk.trim(),
-            metadata: currentMetadata
-          });
+    let currentTokens = 0;
+    let currentPage: number | undefined;
+
+    const push = (text: string, type: DocumentChunk['metadata']['type'], page?: number) => {
+      const headingPath = headings.map(h => h.text);
+      const ocr = ocrByPage.get(page);
+      // The first chunk of a section starts with its heading, as before
+      const content = (pendingHeading ? `${pendingHeading}\n\n${text}` : text).trim();
+      pendingHeading = null;
+
+      chunks.push({
+        text: content,
+        searchText: textNormalizationService.normalize(content),
+        tokenCount: tokenizer.count(content),
+        metadata: {
+          type,
+          page,
+          section: headingPath[headingPath.length - 1],
+          headingPath,
+          ocrConfidence: ocr?.ocrConfidence,
+          language: ocr?.language,
+          script: ocr?.script
         }
-        
-        // Start new chunk with heading
-        currentChunk = paragraph;
-        currentMetadata = { type: 'heading' };
-      } else if (currentChunk.length + paragraph.length <= chunkSize) {
-        // Add to current chunk
-        currentChunk += '\n\n' + paragraph;
-      } else {
-        // Save current chunk and start new one
-        if (currentChunk.trim()) {
-          chunks.push({
-            text: currentChunk.trim(),
-            metadata: currentMetadata
-          });
+      });
+    };
+
+    const flush = () => {
+      if (currentChunk.trim()) {
+        push(currentChunk, 'text', currentPage);
+      }
+      currentChunk = '';
+      currentTokens = 0;
+    };
+
+    for (const segment of segments) {
+      if (segment.type === 'heading') {
+        flush();
+        const level = segment.level || 1;
+        while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+          headings.pop();
         }
-        
+        headings.push({ level, text: segment.text });
+        pendingHeading = segment.text;
+        continue;
+      }
+
+      if (segment.type === 'table' || segment.type === 'list') {
+        flush();
+        for (const part of this.splitRows(segment.text, tokenizer, maxTokens, segment.type === 'table')) {
+          push(part, segment.type, segment.page);
+        }
+        continue;
+      }
+
+      if (segment.page !== currentPage) {
+        flush();
+        currentPage = segment.page;
+      }
+
+      for (const paragraph of this.splitProse(segment.text, tokenizer, maxTokens)) {
+        const paragraphTokens = tokenizer.count(paragraph);
+
+        if (currentTokens + paragraphTokens <= maxTokens) {
+          currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
+          currentTokens += paragraphTokens;
+          continue;
+        }
+
         // Keep last part of previous chunk for context
-        const overlapText = currentChunk.split(' ').slice(-30).join(' ');
-        currentChunk = overlapText + '\n\n' + paragraph;
-        currentMetadata = { type: 'text' };
+        const overlapText = tokenizer.tail(currentChunk, overlapTokens).trim();
+        flush();
+        currentChunk = overlapText ? `${overlapText}\n\n${paragraph}` : paragraph;
+        currentTokens = tokenizer.count(currentChunk);
       }
     }
 
-    // Save last chunk
-    if (currentChunk.trim()) {
-      chunks.push({
-        text: currentChunk.trim(),
-        metadata: currentMetadata
-      });
+    flush();
+
+    // A document made only of headings still needs something to search
+    if (chunks.length === 0 && headings.length > 0) {
+      push(headings.map(h => h.text).join('\n'), 'heading');
     }
 
-    // Add language detection
+    // Add language detection; OCR'd chunks already know their script
     for (const chunk of chunks) {
-      chunk.metadata.language = this.detectLanguage(chunk.text);
+      if (!chunk.metadata.language) {
+        const detection = this.detectLanguage(chunk.text, documentLanguage);
+        chunk.metadata.language = detection.language;
+        chunk.metadata.languageConfidence = detection.confidence;
+      }
     }
 
     return chunks;
   }
 
-  private detectLanguage(text: string): 'en' | 'ar' | 'de' | 'unknown' {
-    // Simple language detection based on character patterns
-    const arabicPattern = /[\u0600-\u06FF]/;
-    const germanPattern = /[äöüßÄÖÜ]/;
-    
-    if (arabicPattern.test(text)) return 'ar';
-    if (germanPattern.test(text)) return 'de';
-    
-    // Default to English
-    return 'en';
+  /**
+   * Split prose that does not fit one chunk at sentence boundaries
+   */
+  private splitProse(text: string, tokenizer: Tokenizer, maxTokens: number): string[] {
+    if (tokenizer.count(text) <= maxTokens) {
+      return [text];
+    }
+
+    const parts: string[] = [];
+    let current = '';
+    let currentTokens = 0;
+
+    for (const sentence of text.split(/(?<=[.!?؟])\s+/)) {
+      const sentenceTokens = tokenizer.count(sentence);
+
+      if (sentenceTokens > maxTokens) {
+        // A single run-on sentence (or a table flattened into prose) is cut by tokens
+        if (current) {
+          parts.push(current);
+        }
+        parts.push(...tokenizer.split(sentence, maxTokens));
+        current = '';
+        currentTokens = 0;
+        continue;
+      }
+
+      if (current && currentTokens + sentenceTokens > maxTokens) {
+        parts.push(current);
+        current = '';
+        currentTokens = 0;
+      }
+      current += (current ? ' ' : '') + sentence;
+      currentTokens += sentenceTokens;
+    }
+
+    if (current) {
+      parts.push(current);
+    }
+    return parts;
+  }
+
+  /**
+   * Split a table or list by whole rows; table parts repeat the header row
+   */
+  private splitRows(text: string, tokenizer: Tokenizer, maxTokens: number, repeatHeader: boolean): string[] {
+    if (tokenizer.count(text) <= maxTokens) {
+      return [text];
+    }
+
+    const lines = text.split('\n');
+    const header = repeatHeader ? lines.shift()! : '';
+    const headerTokens = tokenizer.count(header);
+    const parts: string[] = [];
+    let current = header;
+    let currentTokens = headerTokens;
+
+    for (const line of lines) {
+      const lineTokens = tokenizer.count(line);
+      if (currentTokens + lineTokens > maxTokens && current !== header) {
+        parts.push(current);
+        current = header;
+        currentTokens = headerTokens;
+      }
+      current += (current ? '\n' : '') + line;
+      currentTokens += lineTokens;
+    }
+
+    if (current && current !== header) {
+      parts.push(current);
+    }
+    return parts;
+  }
+
+  /**
+   * N-gram language detection; chunks too short or mixed to tell keep the
+   * document's language
+   */
+  private detectLanguage(text: string, fallback: string): { language: string; confidence: number } {
+    const detection = languageDetectionService.detect(text);
+    if (!detection?.reliable) {
+      return { language: fallback, confidence: detection?.scores[fallback] ?? 0 };
+    }
+    return { language: detection.language, confidence: detection.confidence };
   }
 
-  private async saveChunks(documentId: string, chunks: DocumentChunk[]): Promise<void> {
+  /**
+   * Save the chunks of a document version. Chunks whose content hash matches a
+   * chunk of an earlier version get copies of its embeddings, so only changed
+   * chunks are embedded again. Returns the number of changed chunks.
+   */
+  private async saveChunks(documentId: string, version: number, chunks: DocumentChunk[]): Promise<number> {
     const chunkRecords = chunks.map((chunk, index) => ({
       documentId,
+      version,
       content: chunk.text,
+      searchText: chunk.searchText,
+      contentHash: crypto.createHash('sha256').update(chunk.text).digest('hex'),
       chunkIndex: index,
       metadata: chunk.metadata,
-      tokenCount: Math.ceil(chunk.text.length / 4) // Approximate token count
+      tokenCount: chunk.tokenCount
     }));
 
+    // A retried job replaces its own version's chunks; earlier versions stay queryable
+    await prisma.chunk.deleteMany({
+      where: { documentId, version }
+    });
+
     await prisma.chunk.createMany({
       data: chunkRecords
     });
+
+    const reused = await prisma.$executeRaw`
+      INSERT INTO embeddings (id, chunk_id, embedding, model, dimensions, created_at)
+      SELECT DISTINCT ON (c.id, e.model) uuid_generate_v4(), c.id, e.embedding, e.model, e.dimensions, NOW()
+      FROM chunks c
+      JOIN chunks previous ON previous.document_id = c.document_id
+        AND previous.content_hash = c.content_hash
+        AND previous.version < c.version
+      JOIN embeddings e ON e.chunk_id = previous.id
+      WHERE c.document_id = ${documentId} AND c.version = ${version}
+      ORDER BY c.id, e.model, previous.version DESC
+    `;
+
+    const changedChunks = await prisma.chunk.count({
+      where: { documentId, version, embeddings: { none: {} } }
+    });
+
+    await prisma.documentVersion.updateMany({
+      where: { documentId, version },
+      data: { chunkCount: chunks.length, changedChunks }
+    });
+
+    logger.info(`Document ${documentId} v${version}: ${chunks.length} chunks, ${changedChunks} to embed (${reused} embeddings reused)`);
+    return changedChunks;
   }
 
   private async generateEmbeddings(documentId: string, chunks: DocumentChunk[]): Promise<void> {
@@ -220,35 +662,134 @@ export class DocumentProcessor {
 
 // wmlab/backend/src/services/documentProcessors/pdfProcessor.ts
 import pdf from 'pdf-parse';
+import { fromBuffer } from 'pdf2pic';
 import fs from 'fs/promises';
-import { ProcessorResult } from './index';
+import { DocumentSegment, ProcessorOptions, ProcessorResult, segmentPlainText } from './index';
+import { ImageProcessor, OcrResult } from './imageProcessor';
+import { DocumentProcessingError } from './processingFailure';
 
 export class PDFProcessor {
-  async process(filePath: string): Promise<ProcessorResult> {
+  private imageProcessor = new ImageProcessor();
+  // Pages with fewer non-space characters than this are treated as scanned
+  private readonly OCR_MIN_CHARS = parseInt(process.env.PDF_OCR_MIN_CHARS || '50');
+  private readonly OCR_DENSITY = parseInt(process.env.PDF_OCR_DENSITY || '300');
+  private readonly OCR_LOW_CONFIDENCE = parseFloat(process.env.OCR_LOW_CONFIDENCE || '60');
+
+  async process(filePath: string, options?: ProcessorOptions): Promise<ProcessorResult> {
     try {
       const dataBuffer = await fs.readFile(filePath);
-      const data = await pdf(dataBuffer);
+      const pageTexts: string[] = [];
+
+      // Same line joining as pdf-parse's default renderer, but kept per page
+      const data = await pdf(dataBuffer, {
+        pagerender: async (pageData: any) => {
+          const content = await pageData.getTextContent();
+          let lastY: number | undefined;
+          let text = '';
+
+          for (const item of content.items) {
+            text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+            lastY = item.transform[5];
+          }
+
+          pageTexts[pageData.pageIndex] = text;
+          return text;
+        }
+      });
+
+      const segments: DocumentSegment[] = [];
+      const ocrPages: Array<{ page: number; confidence: number }> = [];
+
+      for (let index = 0; index < data.numpages; index++) {
+        const page = index + 1;
+        const text = pageTexts[index] || '';
+
+        if (text.replace(/\s/g, '').length >= this.OCR_MIN_CHARS) {
+          segments.push(...segmentPlainText(text, page));
+          continue;
+        }
+
+        // No usable text layer: rasterise the page and OCR it
+        const ocr = await this.ocrPage(dataBuffer, page, options);
+        if (ocr && ocr.text.trim().length > text.trim().length) {
+          pageTexts[index] = ocr.text;
+          ocrPages.push({ page, confidence: ocr.confidence });
+          segments.push(...segmentPlainText(ocr.text, page).map(segment => ({
+            ...segment,
+            ocrConfidence: ocr.confidence,
+            language: ocr.language,
+            script: ocr.script
+          })));
+        } else {
+          segments.push(...segmentPlainText(text, page));
+        }
+      }
+
+      const warnings: string[] = [];
+      let averageConfidence: number | null = null;
+
+      if (ocrPages.length > 0) {
+        averageConfidence = Math.round(
+          ocrPages.reduce((sum, p) => sum + p.confidence, 0) / ocrPages.length
+        );
+        if (averageConfidence < this.OCR_LOW_CONFIDENCE) {
+          warnings.push(
+            `Low OCR confidence (${averageConfidence}%) on ${ocrPages.length} scanned page(s); check the extracted text`
+          );
+        }
+      }
 
       return {
-        text: data.text,
+        text: ocrPages.length > 0 ? pageTexts.join('\n\n') : data.text,
         metadata: {
           pages: data.numpages,
           info: data.info,
           metadata: data.metadata,
-          version: data.version
+          version: data.version,
+          ocr: ocrPages.length > 0 ? { pages: ocrPages, averageConfidence } : undefined
         },
-        pages: data.numpages
+        pages: data.numpages,
+        segments,
+        warnings
       };
     } catch (error) {
+      if (error instanceof DocumentProcessingError) {
+        throw error;
+      }
       console.error('PDF processing error:', error);
       throw new Error('Failed to process PDF file');
     }
   }
+
+  private async ocrPage(dataBuffer: Buffer, page: number, options?: ProcessorOptions): Promise<OcrResult | null> {
+    try {
+      const convert = fromBuffer(dataBuffer, {
+        density: this.OCR_DENSITY,
+        format: 'png',
+        preserveAspectRatio: true,
+        width: 2480
+      });
+      const image = await convert(page, { responseType: 'buffer' });
+      if (!image.buffer) {
+        return null;
+      }
+
+      return await this.imageProcessor.recognize(image.buffer, options?.ocrLanguages);
+    } catch (error) {
+      // Rasterising (GraphicsMagick/Ghostscript) or Tesseract failed; the file
+      // itself parsed, so this is retried as an OCR failure
+      console.error(`OCR failed for PDF page ${page}:`, error);
+      throw new DocumentProcessingError(
+        'ocr_failure',
+        `OCR failed for PDF page ${page}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
 }
 
 // wmlab/backend/src/services/documentProcessors/excelProcessor.ts
 import XLSX from 'xlsx';
-import { ProcessorResult } from './index';
+import { DocumentSegment, ProcessorResult } from './index';
 
 export class ExcelProcessor {
   async process(filePath: string): Promise<ProcessorResult> {
@@ -256,6 +797,7 @@ export class ExcelProcessor {
       const workbook = XLSX.readFile(filePath);
       let fullText = '';
       const tables: any[] = [];
+      const segments: DocumentSegment[] = [];
 
       // Process each sheet
       for (const sheetName of workbook.SheetNames) {
@@ -271,6 +813,12 @@ export class ExcelProcessor {
         // Convert to CSV for text extraction
         const csvData = XLSX.utils.sheet_to_csv(sheet);
         fullText += `\n\nSheet: ${sheetName}\n${csvData}`;
+
+        // Each sheet is its own section so rows keep the sheet name
+        segments.push({ type: 'heading', text: sheetName, level: 1 });
+        if (csvData.trim()) {
+          segments.push({ type: 'table', text: csvData.trim() });
+        }
       }
 
       return {
@@ -279,7 +827,8 @@ export class ExcelProcessor {
           sheets: workbook.SheetNames,
           sheetCount: workbook.SheetNames.length
         },
-        tables
+        tables,
+        segments
       };
     } catch (error) {
       console.error('Excel processing error:', error);
@@ -290,7 +839,9 @@ export class ExcelProcessor {
 
 // wmlab/backend/src/services/documentProcessors/wordProcessor.ts
 import mammoth from 'mammoth';
-import { ProcessorResult } from './index';
+import { DocumentSegment, ProcessorResult } from './index';
+
+const BLOCK_PATTERN = /<(h[1-6]|p|ul|ol|table)\b[^>]*>([\s\S]*?)<\/\1>/g;
 
 export class WordProcessor {
   async process(filePath: string): Promise<ProcessorResult> {
@@ -306,18 +857,72 @@ export class WordProcessor {
           messages: result.messages,
           hasImages: htmlResult.value.includes('<img'),
           hasTables: htmlResult.value.includes('<table')
-        }
+        },
+        segments: this.extractSegments(htmlResult.value)
       };
     } catch (error) {
       console.error('Word processing error:', error);
       throw new Error('Failed to process Word file');
     }
   }
+
+  /**
+   * Map mammoth's HTML to segments; Word files have no reliable page
+   * numbers, so only the heading structure is kept
+   */
+  private extractSegments(html: string): DocumentSegment[] {
+    const segments: DocumentSegment[] = [];
+
+    for (const [, tag, inner] of html.matchAll(BLOCK_PATTERN)) {
+      if (tag.startsWith('h')) {
+        const text = this.stripTags(inner);
+        if (text) {
+          segments.push({ type: 'heading', text, level: parseInt(tag[1], 10) });
+        }
+      } else if (tag === 'table') {
+        const rows = [...inner.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/g)].map(([, row]) =>
+          [...row.matchAll(/<t[dh]\b[^>]*>([\s\S]*?)<\/t[dh]>/g)]
+            .map(([, cell]) => this.stripTags(cell))
+            .join(' | ')
+        );
+        if (rows.length > 0) {
+          segments.push({ type: 'table', text: rows.join('\n') });
+        }
+      } else if (tag === 'ul' || tag === 'ol') {
+        const items = [...inner.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/g)].map(([, item], index) =>
+          `${tag === 'ol' ? `${index + 1}.` : '-'} ${this.stripTags(item)}`
+        );
+        if (items.length > 0) {
+          segments.push({ type: 'list', text: items.join('\n') });
+        }
+      } else {
+        const text = this.stripTags(inner);
+        if (text) {
+          segments.push({ type: 'text', text });
+        }
+      }
+    }
+
+    return segments;
+  }
+
+  private stripTags(html: string): string {
+    return html
+      .replace(/<br\s*\/?>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&')
+      .trim();
+  }
 }
 
 // wmlab/backend/src/services/documentProcessors/textProcessor.ts
 import fs from 'fs/promises';
-import { ProcessorResult } from './index';
+import { ProcessorResult, segmentPlainText } from './index';
 
 export class TextProcessor {
   async process(filePath: string): Promise<ProcessorResult> {
@@ -329,7 +934,8 @@ export class TextProcessor {
         metadata: {
           characterCount: text.length,
           lineCount: text.split('\n').length
-        }
+        },
+        segments: segmentPlainText(text)
       };
     } catch (error) {
       console.error('Text processing error:', error);
@@ -340,26 +946,363 @@ export class TextProcessor {
 
 // wmlab/backend/src/services/documentProcessors/imageProcessor.ts
 import Tesseract from 'tesseract.js';
-import { ProcessorResult } from './index';
+import path from 'path';
+import fs from 'fs/promises';
+import { DocumentLanguage, ProcessorOptions, ProcessorResult, segmentPlainText } from './index';
+import { DocumentProcessingError } from './processingFailure';
+
+const TESSERACT_LANGUAGES: Record<DocumentLanguage, string> = {
+  en: 'eng',
+  ar: 'ara',
+  de: 'deu'
+};
+
+const GERMAN_HINTS = /[äöüßÄÖÜ]|\b(?:der|die|das|und|nicht|mit|für|achtung|gefahr|warnung)\b/gi;
+const ENGLISH_HINTS = /\b(?:the|and|not|with|for|caution|danger|warning)\b/gi;
+
+export interface OcrResult {
+  text: string;
+  confidence: number;
+  script: 'Arabic' | 'Latin' | 'Unknown';
+  language: DocumentLanguage;
+}
 
 export class ImageProcessor {
-  async process(filePath: string): Promise<ProcessorResult> {
+  // Local traineddata (eng, ara, deu) so nothing is downloaded at runtime;
+  // not in the repository, fetched once with `npm run ocr:languages`
+  private readonly LANG_PATH = process.env.OCR_LANG_PATH || path.join(process.cwd(), 'tessdata');
+  private readonly LANG_GZIP = process.env.OCR_LANG_GZIP === 'true';
+
+  async process(filePath: string, options?: ProcessorOptions): Promise<ProcessorResult> {
     try {
-      // Use Tesseract for OCR
-      const result = await Tesseract.recognize(filePath, 'eng+ara', {
-        logger: (info) => console.log(info)
-      });
+      const result = await this.recognize(filePath, options?.ocrLanguages);
+      const lowConfidence = result.confidence < parseFloat(process.env.OCR_LOW_CONFIDENCE || '60');
 
       return {
-        text: result.data.text,
+        text: result.text,
         metadata: {
-          confidence: result.data.confidence,
-          language: result.data.language
-        }
+          confidence: result.confidence,
+          language: result.language,
+          script: result.script
+        },
+        segments: segmentPlainText(result.text, 1).map(segment => ({
+          ...segment,
+          ocrConfidence: result.confidence,
+          language: result.language,
+          script: result.script
+        })),
+        warnings: lowConfidence
+          ? [`Low OCR confidence (${Math.round(result.confidence)}%); check the extracted text`]
+          : []
       };
     } catch (error) {
       console.error('Image processing error:', error);
-      throw new Error('Failed to process image file');
+      if (error instanceof DocumentProcessingError) {
+        throw error;
+      }
+      throw new DocumentProcessingError('ocr_failure', 'Failed to process image file');
+    }
+  }
+
+  /**
+   * OCR an image file or an in-memory image (e.g. a picture embedded in a slide)
+   */
+  async recognize(image: string | Buffer, languages: DocumentLanguage[] = ['en', 'ar']): Promise<OcrResult> {
+    const selected = languages.length > 0 ? languages : ['en', 'ar'] as DocumentLanguage[];
+    const codes = selected.map(l => TESSERACT_LANGUAGES[l]);
+    await this.assertLanguageData(codes);
+
+    // Use Tesseract for OCR
+    const result = await Tesseract.recognize(image, codes.join('+'), {
+      langPath: this.LANG_PATH,
+      gzip: this.LANG_GZIP,
+      cacheMethod: 'none',
+      logger: (info) => console.log(info)
+    });
+
+    const text = result.data.text;
+    const script = this.detectScript(text);
+
+    return {
+      text,
+      confidence: result.data.confidence,
+      script,
+      language: this.languageForScript(script, text, selected)
+    };
+  }
+
+  // Tesseract reports a missing language file only as a failed worker start
+  private async assertLanguageData(codes: string[]): Promise<void> {
+    const extension = this.LANG_GZIP ? '.traineddata.gz' : '.traineddata';
+    const missing: string[] = [];
+
+    for (const code of codes) {
+      await fs.access(path.join(this.LANG_PATH, `${code}${extension}`)).catch(() => missing.push(code));
+    }
+
+    if (missing.length > 0) {
+      throw new DocumentProcessingError(
+        'ocr_failure',
+        `OCR language data missing in ${this.LANG_PATH}: ${missing.join(', ')}; run npm run ocr:languages`
+      );
+    }
+  }
+
+  private detectScript(text: string): OcrResult['script'] {
+    const arabic = (text.match(/[\u0600-\u06FF]/g) || []).length;
+    const latin = (text.match(/[A-Za-zÀ-ÿ]/g) || []).length;
+
+    if (arabic === 0 && latin === 0) return 'Unknown';
+    return arabic > latin ? 'Arabic' : 'Latin';
+  }
+
+  /**
+   * Pick the document language that matches the recognised script; German vs
+   * English is decided by umlauts and common words among the selected languages
+   */
+  private languageForScript(script: OcrResult['script'], text: string, languages: DocumentLanguage[]): DocumentLanguage {
+    if (script === 'Arabic') return 'ar';
+
+    const latin = languages.filter(l => l !== 'ar');
+    if (latin.length === 0) return languages[0];
+    if (latin.length === 1) return latin[0];
+
+    const german = (text.match(GERMAN_HINTS) || []).length;
+    const english = (text.match(ENGLISH_HINTS) || []).length;
+    return german > english ? 'de' : latin.includes('en') ? 'en' : latin[0];
+  }
+}
+
+// wmlab/backend/src/services/documentProcessors/pptxProcessor.ts
+import JSZip from 'jszip';
+import path from 'path';
+import fs from 'fs/promises';
+import { DocumentSegment, ProcessorOptions, ProcessorResult } from './index';
+import { ImageProcessor } from './imageProcessor';
+import { DocumentProcessingError } from './processingFailure';
+
+const TITLE_PLACEHOLDER = /<p:ph\b[^>]*type="(?:title|ctrTitle)"/;
+// Slide number, date and footer placeholders repeat on every slide
+const FURNITURE_PLACEHOLDER = /<p:ph\b[^>]*type="(?:sldNum|dt|ftr|hdr)"/;
+const BODY_PLACEHOLDER = /<p:ph\b[^>]*type="body"/;
+
+interface SlideContent {
+  number: number;
+  title: string;
+  body: string[];
+  tables: string[];
+  notes: string;
+  ocrText: string;
+}
+
+export class PPTXProcessor {
+  private imageProcessor = new ImageProcessor();
+
+  async process(filePath: string, options?: ProcessorOptions): Promise<ProcessorResult> {
+    try {
+      const zip = await JSZip.loadAsync(await fs.readFile(filePath));
+      const slidePaths = await this.getSlidePaths(zip);
+      const slides: SlideContent[] = [];
+
+      for (let i = 0; i < slidePaths.length; i++) {
+        slides.push(await this.readSlide(zip, slidePaths[i], i + 1, options));
+      }
+
+      const segments: DocumentSegment[] = [];
+      const texts: string[] = [];
+
+      // One heading and one segment per slide, with the slide number as page
+      for (const slide of slides) {
+        if (slide.title) {
+          segments.push({ type: 'heading', text: slide.title, level: 1, page: slide.number });
+        }
+
+        const parts = [...slide.body, ...slide.tables];
+        if (slide.ocrText) {
+          parts.push(slide.ocrText);
+        }
+        if (slide.notes) {
+          parts.push(`Speaker notes:\n${slide.notes}`);
+        }
+
+        const text = parts.join('\n\n').trim();
+        if (text) {
+          segments.push({ type: 'text', text, page: slide.number });
+        }
+        texts.push([slide.title, text].filter(Boolean).join('\n\n'));
+      }
+
+      return {
+        text: texts.join('\n\n'),
+        metadata: {
+          slides: slides.length,
+          slidesWithNotes: slides.filter(s => s.notes).length,
+          ocrSlides: slides.filter(s => s.ocrText).map(s => s.number)
+        },
+        pages: slides.length,
+        segments
+      };
+    } catch (error) {
+      if (error instanceof DocumentProcessingError) {
+        throw error;
+      }
+      console.error('PowerPoint processing error:', error);
+      throw new Error('Failed to process PowerPoint file');
     }
   }
+
+  /**
+   * Slide part paths in presentation order (file names do not follow reordering)
+   */
+  private async getSlidePaths(zip: JSZip): Promise<string[]> {
+    const presentation = await zip.file('ppt/presentation.xml')?.async('string');
+    if (!presentation) {
+      throw new Error('Not a PowerPoint presentation');
+    }
+
+    const rels = await this.readRelationships(zip, 'ppt/presentation.xml');
+    const slideIds = [...presentation.matchAll(/<p:sldId\b[^>]*r:id="([^"]+)"/g)].map(([, id]) => id);
+
+    return slideIds
+      .map(id => rels.get(id)?.target)
+      .filter((target): target is string => !!target);
+  }
+
+  private async readSlide(
+    zip: JSZip,
+    slidePath: string,
+    number: number,
+    options?: ProcessorOptions
+  ): Promise<SlideContent> {
+    const xml = (await zip.file(slidePath)?.async('string')) || '';
+    const rels = await this.readRelationships(zip, slidePath);
+    const slide: SlideContent = { number, title: '', body: [], tables: [], notes: '', ocrText: '' };
+
+    for (const [shape] of xml.matchAll(/<p:sp\b[^>]*>[\s\S]*?<\/p:sp>/g)) {
+      if (FURNITURE_PLACEHOLDER.test(shape)) {
+        continue;
+      }
+
+      const text = this.paragraphs(shape).join('\n').trim();
+      if (!text) {
+        continue;
+      }
+
+      if (!slide.title && TITLE_PLACEHOLDER.test(shape)) {
+        slide.title = text.replace(/\s*\n\s*/g, ' ');
+      } else {
+        slide.body.push(text);
+      }
+    }
+
+    for (const [table] of xml.matchAll(/<a:tbl>[\s\S]*?<\/a:tbl>/g)) {
+      const rows = [...table.matchAll(/<a:tr\b[^>]*>([\s\S]*?)<\/a:tr>/g)].map(([, row]) =>
+        [...row.matchAll(/<a:tc\b[^>]*>([\s\S]*?)<\/a:tc>/g)]
+          .map(([, cell]) => this.paragraphs(cell).join(' ').trim())
+          .join(' | ')
+      );
+      if (rows.length > 0) {
+        slide.tables.push(rows.join('\n'));
+      }
+    }
+
+    const notesRel = [...rels.values()].find(rel => rel.type.endsWith('/notesSlide'));
+    if (notesRel) {
+      const notesXml = (await zip.file(notesRel.target)?.async('string')) || '';
+      slide.notes = [...notesXml.matchAll(/<p:sp\b[^>]*>[\s\S]*?<\/p:sp>/g)]
+        .filter(([shape]) => BODY_PLACEHOLDER.test(shape))
+        .map(([shape]) => this.paragraphs(shape).join('\n').trim())
+        .filter(Boolean)
+        .join('\n');
+    }
+
+    // Image-only slides (scanned pages, screenshots of procedures) go through OCR
+    if (!slide.title && slide.body.length === 0 && slide.tables.length === 0) {
+      slide.ocrText = await this.ocrImages(
+        zip,
+        [...rels.values()].filter(rel => rel.type.endsWith('/image')),
+        options
+      );
+    }
+
+    return slide;
+  }
+
+  private async ocrImages(
+    zip: JSZip,
+    images: Array<{ target: string }>,
+    options?: ProcessorOptions
+  ): Promise<string> {
+    const texts: string[] = [];
+
+    for (const image of images) {
+      const data = await zip.file(image.target)?.async('nodebuffer');
+      if (!data) {
+        continue;
+      }
+
+      try {
+        const { text } = await this.imageProcessor.recognize(data, options?.ocrLanguages);
+        if (text.trim()) {
+          texts.push(text.trim());
+        }
+      } catch (error) {
+        console.error(`OCR failed for ${image.target}:`, error);
+        throw new DocumentProcessingError(
+          'ocr_failure',
+          `OCR failed for ${image.target}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return texts.join('\n\n');
+  }
+
+  /**
+   * Relationships of a part, with targets resolved to paths inside the archive
+   */
+  private async readRelationships(zip: JSZip, partPath: string): Promise<Map<string, { type: string; target: string }>> {
+    const dir = path.posix.dirname(partPath);
+    const relsPath = path.posix.join(dir, '_rels', `${path.posix.basename(partPath)}.rels`);
+    const xml = (await zip.file(relsPath)?.async('string')) || '';
+    const rels = new Map<string, { type: string; target: string }>();
+
+    for (const [relationship] of xml.matchAll(/<Relationship\b[^>]*\/?>/g)) {
+      const id = relationship.match(/\bId="([^"]+)"/)?.[1];
+      const type = relationship.match(/\bType="([^"]+)"/)?.[1] || '';
+      const target = relationship.match(/\bTarget="([^"]+)"/)?.[1];
+      if (!id || !target || /TargetMode="External"/.test(relationship)) {
+        continue;
+      }
+
+      rels.set(id, {
+        type,
+        target: target.startsWith('/') ? target.substring(1) : path.posix.normalize(path.posix.join(dir, target))
+      });
+    }
+
+    return rels;
+  }
+
+  /**
+   * Text of each <a:p> paragraph in a DrawingML fragment
+   */
+  private paragraphs(xml: string): string[] {
+    return [...xml.matchAll(/<a:p(?:\s[^>]*[^/])?>([\s\S]*?)<\/a:p>/g)]
+      .map(([, paragraph]) =>
+        [...paragraph.matchAll(/<a:t\b[^>]*>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>/g)]
+          .map(([, text]) => text === undefined ? '\n' : this.decodeXml(text))
+          .join('')
+      )
+      .filter(text => text.trim());
+  }
+
+  private decodeXml(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+// backend/src/services/documentProcessors/processingFailure.ts
+import { AppError } from '../../utils/errors';
+
+export const PROCESSING_FAILURE_CATEGORIES = [
+  'unsupported_format',
+  'corrupt_file',
+  'ocr_failure',
+  'embedding_rate_limit',
+  'database_error',
+  'unknown'
+] as const;
+
+export type ProcessingFailureCategory = typeof PROCESSING_FAILURE_CATEGORIES[number];
+
+// Retrying cannot fix the file itself; these go to the dead-letter queue at once
+const PERMANENT_CATEGORIES: ProcessingFailureCategory[] = ['unsupported_format', 'corrupt_file'];
+
+// pdf.js (inside pdf-parse) names the exceptions it raises for malformed PDFs
+const PDF_FORMAT_ERRORS = ['InvalidPDFException', 'FormatError', 'PasswordException'];
+
+// JSZip (also behind mammoth) and mammoth only describe the problem in the message
+const ARCHIVE_FORMAT_ERROR = /corrupted zip|end of central directory|is this a zip file|encrypted zip|multi-volumes zip|end of data reached|could not find main document part/i;
+
+/**
+ * Processing failure with a known cause, thrown where the cause is known
+ * (e.g. no processor for the MIME type)
+ */
+export class DocumentProcessingError extends AppError {
+  public readonly category: ProcessingFailureCategory;
+
+  constructor(category: ProcessingFailureCategory, message: string) {
+    super(message, 422, 'DOCUMENT_PROCESSING_FAILED');
+    this.category = category;
+  }
+}
+
+/**
+ * Failure category of an error thrown while processing a document
+ */
+export function classifyProcessingError(error: unknown): ProcessingFailureCategory {
+  if (error instanceof DocumentProcessingError) {
+    return error.category;
+  }
+
+  const details = error as { name?: string; code?: string; status?: number; message?: string } | undefined;
+
+  // OpenAI and HTTP providers report 429; the SDK uses a RateLimitError class
+  if (details?.status === 429 || details?.code === 'rate_limit_exceeded' || details?.name === 'RateLimitError') {
+    return 'embedding_rate_limit';
+  }
+
+  // Prisma client errors and Postgres error codes such as P2002
+  if (details?.name?.startsWith('PrismaClient') || /^P\d{4}$/.test(details?.code ?? '')) {
+    return 'database_error';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Whether a parser rejected the file itself, as opposed to failing for a
+ * reason a retry may fix (I/O, memory, a bug)
+ */
+export function isFileFormatError(error: unknown): boolean {
+  const details = error as { name?: string; message?: string } | undefined;
+  return PDF_FORMAT_ERRORS.includes(details?.name ?? '') || ARCHIVE_FORMAT_ERROR.test(details?.message ?? '');
+}
+
+export function isRetryable(category: ProcessingFailureCategory): boolean {
+  return !PERMANENT_CATEGORIES.includes(category);
+}
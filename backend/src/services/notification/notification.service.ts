@@ -0,0 +1,85 @@
+// backend/src/services/notification/notification.service.ts
+
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import { NotFoundError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+export type NotificationType = 'document_review_due' | 'document_expired';
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  body: string;
+  documentId?: string;
+}
+
+/**
+ * In-app notifications, shown to the user until they are read
+ * يدير إشعارات المستخدمين داخل التطبيق
+ */
+export class NotificationService {
+  private prisma: TenantPrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Notify a user
+   * يرسل إشعاراً إلى مستخدم
+   */
+  async notify(userId: string, input: NotificationInput) {
+    const notification = await this.prisma.notification.create({
+      data: {
+        userId,
+        type: input.type,
+        title: input.title,
+        body: input.body,
+        documentId: input.documentId
+      }
+    });
+
+    logger.info(`Notified user ${userId}: ${input.type}${input.documentId ? ` (${input.documentId})` : ''}`);
+    return notification;
+  }
+
+  /**
+   * A user's notifications, newest first
+   * يعرض إشعارات المستخدم
+   */
+  async list(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}) {
+    const where = { userId, ...(options.unreadOnly ? { readAt: null } : {}) };
+
+    const [notifications, unread] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: options.limit ?? 50
+      }),
+      this.prisma.notification.count({ where: { userId, readAt: null } })
+    ]);
+
+    return { notifications, unread };
+  }
+
+  async markRead(userId: string, notificationId: string) {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { id: notificationId, userId },
+      data: { readAt: new Date() }
+    });
+
+    if (count === 0) {
+      throw new NotFoundError('Notification');
+    }
+  }
+
+  async markAllRead(userId: string): Promise<number> {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() }
+    });
+    return count;
+  }
+}
+
+export const notificationService = new NotificationService();
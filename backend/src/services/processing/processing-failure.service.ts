@@ -0,0 +1,178 @@
+// backend/src/services/processing/processing-failure.service.ts
+
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import { ProcessingFailureCategory } from '../documentProcessors/processingFailure';
+import { documentQueue } from '../queue/documentQueue';
+import { getDeadLetter, removeDeadLetter } from '../queue/deadLetterQueue';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+
+/**
+ * Dead-lettered documents to act on: the given ids, or every one in a category
+ */
+export interface FailureSelection {
+  documentIds?: string[];
+  category?: ProcessingFailureCategory;
+}
+
+export interface BulkFailureResult {
+  /** Documents acted on */
+  documentIds: string[];
+  /** Requested documents that are not dead-lettered */
+  skipped: string[];
+}
+
+const FAILURE_SELECT = {
+  id: true,
+  title: true,
+  originalName: true,
+  mimeType: true,
+  size: true,
+  warehouseId: true,
+  status: true,
+  failureCategory: true,
+  processingError: true,
+  processingAttempts: true,
+  deadLetteredAt: true,
+  updatedAt: true
+};
+
+/**
+ * Triage of documents whose processing failed after all retries: list them
+ * by failure category, inspect the dead-letter entry, retry or discard them
+ * يدير المستندات التي فشلت معالجتها
+ */
+export class ProcessingFailureService {
+  private prisma: TenantPrismaClient;
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Dead-lettered documents, newest first, with counts per category
+   * يعرض المستندات الفاشلة
+   */
+  async list(options: { category?: ProcessingFailureCategory; page?: number; limit?: number } = {}) {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+    const where = {
+      deadLetteredAt: { not: null },
+      ...(options.category ? { failureCategory: options.category } : {})
+    };
+
+    const [documents, total, categories] = await Promise.all([
+      this.prisma.document.findMany({
+        where,
+        select: FAILURE_SELECT,
+        orderBy: { deadLetteredAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.document.count({ where }),
+      this.prisma.document.groupBy({
+        by: ['failureCategory'],
+        where: { deadLetteredAt: { not: null } },
+        _count: { _all: true }
+      })
+    ]);
+
+    return {
+      documents,
+      categories: Object.fromEntries(
+        categories.map((row: any) => [row.failureCategory ?? 'unknown', row._count._all])
+      ),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * A failed document with its dead-letter entry: error, stack and attempts
+   * يعرض تفاصيل فشل المستند
+   */
+  async inspect(documentId: string) {
+    const document = await this.prisma.document.findUnique({
+      where: { id: documentId },
+      select: FAILURE_SELECT
+    });
+
+    if (!document) {
+      throw new NotFoundError('Document');
+    }
+
+    return { document, deadLetter: await getDeadLetter(documentId) };
+  }
+
+  /**
+   * Queue the documents again from the start, with a fresh set of retries
+   * يعيد معالجة المستندات الفاشلة
+   */
+  async retry(selection: FailureSelection): Promise<BulkFailureResult> {
+    const result = await this.select(selection);
+
+    for (const documentId of result.documentIds) {
+      const entry = await getDeadLetter(documentId);
+
+      await this.prisma.document.update({
+        where: { id: documentId },
+        data: {
+          status: 'pending',
+          processingProgress: 0,
+          processingError: null,
+          failureCategory: null,
+          processingAttempts: 0,
+          deadLetteredAt: null
+        }
+      });
+      await documentQueue.add(entry?.jobName ?? 'process-document', entry?.jobData ?? { documentId });
+      await removeDeadLetter(documentId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Drop the documents from the dead-letter queue; they stay failed
+   * يزيل المستندات من قائمة الفشل
+   */
+  async discard(selection: FailureSelection): Promise<BulkFailureResult> {
+    const result = await this.select(selection);
+
+    if (result.documentIds.length > 0) {
+      await this.prisma.document.updateMany({
+        where: { id: { in: result.documentIds } },
+        data: { deadLetteredAt: null }
+      });
+      await Promise.all(result.documentIds.map(documentId => removeDeadLetter(documentId)));
+    }
+
+    return result;
+  }
+
+  private async select(selection: FailureSelection): Promise<BulkFailureResult> {
+    if (!selection.documentIds?.length && !selection.category) {
+      throw new ValidationError('Select documents by id or by failure category');
+    }
+
+    const documents = await this.prisma.document.findMany({
+      where: {
+        deadLetteredAt: { not: null },
+        ...(selection.documentIds?.length ? { id: { in: selection.documentIds } } : {}),
+        ...(selection.category ? { failureCategory: selection.category } : {})
+      },
+      select: { id: true }
+    });
+
+    const documentIds = documents.map((document: { id: string }) => document.id);
+    return {
+      documentIds,
+      skipped: (selection.documentIds ?? []).filter(id => !documentIds.includes(id))
+    };
+  }
+}
+
+export const processingFailureService = new ProcessingFailureService();
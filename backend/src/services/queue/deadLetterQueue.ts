@@ -0,0 +1,55 @@
+// backend/src/services/queue/deadLetterQueue.ts
+import Bull from 'bull';
+import { ProcessingFailureCategory } from '../documentProcessors/processingFailure';
+import { logger } from '../../utils/logger';
+
+export interface DeadLetterEntry {
+  documentId: string;
+  /** Job that failed, so a retry can run it again */
+  jobName: string;
+  jobData: Record<string, any>;
+  category: ProcessingFailureCategory;
+  error: string;
+  stack?: string;
+  attempts: number;
+  failedAt: string;
+}
+
+const redisConfig = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD,
+};
+
+// Never processed: entries wait, one per document, until an admin retries or discards them
+export const deadLetterQueue = new Bull<DeadLetterEntry>('document-dead-letter', {
+  redis: redisConfig,
+  defaultJobOptions: {
+    removeOnComplete: true,
+    removeOnFail: false,
+  },
+});
+
+export async function getDeadLetter(documentId: string): Promise<DeadLetterEntry | null> {
+  const job = await deadLetterQueue.getJob(documentId);
+  return job ? job.data : null;
+}
+
+/**
+ * Park a job whose retries are exhausted, replacing an earlier entry of the document
+ */
+export async function addDeadLetter(entry: DeadLetterEntry): Promise<void> {
+  await removeDeadLetter(entry.documentId);
+  await deadLetterQueue.add('dead-letter', entry, { jobId: entry.documentId });
+
+  logger.warn(`Document ${entry.documentId} dead-lettered after ${entry.attempts} attempts (${entry.category}): ${entry.error}`);
+}
+
+export async function removeDeadLetter(documentId: string): Promise<boolean> {
+  const job = await deadLetterQueue.getJob(documentId);
+  if (!job) {
+    return false;
+  }
+  await job.remove();
+  return true;
+}
@@ -3,6 +3,9 @@ import Bull from 'bull';
 import { DocumentProcessor } from '../documentProcessors';
 import { EmbeddingService } from '../embeddings/embeddingService';
 import { prisma } from '../../lib/prisma';
+import { systemJob } from '../../lib/tenant-context';
+import { classifyProcessingError, isRetryable } from '../documentProcessors/processingFailure';
+import { addDeadLetter } from './deadLetterQueue';
 import Redis from 'ioredis';
 
 // Create Redis connection
@@ -31,7 +34,7 @@ const documentProcessor = new DocumentProcessor();
 const embeddingService = new EmbeddingService();
 
 // Process documents
-documentQueue.process('process-document', async (job) => {
+documentQueue.process('process-document', systemJob(async (job) => {
   const { documentId } = job.data;
   console.log(`Processing document: ${documentId}`);
 
@@ -40,25 +43,65 @@ documentQueue.process('process-document', async (job) => {
     await job.progress(10);
 
     // Process document
-    await documentProcessor.process(documentId);
+    const processed = await documentProcessor.process(documentId);
     
     await job.progress(50);
 
     // Generate embeddings
     await embeddingService.generateDocumentEmbeddings(documentId);
+
+    // Only an embedded version becomes current; until then, and if embedding
+    // fails, search keeps serving the previous one
+    await documentProcessor.promote(documentId, processed);
     
     await job.progress(100);
 
+    await prisma.document.update({
+      where: { id: documentId },
+      data: { processingAttempts: 0, deadLetteredAt: null },
+    });
+
     console.log(`Document ${documentId} processed successfully`);
     return { success: true, documentId };
   } catch (error) {
     console.error(`Error processing document ${documentId}:`, error);
+
+    // Permanent failures skip the remaining retries
+    const category = classifyProcessingError(error);
+    const attempts = job.attemptsMade + 1;
+    const exhausted = !isRetryable(category) || attempts >= (job.opts.attempts || 1);
+    const message = error instanceof Error ? error.message : 'Processing failed';
+
+    await prisma.document.update({
+      where: { id: documentId },
+      data: {
+        status: 'failed',
+        processingError: message,
+        failureCategory: category,
+        processingAttempts: attempts,
+        deadLetteredAt: exhausted ? new Date() : null,
+      },
+    }).catch(updateError => console.error(`Failed to record the failure of document ${documentId}:`, updateError));
+
+    if (exhausted) {
+      job.discard();
+      await addDeadLetter({
+        documentId,
+        jobName: job.name,
+        jobData: job.data,
+        category,
+        error: message,
+        stack: error instanceof Error ? error.stack : undefined,
+        attempts,
+        failedAt: new Date().toISOString(),
+      });
+    }
     throw error;
   }
-});
+}));
 
 // Process embeddings separately for better performance
-documentQueue.process('generate-embeddings', async (job) => {
+documentQueue.process('generate-embeddings', systemJob(async (job) => {
   const { chunkIds } = job.data;
   console.log(`Generating embeddings for ${chunkIds.length} chunks`);
 
@@ -69,7 +112,7 @@ documentQueue.process('generate-embeddings', async (job) => {
     console.error('Error generating embeddings:', error);
     throw error;
   }
-});
+}));
 
 // Event handlers
 documentQueue.on('completed', (job, result) => {
@@ -91,43 +134,50 @@ export async function queueDocumentForProcessing(documentId: string) {
 }
 
 // wmlab/backend/src/services/embeddings/embeddingService.ts
-import { OpenAI } from 'openai';
 import { prisma } from '../../lib/prisma';
 import { chunk as chunkArray } from 'lodash';
+import { EmbeddingProvider } from '../ai/providers';
+import { EmbeddingIndexService } from '../ai/embedding-index.service';
 
 export class EmbeddingService {
-  private openai: OpenAI;
-  private model: string;
+  private indexService: EmbeddingIndexService;
 
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-    this.model = process.env.EMBEDDING_MODEL || 'text-embedding-3-small';
+    this.indexService = new EmbeddingIndexService();
   }
 
   async generateDocumentEmbeddings(documentId: string): Promise<void> {
     try {
-      // Get all chunks for the document
-      const chunks = await prisma.chunk.findMany({
-        where: { documentId },
-        orderBy: { chunkIndex: 'asc' },
-      });
-
-      if (chunks.length === 0) {
+      const total = await prisma.chunk.count({ where: { documentId } });
+      if (total === 0) {
         throw new Error('No chunks found for document');
       }
 
-      // Process chunks in batches to avoid rate limits
-      const batchSize = 20;
-      const batches = chunkArray(chunks, batchSize);
+      // The active index and any index being built, so a model switch never
+      // misses the document. Only chunks without a vector of the model; chunks
+      // unchanged since the previous version already have copies of theirs
+      const work: { provider: EmbeddingProvider; batch: any[] }[] = [];
+      for (const provider of await this.indexService.getWriteProviders()) {
+        const chunks = await prisma.chunk.findMany({
+          where: {
+            documentId,
+            embeddings: { none: { model: provider.modelId } },
+          },
+          orderBy: { chunkIndex: 'asc' },
+        });
+
+        // Process chunks in batches to avoid rate limits
+        for (const batch of chunkArray(chunks, 20)) {
+          work.push({ provider, batch });
+        }
+      }
 
-      for (const batch of batches) {
-        await this.processBatch(batch);
+      for (const [done, { provider, batch }] of work.entries()) {
+        await this.processBatch(batch, provider);
         
         // Update progress
         const progress = Math.round(
-          (batches.indexOf(batch) + 1) / batches.length * 100
+          (done + 1) / work.length * 100
         );
         await prisma.document.update({
           where: { id: documentId },
@@ -150,43 +200,36 @@ export class EmbeddingService {
     });
 
     const batches = chunkArray(chunks, 20);
-    for (const batch of batches) {
-      await this.processBatch(batch);
-      await this.delay(1000);
+    for (const provider of await this.indexService.getWriteProviders()) {
+      for (const batch of batches) {
+        await this.processBatch(batch, provider);
+        await this.delay(1000);
+      }
     }
   }
 
-  private async processBatch(chunks: any[]): Promise<void> {
+  private async processBatch(chunks: any[], provider: EmbeddingProvider): Promise<void> {
     try {
       const texts = chunks.map(chunk => chunk.content);
       
       // Generate embeddings
-      const response = await this.openai.embeddings.create({
-        model: this.model,
-        input: texts,
-        encoding_format: 'float',
-      });
-
-      // Save embeddings to database
-      const embeddings = response.data.map((item, index) => ({
-        chunkId: chunks[index].id,
-        embedding: item.embedding,
-        model: this.model,
-        dimensions: item.embedding.length,
-      }));
+      const vectors = await provider.embedBatch(texts);
+      const { modelId } = provider;
 
       // Use transaction to ensure consistency
       await prisma.$transaction([
-        // Delete existing embeddings
+        // Delete existing embeddings for this model only
         prisma.embedding.deleteMany({
           where: {
             chunkId: { in: chunks.map(c => c.id) },
+            model: modelId,
           },
         }),
-        // Create new embeddings
-        prisma.embedding.createMany({
-          data: embeddings,
-        }),
+        // Create new embeddings tagged with model and dimensions
+        ...vectors.map((vector, index) => prisma.$executeRaw`
+          INSERT INTO embeddings (id, chunk_id, embedding, model, dimensions, created_at)
+          VALUES (gen_random_uuid(), ${chunks[index].id}, ${`[${vector.join(',')}]`}::vector, ${modelId}, ${vector.length}, NOW())
+        `),
       ]);
 
     } catch (error) {
@@ -203,22 +246,19 @@ export class EmbeddingService {
   async searchSimilar(query: string, limit: number = 10, filters?: any): Promise<any[]> {
     try {
       // Generate embedding for query
-      const response = await this.openai.embeddings.create({
-        model: this.model,
-        input: query,
-      });
-
-      const queryEmbedding = response.data[0].embedding;
+      const provider = await this.indexService.getActiveProvider();
+      const queryEmbedding = await provider.embed(query);
 
       // Build SQL query for vector similarity search
       // Using pgvector's <-> operator for cosine distance
-      let whereClause = '';
-      const params: any[] = [JSON.stringify(queryEmbedding), limit];
+      const params: any[] = [JSON.stringify(queryEmbedding), limit, provider.modelId];
 
+      // Only the current version of each document is searched, or for
+      // approvedOnly the last approved one
+      const conditions = [filters?.approvedOnly ? 'c.version = d.approved_version' : 'c.version = d.version'];
       if (filters) {
-        const conditions = [];
         if (filters.warehouseId) {
-          conditions.push(`d."warehouseId" = $${params.length + 1}`);
+          conditions.push(`d.warehouse_id = $${params.length + 1}`);
           params.push(filters.warehouseId);
         }
         if (filters.category) {
@@ -226,28 +266,25 @@ export class EmbeddingService {
           params.push(filters.category);
         }
         if (filters.language) {
-          conditions.push(`d.language = $${params.length + 1}`);
+          conditions.push(`COALESCE(c.metadata->>'language', d.language) = $${params.length + 1}`);
           params.push(filters.language);
         }
-        
-        if (conditions.length > 0) {
-          whereClause = `WHERE ${conditions.join(' AND ')}`;
-        }
       }
+      const whereClause = `WHERE ${conditions.join(' AND ')}`;
 
       const query = `
         SELECT 
           c.id,
-          c."documentId",
+          c.document_id as "documentId",
           c.content,
           c.metadata,
           d.title as "documentTitle",
           d.category,
-          d."originalName",
+          d.original_name as "originalName",
           1 - (e.embedding <-> $1::vector) as similarity
         FROM chunks c
-        JOIN embeddings e ON e."chunkId" = c.id
-        JOIN documents d ON d.id = c."documentId"
+        JOIN embeddings e ON e.chunk_id = c.id AND e.model = $3
+        JOIN documents d ON d.id = c.document_id
         ${whereClause}
         ORDER BY e.embedding <-> $1::vector
         LIMIT $2
@@ -0,0 +1,123 @@
+// backend/src/services/queue/embeddingMigrationQueue.ts
+import Bull from 'bull';
+import { EmbeddingService } from '../ai/embedding.service';
+import { EmbeddingIndexService, EmbeddingIndexTarget } from '../ai/embedding-index.service';
+import { ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { systemJob } from '../../lib/tenant-context';
+
+interface EmbeddingMigrationJob {
+  indexId: string;
+  autoActivate: boolean;
+}
+
+const redisConfig = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD,
+};
+
+// One migration at a time; retries resume from the chunks still missing a vector
+export const embeddingMigrationQueue = new Bull<EmbeddingMigrationJob>('embedding-migration', {
+  redis: redisConfig,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: false,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 10000,
+    },
+  },
+});
+
+const embeddingService = new EmbeddingService();
+const indexService = new EmbeddingIndexService();
+
+const BATCH_SIZE = parseInt(process.env.EMBEDDING_MIGRATION_BATCH_SIZE || '100');
+const BATCH_DELAY_MS = parseInt(process.env.EMBEDDING_MIGRATION_DELAY_MS || '500');
+
+embeddingMigrationQueue.process('migrate', 1, systemJob(async (job) => {
+  const { indexId, autoActivate } = job.data;
+  let index = await indexService.getIndex(indexId);
+  const provider = indexService.getProvider(index);
+  const skipChunkIds: string[] = [];
+
+  logger.info(`Embedding migration to ${index.modelId} started (job ${job.id})`);
+
+  while (true) {
+    // Cancellation is recorded on the index so any API process can request it
+    index = await indexService.getIndex(indexId);
+    if (index.status !== 'building') {
+      logger.info(`Embedding migration to ${index.modelId} stopped: index is ${index.status}`);
+      return { indexId, status: index.status };
+    }
+
+    const batch = await embeddingService.embedMissingChunks(provider, BATCH_SIZE, skipChunkIds);
+    if (batch.processed === 0 && batch.failed === 0) {
+      break;
+    }
+
+    index = await indexService.recordProgress(indexId, batch);
+    const done = index.processedChunks + index.failedChunks;
+    await job.progress(index.totalChunks > 0 ? Math.min(99, Math.floor((done / index.totalChunks) * 100)) : 99);
+
+    await new Promise(resolve => setTimeout(resolve, BATCH_DELAY_MS));
+  }
+
+  const validation = await embeddingService.validateEmbeddings(undefined, provider);
+  if (validation.invalid > 0 || validation.missing > 0) {
+    const message = `${validation.missing} chunks missing and ${validation.invalid} invalid vectors for ${index.modelId}`;
+    if (job.attemptsMade + 1 >= (job.opts.attempts || 1)) {
+      await indexService.markFailed(indexId, message);
+    }
+    throw new Error(message);
+  }
+
+  await job.progress(100);
+
+  if (autoActivate) {
+    await indexService.activate(indexId);
+  }
+
+  logger.info(
+    `Embedding migration to ${index.modelId} finished: ${validation.valid} vectors, ` +
+    `${index.tokensUsed} tokens, $${index.estimatedCost.toFixed(4)}`
+  );
+  return { indexId, status: autoActivate ? 'active' : 'building', valid: validation.valid };
+}));
+
+embeddingMigrationQueue.on('failed', (job, err) => {
+  logger.error(`Embedding migration job ${job.id} failed:`, err);
+});
+
+/**
+ * Register a new index and queue the job that fills it
+ */
+export async function queueEmbeddingMigration(
+  target: EmbeddingIndexTarget,
+  userId?: string,
+  autoActivate: boolean = true
+) {
+  const index = await indexService.createIndex(target, userId);
+  const job = await embeddingMigrationQueue.add('migrate', { indexId: index.id, autoActivate });
+  await indexService.setJobId(index.id, String(job.id));
+  return { ...index, jobId: String(job.id) };
+}
+
+/**
+ * Switch search to a fully built index after re-checking every chunk has a valid vector
+ */
+export async function activateEmbeddingIndex(indexId: string) {
+  const index = await indexService.getIndex(indexId);
+  const validation = await embeddingService.validateEmbeddings(undefined, indexService.getProvider(index));
+
+  if (validation.invalid > 0 || validation.missing > 0) {
+    throw new ValidationError(
+      `Embedding index ${index.modelId} is incomplete`,
+      validation.errors.slice(0, 20)
+    );
+  }
+
+  return indexService.activate(indexId);
+}
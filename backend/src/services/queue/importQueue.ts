@@ -0,0 +1,84 @@
+// backend/src/services/queue/importQueue.ts
+import Bull from 'bull';
+import fs from 'fs/promises';
+import { bulkImportService, ImportOptions, ImportReport } from '../upload/bulk-import.service';
+import { queueDocumentForProcessing } from './documentQueue';
+import { NotFoundError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { systemJob } from '../../lib/tenant-context';
+
+interface ImportJob {
+  /** Uploaded archive on local disk; removed when the job ends */
+  zipPath: string;
+  options: Omit<ImportOptions, 'onProgress'>;
+}
+
+const redisConfig = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD,
+};
+
+// A retry would import the files that already succeeded a second time
+export const importQueue = new Bull<ImportJob>('document-import', {
+  redis: redisConfig,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: false,
+    attempts: 1,
+  },
+});
+
+importQueue.process('import', 1, systemJob(async (job) => {
+  const { zipPath, options } = job.data;
+
+  logger.info(`Archive import into warehouse ${options.warehouseId} started (job ${job.id})`);
+
+  try {
+    const report = await bulkImportService.import(zipPath, {
+      ...options,
+      onProgress: (processed, total) => job.progress(Math.min(99, Math.floor((processed / total) * 100))),
+    });
+
+    for (const documentId of report.documentIds) {
+      await queueDocumentForProcessing(documentId);
+    }
+
+    await job.progress(100);
+    logger.info(`Archive import job ${job.id} finished: ${report.counts.created} of ${report.total} files imported`);
+    return report;
+  } finally {
+    await fs.unlink(zipPath).catch(() => {});
+  }
+}));
+
+importQueue.on('failed', (job, err) => {
+  logger.error(`Archive import job ${job.id} failed:`, err);
+});
+
+/**
+ * Queue the import of an uploaded archive; the job id is the report id
+ */
+export async function queueImport(zipPath: string, options: Omit<ImportOptions, 'onProgress'>): Promise<string> {
+  const job = await importQueue.add('import', { zipPath, options });
+  return String(job.id);
+}
+
+/**
+ * State of an import and, once it has finished, its report
+ */
+export async function getImport(importId: string) {
+  const job = await importQueue.getJob(importId);
+  if (!job) {
+    throw new NotFoundError('Import');
+  }
+
+  const state = await job.getState();
+  return {
+    importId,
+    state,
+    progress: job.progress() as number,
+    report: state === 'completed' ? (job.returnvalue as ImportReport) : null,
+    error: state === 'failed' ? job.failedReason ?? null : null,
+  };
+}
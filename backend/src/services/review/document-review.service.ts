@@ -0,0 +1,299 @@
+// backend/src/services/review/document-review.service.ts
+
+import { Prisma, UserRole } from '@prisma/client';
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError
+} from '../../utils/errors';
+import { documentValidityService } from '../validity/document-validity.service';
+import { logger } from '../../utils/logger';
+
+export const REVIEW_STATUSES = ['draft', 'in_review', 'approved', 'rejected'] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+export type ReviewDecision = 'approved' | 'rejected';
+
+const REVIEWER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.EXPERT];
+
+const userSelect = { id: true, email: true, name: true };
+
+/**
+ * Review workflow for documents: draft → in_review → approved / rejected.
+ * The uploader submits a document to one or more reviewers; it is approved
+ * once every reviewer approves and rejected as soon as one rejects. Workers
+ * only find the last approved version (approvedVersion) in search and AI
+ * answers. A new version goes back to draft once it is processed, while
+ * Workers keep finding the approved one.
+ * يدير سير عمل مراجعة المستندات واعتمادها
+ */
+export class DocumentReviewService {
+  private prisma: TenantPrismaClient;
+  // Categories that need an approval; "*" means all of them
+  private readonly REQUIRED_CATEGORIES = (process.env.REVIEW_REQUIRED_CATEGORIES || '*')
+    .split(',')
+    .map(category => category.trim())
+    .filter(Boolean);
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Whether documents of a category have to be approved before workers see them
+   */
+  requiresReview(category: string): boolean {
+    return this.REQUIRED_CATEGORIES.includes('*') || this.REQUIRED_CATEGORIES.includes(category);
+  }
+
+  /**
+   * Review status of a newly uploaded document or version
+   * يحدد حالة المراجعة الأولية للمستند
+   */
+  initialStatus(category: string): ReviewStatus {
+    return this.requiresReview(category) ? 'draft' : 'approved';
+  }
+
+  /**
+   * Reviewers, comments and past decisions of a document
+   * يعرض حالة مراجعة المستند
+   */
+  async getReview(documentId: string) {
+    const document = await this.prisma.document.findUnique({
+      where: { id: documentId },
+      select: {
+        id: true,
+        title: true,
+        version: true,
+        reviewStatus: true,
+        reviewers: {
+          orderBy: { createdAt: 'asc' },
+          include: { reviewer: { select: userSelect } }
+        },
+        reviewComments: {
+          orderBy: { createdAt: 'asc' },
+          include: { author: { select: userSelect } }
+        },
+        approvals: {
+          orderBy: { createdAt: 'desc' },
+          include: { decidedBy: { select: userSelect } }
+        }
+      }
+    });
+
+    if (!document) {
+      throw new NotFoundError('Document');
+    }
+    return document;
+  }
+
+  /**
+   * Send a draft or rejected document to reviewers
+   * يرسل المستند إلى المراجعين
+   */
+  async submit(documentId: string, userId: string, reviewerIds: string[]) {
+    const document = await this.findDocument(documentId);
+
+    if (!['draft', 'rejected'].includes(document.reviewStatus)) {
+      throw new ConflictError(`Document is ${document.reviewStatus.replace('_', ' ')} and cannot be submitted`);
+    }
+
+    // Reviewers approve what workers will find, so the version must be processed
+    if (!['completed', 'warning'].includes(document.status)) {
+      throw new ConflictError('Document is still being processed');
+    }
+
+    const uniqueIds = [...new Set(reviewerIds)];
+    if (uniqueIds.length === 0) {
+      throw new ValidationError('At least one reviewer is required');
+    }
+    if (uniqueIds.includes(userId)) {
+      throw new ValidationError('You cannot review your own submission');
+    }
+
+    const reviewers = await this.prisma.user.findMany({
+      where: { id: { in: uniqueIds }, isActive: true, role: { in: REVIEWER_ROLES } },
+      select: { id: true }
+    });
+    if (reviewers.length !== uniqueIds.length) {
+      throw new ValidationError('Reviewers must be active Admin or Expert users');
+    }
+
+    // Decisions on an earlier submission do not carry over
+    await this.prisma.$transaction([
+      this.prisma.documentReviewer.deleteMany({ where: { documentId } }),
+      this.prisma.documentReviewer.createMany({
+        data: uniqueIds.map(reviewerId => ({ documentId, reviewerId, assignedById: userId }))
+      }),
+      this.prisma.document.update({
+        where: { id: documentId },
+        data: { reviewStatus: 'in_review' }
+      })
+    ]);
+
+    logger.info(`Document ${documentId} submitted for review to ${uniqueIds.length} reviewers`);
+    return this.getReview(documentId);
+  }
+
+  /**
+   * Record a reviewer's decision and settle the review once it is decided
+   * يسجل قرار المراجع ويحدّث حالة المستند
+   */
+  async decide(documentId: string, userId: string, decision: ReviewDecision, comment?: string) {
+    if (decision === 'rejected' && !comment?.trim()) {
+      throw new ValidationError('A comment explaining the rejection is required');
+    }
+
+    const { outcome, version } = await this.prisma.$transaction(async (tx) => {
+      // Locking the document row runs concurrent decisions one after another,
+      // so the last reviewer always sees every other decision
+      await tx.$queryRaw`SELECT id FROM documents WHERE id = ${documentId} FOR UPDATE`;
+      const document = await tx.document.findUnique({
+        where: { id: documentId },
+        select: { version: true, fileHash: true, reviewStatus: true, reviewDueAt: true }
+      });
+
+      if (!document) {
+        throw new NotFoundError('Document');
+      }
+
+      if (document.reviewStatus !== 'in_review') {
+        throw new ConflictError('Document is not in review');
+      }
+
+      const assignment = await tx.documentReviewer.findUnique({
+        where: { documentId_reviewerId: { documentId, reviewerId: userId } }
+      });
+      if (!assignment) {
+        throw new AuthorizationError('You are not a reviewer of this document');
+      }
+      if (assignment.decision) {
+        throw new ConflictError('You have already decided on this document');
+      }
+
+      await tx.documentReviewer.update({
+        where: { documentId_reviewerId: { documentId, reviewerId: userId } },
+        data: { decision, decidedAt: new Date() }
+      });
+      if (comment?.trim()) {
+        await tx.documentReviewComment.create({
+          data: { documentId, authorId: userId, version: document.version, body: comment.trim() }
+        });
+      }
+
+      // One rejection settles the review; an approval only once nobody is left
+      const pending = await tx.documentReviewer.count({ where: { documentId, decision: null } });
+      const outcome: ReviewStatus | null = decision === 'rejected'
+        ? 'rejected'
+        : pending === 0 ? 'approved' : null;
+
+      if (outcome) {
+        await tx.document.update({
+          where: { id: documentId },
+          // An approval also restarts the periodic review cycle
+          data: outcome === 'approved'
+            ? {
+              reviewStatus: outcome,
+              approvedVersion: document.version,
+              reviewDueAt: documentValidityService.nextReviewDate(document.reviewDueAt),
+              staleFlaggedAt: null
+            }
+            : { reviewStatus: outcome }
+        });
+        await tx.documentApproval.create({
+          data: {
+            documentId,
+            version: document.version,
+            fileHash: document.fileHash,
+            decision: outcome,
+            decidedById: userId,
+            comment: comment?.trim() || null
+          }
+        });
+      }
+
+      return { outcome, version: document.version };
+    });
+
+    if (outcome) {
+      logger.info(`Document ${documentId} version ${version} ${outcome}`);
+    }
+    return this.getReview(documentId);
+  }
+
+  /**
+   * Add a review comment
+   * يضيف تعليق مراجعة
+   */
+  async addComment(documentId: string, userId: string, body: string) {
+    const document = await this.findDocument(documentId);
+
+    return this.prisma.documentReviewComment.create({
+      data: { documentId, authorId: userId, version: document.version, body: body.trim() },
+      include: { author: { select: userSelect } }
+    });
+  }
+
+  /**
+   * Documents waiting for the user's decision
+   * يعرض المستندات بانتظار قرار المراجع
+   */
+  async listAssigned(userId: string) {
+    const assignments = await this.prisma.documentReviewer.findMany({
+      where: { reviewerId: userId, decision: null, document: { reviewStatus: 'in_review' } },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        document: {
+          select: {
+            id: true,
+            title: true,
+            category: true,
+            version: true,
+            status: true,
+            uploadedBy: { select: userSelect }
+          }
+        }
+      }
+    });
+
+    return assignments.map(assignment => ({
+      ...assignment.document,
+      assignedAt: assignment.createdAt
+    }));
+  }
+
+  /**
+   * Send a document back to draft once a new version became current; the
+   * approved version stays the one Workers find. Documents that do not need
+   * a review approve the new version right away. Pass tx to reset within the
+   * caller's transaction.
+   * يعيد المستند إلى مسودة بعد معالجة إصدار جديد
+   */
+  async reset(documentId: string, category: string, version: number, tx?: Prisma.TransactionClient): Promise<void> {
+    if (!tx) {
+      return this.prisma.$transaction(client => this.reset(documentId, category, version, client));
+    }
+
+    const reviewStatus = this.initialStatus(category);
+    await tx.documentReviewer.deleteMany({ where: { documentId } });
+    await tx.document.update({
+      where: { id: documentId },
+      data: reviewStatus === 'approved' ? { reviewStatus, approvedVersion: version } : { reviewStatus }
+    });
+  }
+
+  private async findDocument(documentId: string) {
+    const document = await this.prisma.document.findUnique({
+      where: { id: documentId },
+      select: { id: true, version: true, fileHash: true, status: true, reviewStatus: true, reviewDueAt: true }
+    });
+
+    if (!document) {
+      throw new NotFoundError('Document');
+    }
+    return document;
+  }
+}
+
+export const documentReviewService = new DocumentReviewService();
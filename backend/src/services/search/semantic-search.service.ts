@@ -1,11 +1,30 @@
 // backend/src/services/search/semantic-search.service.ts
 
-import { PrismaClient } from '@prisma/client';
-import { OpenAIService } from '../ai/openai.service';
+import crypto from 'crypto';
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import { EmbeddingProvider } from '../ai/providers';
+import { EmbeddingIndexService } from '../ai/embedding-index.service';
+import { llmProviderService } from '../ai/llm-provider.service';
+import { PromptService, PromptLanguage, PROMPT_LANGUAGES } from '../ai/prompt.service';
+import { languageDetectionService, LanguageDetection } from '../ai/language-detection.service';
+import { textNormalizationService } from './text-normalization.service';
+import { documentValidityService, DocumentValidity } from '../validity/document-validity.service';
+import { documentAccessService, AccessScope } from '../access/document-access.service';
 import { logger } from '../../utils/logger';
 import { AppError } from '../../middleware/error';
+import { EmbeddingModelMismatchError, NotFoundError } from '../../utils/errors';
 import { redis } from '../../config/redis';
 
+type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+/** How expired documents are treated: ranked normally, ranked lower, or left out */
+type ExpiredContentMode = 'include' | 'demote' | 'hide';
+
+interface HybridWeights {
+  vector: number;
+  keyword: number;
+}
+
 interface SearchOptions {
   limit?: number;
   offset?: number;
@@ -13,6 +32,17 @@ interface SearchOptions {
   filters?: SearchFilters;
   includeMetadata?: boolean;
   rerank?: boolean;
+  mode?: SearchMode;
+  weights?: Partial<HybridWeights>;
+  rrfK?: number;
+  /** Also search documents in the other languages, with a translated query */
+  crossLingual?: boolean;
+  /** Fold near-identical chunks into the best-scored one (default true) */
+  collapseDuplicates?: boolean;
+  /** Treatment of expired documents (default SEARCH_EXPIRED_CONTENT, demote) */
+  expiredContent?: ExpiredContentMode;
+  /** Documents the user may read; set by the server, never from request filters */
+  access?: AccessScope;
 }
 
 interface SearchFilters {
@@ -24,17 +54,41 @@ interface SearchFilters {
   dateTo?: Date;
   tags?: string[];
   categories?: string[];
+  documentId?: string;
+  /** Search this version instead of each document's current one */
+  version?: number;
+  /** Search every version of each document */
+  allVersions?: boolean;
+  /** Leave out documents that have not passed review, e.g. for workers */
+  approvedOnly?: boolean;
+  /** Leave out expired documents and those not yet in effect */
+  currentOnly?: boolean;
 }
 
-interface SearchResult {
+export interface SearchResult {
   id: string;
   content: string;
   score: number;
   documentId: string;
   documentTitle?: string;
   pageNumber?: number;
+  /** Heading breadcrumb of the chunk, outermost first */
+  headingPath?: string[];
+  /** Document version the chunk belongs to */
+  version?: number;
+  isCurrentVersion?: boolean;
+  /** Language of the chunk */
+  language?: string;
+  /** Translated query that retrieved this result in cross-lingual search */
+  matchedQuery?: string;
   metadata?: any;
   highlights?: string[];
+  /** Validity of the document; review_due and expired content is stale */
+  validity?: DocumentValidity;
+  /** Near-identical chunks folded into this result, e.g. the same SOP uploaded twice */
+  duplicates?: Array<{ id: string; documentId: string; documentTitle?: string }>;
+  vectorScore?: number;
+  keywordScore?: number;
   source?: {
     type: string;
     url?: string;
@@ -48,19 +102,49 @@ interface SearchResponse {
   totalCount: number;
   executionTime: number;
   filters: SearchFilters;
+  mode: SearchMode;
+  embeddingModel: string;
+  /** Language detected from the query text */
+  detectedLanguage: LanguageDetection | null;
+  /** Query used for each language in cross-lingual search */
+  queryTranslations?: Record<string, string>;
   suggestions?: string[];
 }
 
+interface FilterClause {
+  clause: string;
+  params: any[];
+}
+
 export class SemanticSearchService {
-  private prisma: PrismaClient;
-  private openaiService: OpenAIService;
+  private prisma: TenantPrismaClient;
+  private embeddingIndexService: EmbeddingIndexService;
+  private promptService: PromptService;
   private readonly DEFAULT_LIMIT = 10;
   private readonly DEFAULT_THRESHOLD = 0.7;
   private readonly CACHE_TTL = 3600; // 1 hour
+  private readonly DEFAULT_MODE = (process.env.SEARCH_MODE || 'hybrid') as SearchMode;
+  private readonly DEFAULT_WEIGHTS: HybridWeights = {
+    vector: parseFloat(process.env.SEARCH_VECTOR_WEIGHT || '1'),
+    keyword: parseFloat(process.env.SEARCH_KEYWORD_WEIGHT || '1')
+  };
+  private readonly RRF_K = parseInt(process.env.SEARCH_RRF_K || '60');
+  private readonly CANDIDATE_MULTIPLIER = 3; // Candidates fetched per list before fusion
+  private readonly KEYWORD_MIN_SIMILARITY = 0.3;
+  private readonly CROSS_LINGUAL = process.env.SEARCH_CROSS_LINGUAL === 'true';
+  private readonly LANGUAGE_MIN_RESULTS = parseInt(process.env.SEARCH_LANGUAGE_MIN_RESULTS || '3');
+  private readonly DUPLICATE_SIMILARITY = parseFloat(process.env.SEARCH_DUPLICATE_SIMILARITY || '0.9');
+  private readonly EXPIRED_CONTENT = (process.env.SEARCH_EXPIRED_CONTENT || 'demote') as ExpiredContentMode;
+  private readonly EXPIRED_PENALTY = parseFloat(process.env.SEARCH_EXPIRED_PENALTY || '0.5');
+  private readonly SEARCH_LANGUAGES = (process.env.SEARCH_LANGUAGES || 'en,ar,de')
+    .split(',')
+    .map(language => language.trim())
+    .filter(language => PROMPT_LANGUAGES.includes(language as PromptLanguage)) as PromptLanguage[];
 
   constructor() {
-    this.prisma = new PrismaClient();
-    this.openaiService = new OpenAIService();
+    this.prisma = createPrismaClient();
+    this.embeddingIndexService = new EmbeddingIndexService();
+    this.promptService = new PromptService();
   }
 
   /**
@@ -79,26 +163,64 @@ export class SemanticSearchService {
       const offset = options.offset || 0;
       const threshold = options.threshold || this.DEFAULT_THRESHOLD;
 
+      // Resolve once so the whole request reads a single index, even mid-switch
+      const embeddingProvider = await this.embeddingIndexService.getActiveProvider();
+
+      // Without an explicit language filter, search chunks in the query's
+      // language, or in every language when searching cross-lingually
+      const detectedLanguage = languageDetectionService.detect(query);
+      const crossLingual = (options.crossLingual ?? this.CROSS_LINGUAL) && !options.filters?.language;
+      const autoLanguage = !crossLingual && !options.filters?.language && detectedLanguage?.reliable;
+      if (autoLanguage) {
+        options = { ...options, filters: { ...options.filters, language: detectedLanguage!.language } };
+      }
+
+      const expiredContent = options.expiredContent || this.EXPIRED_CONTENT;
+      if (expiredContent === 'hide') {
+        options = { ...options, filters: { ...options.filters, currentOnly: true } };
+      }
+
       // Check cache
-      const cacheKey = this.getCacheKey(query, options);
+      const cacheKey = this.getCacheKey(query, options, embeddingProvider.modelId);
       const cached = await this.getCachedResults(cacheKey);
       if (cached) {
         logger.debug('Returning cached search results');
         return cached;
       }
 
-      // Generate embedding for query
-      logger.info(`Generating embedding for query: ${query}`);
-      const queryEmbedding = await this.openaiService.generateEmbedding(query);
+      const mode = options.mode || this.DEFAULT_MODE;
+
+      const queryTranslations = crossLingual
+        ? await this.translateQuery(query, detectedLanguage, options.filters?.warehouseId)
+        : undefined;
+
+      // Retrieve candidates with the requested strategy
+      let searchResults = queryTranslations
+        ? await this.retrieveCrossLingual(
+          queryTranslations,
+          mode,
+          limit,
+          offset,
+          threshold,
+          options,
+          embeddingProvider
+        )
+        : await this.retrieve(
+          query,
+          mode,
+          limit,
+          offset,
+          threshold,
+          options,
+          embeddingProvider
+        );
 
-      // Build the search query
-      const searchResults = await this.executeVectorSearch(
-        queryEmbedding,
-        limit,
-        offset,
-        threshold,
-        options.filters
-      );
+      // A detected language is only a hint; when it leaves few matches, search
+      // every language instead (the matches found so far are among the results)
+      if (autoLanguage && searchResults.length < Math.min(limit, this.LANGUAGE_MIN_RESULTS)) {
+        options = { ...options, filters: { ...options.filters, language: undefined } };
+        searchResults = await this.retrieve(query, mode, limit, offset, threshold, options, embeddingProvider);
+      }
 
       // Rerank results if requested
       let finalResults = searchResults;
@@ -106,6 +228,14 @@ export class SemanticSearchService {
         finalResults = await this.rerankResults(query, searchResults);
       }
 
+      if (expiredContent === 'demote') {
+        finalResults = this.demoteExpired(finalResults);
+      }
+
+      if (options.collapseDuplicates !== false) {
+        finalResults = this.collapseDuplicates(finalResults);
+      }
+
       // Add highlights
       finalResults = this.addHighlights(query, finalResults);
 
@@ -118,6 +248,10 @@ export class SemanticSearchService {
         totalCount: finalResults.length,
         executionTime: Date.now() - startTime,
         filters: options.filters || {},
+        mode,
+        embeddingModel: embeddingProvider.modelId,
+        detectedLanguage,
+        queryTranslations,
         suggestions
       };
 
@@ -129,11 +263,406 @@ export class SemanticSearchService {
 
       return response;
     } catch (error) {
+      if (error instanceof EmbeddingModelMismatchError) {
+        throw error;
+      }
       logger.error('Semantic search failed:', error);
       throw new AppError('Search failed', 500);
     }
   }
 
+  /**
+   * Retrieve candidates using vector, keyword or hybrid strategy
+   * يسترجع النتائج حسب استراتيجية البحث
+   */
+  private async retrieve(
+    query: string,
+    mode: SearchMode,
+    limit: number,
+    offset: number,
+    threshold: number,
+    options: SearchOptions,
+    embeddingProvider: EmbeddingProvider
+  ): Promise<SearchResult[]> {
+    if (mode === 'keyword') {
+      return this.executeKeywordSearch(query, limit, offset, options.filters, options.access);
+    }
+
+    logger.info(`Generating ${embeddingProvider.modelId} embedding for query: ${query}`);
+    const queryEmbedding = await this.generateQueryEmbedding(query, embeddingProvider);
+
+    if (mode === 'vector') {
+      return this.executeVectorSearch(
+        queryEmbedding,
+        limit,
+        offset,
+        threshold,
+        embeddingProvider,
+        options.filters,
+        options.access
+      );
+    }
+
+    // Hybrid: fetch a deeper candidate pool from both lists, fuse, then page
+    const poolSize = (limit + offset) * this.CANDIDATE_MULTIPLIER;
+    const [vectorResults, keywordResults] = await Promise.all([
+      this.executeVectorSearch(queryEmbedding, poolSize, 0, threshold, embeddingProvider, options.filters, options.access),
+      this.executeKeywordSearch(query, poolSize, 0, options.filters, options.access)
+    ]);
+
+    const weights = { ...this.DEFAULT_WEIGHTS, ...options.weights };
+    const fused = this.fuseResults(
+      vectorResults,
+      keywordResults,
+      weights,
+      options.rrfK || this.RRF_K
+    );
+
+    return fused.slice(offset, offset + limit);
+  }
+
+  /**
+   * Query for every search language: the original in its own language and an
+   * LLM translation for the others. A failed translation searches the other
+   * languages with the original query, which multilingual embeddings still match.
+   * يترجم الاستعلام إلى لغات البحث الأخرى
+   */
+  private async translateQuery(
+    query: string,
+    detectedLanguage: LanguageDetection | null,
+    warehouseId?: string
+  ): Promise<Record<string, string>> {
+    const sourceLanguage = detectedLanguage?.reliable ? detectedLanguage.language : null;
+    const targets = this.SEARCH_LANGUAGES.filter(language => language !== sourceLanguage);
+    const queries: Record<string, string> = Object.fromEntries(
+      this.SEARCH_LANGUAGES.map(language => [language, query])
+    );
+
+    if (targets.length === 0) {
+      return queries;
+    }
+
+    try {
+      const llm = await llmProviderService.getProvider(warehouseId);
+      const { content } = await llm.generateCompletion(
+        this.promptService.buildQueryTranslationPrompt(query, targets),
+        { temperature: 0, maxTokens: 300 }
+      );
+
+      const translations = JSON.parse(content.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+      for (const language of targets) {
+        if (typeof translations[language] === 'string' && translations[language].trim()) {
+          queries[language] = translations[language].trim();
+        }
+      }
+    } catch (error) {
+      logger.warn('Query translation failed, searching all languages with the original query:', error);
+    }
+
+    return queries;
+  }
+
+  /**
+   * Run the query once per language, restricted to documents in that language,
+   * and merge the per-language lists with reciprocal rank fusion
+   * يبحث في كل لغة ويدمج النتائج
+   */
+  private async retrieveCrossLingual(
+    queries: Record<string, string>,
+    mode: SearchMode,
+    limit: number,
+    offset: number,
+    threshold: number,
+    options: SearchOptions,
+    embeddingProvider: EmbeddingProvider
+  ): Promise<SearchResult[]> {
+    const lists = await Promise.all(
+      Object.entries(queries).map(async ([language, text]) => {
+        const results = await this.retrieve(
+          text,
+          mode,
+          limit + offset,
+          0,
+          threshold,
+          { ...options, filters: { ...options.filters, language } },
+          embeddingProvider
+        );
+        return results.map(result => ({ ...result, matchedQuery: text }));
+      })
+    );
+
+    const k = options.rrfK || this.RRF_K;
+    const seen = new Set<string>();
+
+    // Scores within a language are not comparable across languages, so ranks
+    // are fused; equal ranks are ordered by their own score
+    return lists
+      .flatMap(results => results.map((result, rank) => ({ result, fused: (k + 1) / (k + rank + 1) })))
+      .sort((a, b) => b.fused - a.fused || b.result.score - a.result.score)
+      .filter(({ result }) => {
+        if (seen.has(result.id)) {
+          return false;
+        }
+        seen.add(result.id);
+        return true;
+      })
+      .map(({ result, fused }) => ({ ...result, score: fused }))
+      .slice(offset, offset + limit);
+  }
+
+  /**
+   * Generate a query embedding and verify it matches the configured model
+   * يولد تضمين الاستعلام ويتحقق من توافقه مع النموذج
+   */
+  private async generateQueryEmbedding(
+    query: string,
+    embeddingProvider: EmbeddingProvider
+  ): Promise<number[]> {
+    const embedding = await embeddingProvider.embed(query);
+
+    if (embedding.length !== embeddingProvider.dimensions) {
+      throw new EmbeddingModelMismatchError(
+        `${embeddingProvider.modelId} (${embeddingProvider.dimensions}d)`,
+        `${embeddingProvider.modelId} (${embedding.length}d)`
+      );
+    }
+
+    return embedding;
+  }
+
+  /**
+   * Fuse ranked lists with weighted reciprocal rank fusion
+   * يدمج قوائم النتائج باستخدام RRF
+   */
+  private fuseResults(
+    vectorResults: SearchResult[],
+    keywordResults: SearchResult[],
+    weights: HybridWeights,
+    k: number
+  ): SearchResult[] {
+    const fused = new Map<string, { result: SearchResult; score: number }>();
+
+    const addList = (results: SearchResult[], weight: number) => {
+      results.forEach((result, rank) => {
+        const contribution = weight / (k + rank + 1);
+        const existing = fused.get(result.id);
+
+        if (existing) {
+          existing.score += contribution;
+          existing.result = {
+            ...existing.result,
+            vectorScore: existing.result.vectorScore ?? result.vectorScore,
+            keywordScore: existing.result.keywordScore ?? result.keywordScore
+          };
+        } else {
+          fused.set(result.id, { result: { ...result }, score: contribution });
+        }
+      });
+    };
+
+    addList(vectorResults, weights.vector);
+    addList(keywordResults, weights.keyword);
+
+    // Normalise so a result ranked first in every list scores 1.0
+    const maxScore = (weights.vector + weights.keyword) / (k + 1);
+
+    return Array.from(fused.values())
+      .map(({ result, score }) => ({
+        ...result,
+        vectorScore: result.vectorScore ?? 0,
+        keywordScore: result.keywordScore ?? 0,
+        score: maxScore > 0 ? score / maxScore : 0
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Execute keyword (full-text + trigram) search in database
+   * ينفذ البحث بالكلمات المفتاحية
+   */
+  private async executeKeywordSearch(
+    queryText: string,
+    limit: number,
+    offset: number,
+    filters?: SearchFilters,
+    access?: AccessScope
+  ): Promise<SearchResult[]> {
+    try {
+      // Chunks are matched on their normalized search_text, so the query is normalized the same way
+      const normalizedQuery = textNormalizationService.normalize(queryText);
+      if (!normalizedQuery) {
+        return [];
+      }
+
+      const params: any[] = [normalizedQuery, limit, offset];
+      const { clause, params: filterParams } = this.buildFilterClause(filters, params.length + 1, access);
+      params.push(...filterParams);
+
+      // ts_rank_cd normalisation 32 maps rank into [0, 1) so it can be compared
+      // with trigram word similarity; exact tokens such as "E-102" score high on both.
+      // The <% operator (word_similarity above pg_trgm.word_similarity_threshold)
+      // can use idx_chunks_search_text_trgm; a word_similarity() comparison cannot
+      const query = `
+        SELECT *
+        FROM (
+          SELECT 
+            c.id,
+            c.content,
+            c.chunk_index,
+            c.metadata,
+            c.version,
+            d.version as current_version,
+            d.id as document_id,
+            d.title as document_title,
+            d.type as document_type,
+            d.url as document_url,
+            d.updated_at,
+            d.valid_from,
+            d.review_due_at,
+            d.expires_at,
+            GREATEST(
+              ts_rank_cd(to_tsvector('simple', COALESCE(c.search_text, c.content)), plainto_tsquery('simple', $1), 32),
+              word_similarity($1, COALESCE(c.search_text, c.content))
+            ) as keyword_score
+          FROM chunks c
+          JOIN documents d ON c.document_id = d.id
+          WHERE 1=1${clause}
+            AND (
+              to_tsvector('simple', COALESCE(c.search_text, c.content)) @@ plainto_tsquery('simple', $1)
+              OR $1 <% COALESCE(c.search_text, c.content)
+            )
+        ) matches
+        ORDER BY keyword_score DESC
+        LIMIT $2
+        OFFSET $3
+      `;
+
+      // The threshold is set for this transaction only
+      const [, results] = await this.prisma.$transaction([
+        this.prisma.$executeRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(this.KEYWORD_MIN_SIMILARITY)}, TRUE)`,
+        this.prisma.$queryRawUnsafe<any[]>(query, ...params)
+      ]);
+
+      return results.map((row: any) => ({
+        ...this.mapRow(row),
+        score: parseFloat(row.keyword_score),
+        keywordScore: parseFloat(row.keyword_score)
+      }));
+    } catch (error) {
+      logger.error('Keyword search execution failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build SQL conditions for search filters and the user's access scope
+   * يبني شروط الفلترة
+   */
+  private buildFilterClause(
+    filters: SearchFilters | undefined,
+    startIndex: number,
+    access?: AccessScope
+  ): FilterClause {
+    let clause = '';
+    const params: any[] = [];
+    let paramIndex = startIndex;
+
+    // Only each document's current version, unless a version is asked for
+    if (filters?.version !== undefined) {
+      clause += ` AND c.version = $${paramIndex++}`;
+      params.push(filters.version);
+    } else if (!filters?.allVersions && !filters?.approvedOnly) {
+      clause += ' AND c.version = d.version';
+    }
+
+    if (filters) {
+      // The last approved version, which stays searchable while a newer one is in review
+      if (filters.approvedOnly) {
+        clause += ' AND c.version = d.approved_version';
+      }
+      if (filters.currentOnly) {
+        clause += ' AND (d.expires_at IS NULL OR d.expires_at > NOW()) AND (d.valid_from IS NULL OR d.valid_from <= NOW())';
+      }
+      if (filters.documentId) {
+        clause += ` AND d.id = $${paramIndex++}`;
+        params.push(filters.documentId);
+      }
+      if (filters.departmentId) {
+        // Documents linked to the department count as its own
+        clause += ` AND (d.department_id = $${paramIndex} OR EXISTS (
+          SELECT 1 FROM document_departments dd
+          WHERE dd.document_id = d.id AND dd.department_id = $${paramIndex}
+        ))`;
+        paramIndex++;
+        params.push(filters.departmentId);
+      }
+      if (filters.warehouseId) {
+        clause += ` AND d.warehouse_id = $${paramIndex++}`;
+        params.push(filters.warehouseId);
+      }
+      if (filters.documentType) {
+        clause += ` AND d.type = $${paramIndex++}`;
+        params.push(filters.documentType);
+      }
+      if (filters.language) {
+        // Language detected per chunk at ingest; the uploader's choice only
+        // covers chunks too short to detect
+        clause += ` AND COALESCE(c.metadata->>'language', d.language) = $${paramIndex++}`;
+        params.push(filters.language);
+      }
+      if (filters.dateFrom) {
+        clause += ` AND d.created_at >= $${paramIndex++}`;
+        params.push(filters.dateFrom);
+      }
+      if (filters.dateTo) {
+        clause += ` AND d.created_at <= $${paramIndex++}`;
+        params.push(filters.dateTo);
+      }
+      if (filters.categories && filters.categories.length > 0) {
+        clause += ` AND d.category = ANY($${paramIndex++})`;
+        params.push(filters.categories);
+      }
+    }
+
+    if (access) {
+      const { clause: accessClause, params: accessParams } = documentAccessService.buildSqlClause(access, paramIndex);
+      clause += accessClause;
+      params.push(...accessParams);
+    }
+
+    return { clause, params };
+  }
+
+  /**
+   * Map a raw chunk row to a search result
+   * يحول صف قاعدة البيانات إلى نتيجة بحث
+   */
+  private mapRow(row: any): SearchResult {
+    return {
+      id: row.id,
+      content: row.content,
+      score: 0,
+      documentId: row.document_id,
+      documentTitle: row.document_title,
+      pageNumber: row.metadata?.page ?? undefined,
+      headingPath: row.metadata?.headingPath ?? [],
+      version: row.version,
+      isCurrentVersion: row.version === row.current_version,
+      language: row.metadata?.language,
+      metadata: row.metadata,
+      validity: documentValidityService.describe({
+        validFrom: row.valid_from,
+        reviewDueAt: row.review_due_at,
+        expiresAt: row.expires_at
+      }),
+      source: {
+        type: row.document_type,
+        url: row.document_url,
+        updatedAt: row.updated_at
+      }
+    };
+  }
+
   /**
    * Execute vector search in database
    * ينفذ البحث في قاعدة البيانات
@@ -143,47 +672,19 @@ export class SemanticSearchService {
     limit: number,
     offset: number,
     threshold: number,
-    filters?: SearchFilters
+    embeddingProvider: EmbeddingProvider,
+    filters?: SearchFilters,
+    access?: AccessScope
   ): Promise<SearchResult[]> {
     try {
       // Convert embedding to PostgreSQL vector format
       const vectorString = `[${embedding.join(',')}]`;
+      const { modelId, dimensions } = embeddingProvider;
 
-      // Build WHERE clause for filters
-      let whereClause = 'WHERE 1=1';
-      const params: any[] = [vectorString, limit, offset];
-      let paramIndex = 4;
-
-      if (filters) {
-        if (filters.departmentId) {
-          whereClause += ` AND d.department_id = $${paramIndex++}`;
-          params.push(filters.departmentId);
-        }
-        if (filters.warehouseId) {
-          whereClause += ` AND d.warehouse_id = $${paramIndex++}`;
-          params.push(filters.warehouseId);
-        }
-        if (filters.documentType) {
-          whereClause += ` AND d.type = $${paramIndex++}`;
-          params.push(filters.documentType);
-        }
-        if (filters.language) {
-          whereClause += ` AND d.language = $${paramIndex++}`;
-          params.push(filters.language);
-        }
-        if (filters.dateFrom) {
-          whereClause += ` AND d.created_at >= $${paramIndex++}`;
-          params.push(filters.dateFrom);
-        }
-        if (filters.dateTo) {
-          whereClause += ` AND d.created_at <= $${paramIndex++}`;
-          params.push(filters.dateTo);
-        }
-        if (filters.categories && filters.categories.length > 0) {
-          whereClause += ` AND d.category = ANY($${paramIndex++})`;
-          params.push(filters.categories);
-        }
-      }
+      // Only compare against vectors produced by the same model and size
+      const params: any[] = [vectorString, limit, offset, modelId, dimensions];
+      const { clause, params: filterParams } = this.buildFilterClause(filters, params.length + 1, access);
+      params.push(...filterParams);
 
       // Execute the vector similarity search
       const query = `
@@ -192,16 +693,24 @@ export class SemanticSearchService {
           c.content,
           c.chunk_index,
           c.metadata,
+          c.version,
+          d.version as current_version,
           d.id as document_id,
           d.title as document_title,
           d.type as document_type,
           d.url as document_url,
           d.updated_at,
-          1 - (c.embedding <=> $1::vector) as similarity_score
+          d.valid_from,
+          d.review_due_at,
+          d.expires_at,
+          1 - (e.embedding <=> $1::vector) as similarity_score
         FROM chunks c
+        JOIN embeddings e ON e.chunk_id = c.id
+          AND e.model = $4
+          AND e.dimensions = $5
         JOIN documents d ON c.document_id = d.id
-        ${whereClause}
-          AND 1 - (c.embedding <=> $1::vector) > ${threshold}
+        WHERE 1=1${clause}
+          AND 1 - (e.embedding <=> $1::vector) > ${threshold}
         ORDER BY similarity_score DESC
         LIMIT $2
         OFFSET $3
@@ -211,18 +720,9 @@ export class SemanticSearchService {
 
       // Transform results
       return results.map(row => ({
-        id: row.id,
-        content: row.content,
+        ...this.mapRow(row),
         score: parseFloat(row.similarity_score),
-        documentId: row.document_id,
-        documentTitle: row.document_title,
-        pageNumber: row.chunk_index,
-        metadata: row.metadata,
-        source: {
-          type: row.document_type,
-          url: row.document_url,
-          updatedAt: row.updated_at
-        }
+        vectorScore: parseFloat(row.similarity_score)
       }));
     } catch (error) {
       logger.error('Vector search execution failed:', error);
@@ -281,38 +781,72 @@ export class SemanticSearchService {
   }
 
   /**
-   * Add highlights to search results
-   * يضيف التمييز للنتائج
+   * Rank expired documents below current ones by scaling their score
+   * يخفض ترتيب المستندات منتهية الصلاحية
    */
-  private addHighlights(query: string, results: SearchResult[]): SearchResult[] {
-    const queryTerms = query.toLowerCase().split(' ')
-      .filter(term => term.length > 2);
+  private demoteExpired(results: SearchResult[]): SearchResult[] {
+    if (!results.some(result => result.validity?.status === 'expired')) {
+      return results;
+    }
 
-    return results.map(result => {
-      const highlights: string[] = [];
-      const sentences = result.content.split(/[.!?]+/);
+    return results
+      .map(result => (result.validity?.status === 'expired'
+        ? { ...result, score: result.score * this.EXPIRED_PENALTY }
+        : result))
+      .sort((a, b) => b.score - a.score);
+  }
 
-      for (const sentence of sentences) {
-        const sentenceLower = sentence.toLowerCase();
-        const hasMatch = queryTerms.some(term => sentenceLower.includes(term));
-        
-        if (hasMatch && sentence.trim().length > 0) {
-          // Highlight matching terms
-          let highlighted = sentence;
-          queryTerms.forEach(term => {
-            const regex = new RegExp(`(${term})`, 'gi');
-            highlighted = highlighted.replace(regex, '**$1**');
-          });
-          highlights.push(highlighted.trim());
-        }
+  /**
+   * Keep one result per group of near-identical chunks (Jaccard similarity of
+   * normalized terms), so copies of the same text do not crowd out other sources
+   * يدمج المقاطع شبه المتطابقة في نتيجة واحدة
+   */
+  private collapseDuplicates(results: SearchResult[]): SearchResult[] {
+    const kept: Array<{ result: SearchResult; terms: Set<string> }> = [];
+
+    // Results are sorted best first, so the first of each group is kept
+    for (const result of results) {
+      const terms = new Set(textNormalizationService.normalize(result.content).split(' ').filter(Boolean));
+      const original = kept.find(entry => this.jaccard(entry.terms, terms) >= this.DUPLICATE_SIMILARITY);
+
+      if (original) {
+        original.result.duplicates = [
+          ...(original.result.duplicates || []),
+          { id: result.id, documentId: result.documentId, documentTitle: result.documentTitle }
+        ];
+      } else {
+        kept.push({ result: { ...result }, terms });
       }
+    }
 
-      // Limit to top 3 highlights
-      return {
-        ...result,
-        highlights: highlights.slice(0, 3)
-      };
-    });
+    return kept.map(entry => entry.result);
+  }
+
+  private jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) {
+      return 1;
+    }
+
+    let intersection = 0;
+    for (const term of a) {
+      if (b.has(term)) {
+        intersection++;
+      }
+    }
+    return intersection / (a.size + b.size - intersection);
+  }
+
+  /**
+   * Add highlights to search results
+   * يضيف التمييز للنتائج
+   */
+  private addHighlights(query: string, results: SearchResult[]): SearchResult[] {
+    // Words are compared in normalized form but marked in the original text;
+    // cross-lingual results are highlighted with the translation that found them
+    return results.map(result => ({
+      ...result,
+      highlights: textNormalizationService.highlight(result.content, result.matchedQuery || query, 3)
+    }));
   }
 
   /**
@@ -452,10 +986,18 @@ export class SemanticSearchService {
    * Generate cache key
    * يولد مفتاح التخزين المؤقت
    */
-  private getCacheKey(query: string, options: SearchOptions): string {
+  private getCacheKey(query: string, options: SearchOptions, modelId: string): string {
     const filters = options.filters ? JSON.stringify(options.filters) : '';
-    const key = `search:${query}:${options.limit}:${options.offset}:${filters}`;
-    return key.substring(0, 200); // Limit key length
+    const mode = options.mode || this.DEFAULT_MODE;
+    const weights = options.weights ? JSON.stringify(options.weights) : '';
+    const crossLingual = options.crossLingual ?? this.CROSS_LINGUAL;
+    const collapse = options.collapseDuplicates === false ? 'all' : '';
+    const expired = options.expiredContent || this.EXPIRED_CONTENT;
+    // Results depend on who is asking
+    const access = options.access ? (options.access.unrestricted ? 'all' : options.access.userId) : '';
+    const key = `${modelId}:${access}:${query}:${options.limit}:${options.offset}:${mode}:${weights}:${options.rrfK || ''}:${crossLingual ? 'xl' : ''}:${collapse}:${expired}:${filters}`;
+    // Hash the whole key: a truncated one lets different filters share cached results
+    return `search:${crypto.createHash('sha256').update(key).digest('hex')}`;
   }
 
   /**
@@ -474,58 +1016,74 @@ export class SemanticSearchService {
   }
 
   /**
-   * Search by document ID
+   * Search by document ID, in its current version unless one is given
    * يبحث بمعرف المستند
    */
   async searchByDocument(
     documentId: string,
     query: string,
-    limit: number = 5
+    limit: number = 5,
+    version?: number,
+    options: { approvedOnly?: boolean; access?: AccessScope } = {}
   ): Promise<SearchResult[]> {
     try {
-      // Get document chunks
-      const chunks = await this.prisma.chunk.findMany({
-        where: { documentId },
-        include: {
-          document: true
-        }
-      });
-
-      if (chunks.length === 0) {
-        return [];
+      if (options.access) {
+        await documentAccessService.assertAccess(options.access, documentId);
       }
 
-      // Generate query embedding
-      const queryEmbedding = await this.openaiService.generateEmbedding(query);
+      const embeddingProvider = await this.embeddingIndexService.getActiveProvider();
+      const { modelId, dimensions } = embeddingProvider;
+      await this.assertDocumentModel(documentId, modelId);
 
-      // Calculate similarity for each chunk
-      const results = chunks.map(chunk => {
-        const similarity = this.cosineSimilarity(
-          queryEmbedding,
-          chunk.embedding as any
-        );
+      // Generate query embedding
+      const queryEmbedding = await this.generateQueryEmbedding(query, embeddingProvider);
+      const vectorString = `[${queryEmbedding.join(',')}]`;
+
+      const params: any[] = [vectorString, modelId, dimensions, limit];
+      const { clause, params: filterParams } = this.buildFilterClause(
+        { documentId, version, approvedOnly: options.approvedOnly },
+        params.length + 1,
+        options.access
+      );
+      params.push(...filterParams);
 
-        return {
-          id: chunk.id,
-          content: chunk.content,
-          score: similarity,
-          documentId: chunk.documentId,
-          documentTitle: chunk.document.title,
-          pageNumber: chunk.chunkIndex,
-          metadata: chunk.metadata as any,
-          source: {
-            type: chunk.document.type,
-            url: chunk.document.url || undefined,
-            updatedAt: chunk.document.updatedAt
-          }
-        };
-      });
+      // Score the document's chunks in the database against the same model
+      const rows = await this.prisma.$queryRawUnsafe<any[]>(`
+        SELECT 
+          c.id,
+          c.content,
+          c.chunk_index,
+          c.metadata,
+          c.version,
+          d.version as current_version,
+          d.id as document_id,
+          d.title as document_title,
+          d.type as document_type,
+          d.url as document_url,
+          d.updated_at,
+          d.valid_from,
+          d.review_due_at,
+          d.expires_at,
+          1 - (e.embedding <=> $1::vector) as similarity_score
+        FROM chunks c
+        JOIN embeddings e ON e.chunk_id = c.id
+          AND e.model = $2
+          AND e.dimensions = $3
+        JOIN documents d ON c.document_id = d.id
+        WHERE 1=1${clause}
+        ORDER BY similarity_score DESC
+        LIMIT $4
+      `, ...params);
 
-      // Sort by score and return top results
-      return results
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limit);
+      return rows.map(row => ({
+        ...this.mapRow(row),
+        score: parseFloat(row.similarity_score),
+        vectorScore: parseFloat(row.similarity_score)
+      }));
     } catch (error) {
+      if (error instanceof EmbeddingModelMismatchError || error instanceof NotFoundError) {
+        throw error;
+      }
       logger.error('Search by document failed:', error);
       throw new AppError('Document search failed', 500);
     }
@@ -537,54 +1095,80 @@ export class SemanticSearchService {
    */
   async findSimilarDocuments(
     documentId: string,
-    limit: number = 5
+    limit: number = 5,
+    options: { approvedOnly?: boolean; access?: AccessScope } = {}
   ): Promise<any[]> {
     try {
-      // Get the document's average embedding
-      const document = await this.prisma.document.findUnique({
-        where: { id: documentId },
-        include: {
-          chunks: {
-            select: { embedding: true }
-          }
-        }
-      });
-
-      if (!document || document.chunks.length === 0) {
-        return [];
+      if (options.access) {
+        await documentAccessService.assertAccess(options.access, documentId);
       }
 
-      // Calculate average embedding
-      const avgEmbedding = this.calculateAverageEmbedding(
-        document.chunks.map(c => c.embedding as any)
-      );
+      const { modelId } = await this.embeddingIndexService.getActiveProvider();
+      await this.assertDocumentModel(documentId, modelId);
 
-      // Find similar documents
-      const vectorString = `[${avgEmbedding.join(',')}]`;
-      
-      const similar = await this.prisma.$queryRaw<any[]>`
-        SELECT DISTINCT
+      // Candidates are limited to the current versions of documents the user may read
+      const params: any[] = [documentId, modelId, limit];
+      const { clause, params: filterParams } = this.buildFilterClause(
+        { approvedOnly: options.approvedOnly },
+        params.length + 1,
+        options.access
+      );
+      params.push(...filterParams);
+
+      // Compare the document's centroid with other documents under the same model
+      const similar = await this.prisma.$queryRawUnsafe<any[]>(`
+        WITH source AS (
+          SELECT AVG(e.embedding) as centroid
+          FROM chunks c
+          JOIN documents d ON c.document_id = d.id AND c.version = d.version
+          JOIN embeddings e ON e.chunk_id = c.id AND e.model = $2
+          WHERE c.document_id = $1
+        )
+        SELECT
           d.id,
           d.title,
           d.type,
           d.category,
-          AVG(1 - (c.embedding <=> ${vectorString}::vector)) as similarity
+          AVG(1 - (e.embedding <=> source.centroid)) as similarity
         FROM documents d
         JOIN chunks c ON c.document_id = d.id
-        WHERE d.id != ${documentId}
+        JOIN embeddings e ON e.chunk_id = c.id AND e.model = $2
+        CROSS JOIN source
+        WHERE d.id != $1
+          AND source.centroid IS NOT NULL${clause}
         GROUP BY d.id, d.title, d.type, d.category
-        HAVING AVG(1 - (c.embedding <=> ${vectorString}::vector)) > 0.5
+        HAVING AVG(1 - (e.embedding <=> source.centroid)) > 0.5
         ORDER BY similarity DESC
-        LIMIT ${limit}
-      `;
+        LIMIT $3
+      `, ...params);
 
       return similar;
     } catch (error) {
+      if (error instanceof EmbeddingModelMismatchError || error instanceof NotFoundError) {
+        throw error;
+      }
       logger.error('Find similar documents failed:', error);
       throw new AppError('Similar documents search failed', 500);
     }
   }
 
+  /**
+   * Refuse to compare when a document was only embedded with another model
+   * يرفض المقارنة إذا كانت تضمينات المستند من نموذج مختلف
+   */
+  private async assertDocumentModel(documentId: string, modelId: string): Promise<void> {
+    const models = await this.prisma.$queryRaw<Array<{ model: string }>>`
+      SELECT DISTINCT e.model
+      FROM embeddings e
+      JOIN chunks c ON c.id = e.chunk_id
+      WHERE c.document_id = ${documentId}
+    `;
+
+    if (models.length > 0 && !models.some(row => row.model === modelId)) {
+      throw new EmbeddingModelMismatchError(modelId, models.map(row => row.model).join(', '));
+    }
+  }
+
   /**
    * Multi-modal search (text + filters + metadata)
    * بحث متعدد الوسائط
@@ -626,60 +1210,6 @@ export class SemanticSearchService {
     }
   }
 
-  /**
-   * Calculate cosine similarity
-   * يحسب التشابه الجيبي
-   */
-  private cosineSimilarity(vec1: number[], vec2: number[]): number {
-    if (vec1.length !== vec2.length) {
-      throw new Error('Vectors must have the same length');
-    }
-
-    let dotProduct = 0;
-    let norm1 = 0;
-    let norm2 = 0;
-
-    for (let i = 0; i < vec1.length; i++) {
-      dotProduct += vec1[i] * vec2[i];
-      norm1 += vec1[i] * vec1[i];
-      norm2 += vec2[i] * vec2[i];
-    }
-
-    norm1 = Math.sqrt(norm1);
-    norm2 = Math.sqrt(norm2);
-
-    if (norm1 === 0 || norm2 === 0) {
-      return 0;
-    }
-
-    return dotProduct / (norm1 * norm2);
-  }
-
-  /**
-   * Calculate average embedding
-   * يحسب متوسط التضمين
-   */
-  private calculateAverageEmbedding(embeddings: number[][]): number[] {
-    if (embeddings.length === 0) {
-      throw new Error('No embeddings provided');
-    }
-
-    const dimensions = embeddings[0].length;
-    const average = new Array(dimensions).fill(0);
-
-    for (const embedding of embeddings) {
-      for (let i = 0; i < dimensions; i++) {
-        average[i] += embedding[i];
-      }
-    }
-
-    for (let i = 0; i < dimensions; i++) {
-      average[i] /= embeddings.length;
-    }
-
-    return average;
-  }
-
   /**
    * Clear search cache
    * يمسح ذاكرة التخزين المؤقت
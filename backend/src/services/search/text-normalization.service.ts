@@ -0,0 +1,155 @@
+// backend/src/services/search/text-normalization.service.ts
+
+import { PorterStemmer } from 'natural';
+
+/**
+ * A word of the original text with its search form
+ */
+export interface NormalizedToken {
+  /** Normalized form, as stored in chunks.search_text */
+  term: string;
+  /** Offsets into the original text */
+  start: number;
+  end: number;
+}
+
+// Letters, combining marks (Arabic harakat) and digits; tatweel is a letter (Lm)
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+const ARABIC_DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+// Zero-width and bidi control characters left behind by PDF and Word extraction
+const INVISIBLE_CHARACTERS = /[\u00AD\u200B-\u200F\u202A-\u202E\u2060-\u2069\uFEFF]/g;
+const LATIN_WORD = /^[a-z]+$/;
+// Definite article, alone or after و/ب/ك/ف/ل ("الرافعة", "بالرافعة", "للرافعة")
+const ARABIC_ARTICLE = /^(?:[وبكف]?ال|لل)(?=[\u0621-\u064A]{3})/;
+const SENTENCE_PATTERN = /[^.!?؟\n]+[.!?؟]*/g;
+
+const ARABIC_FOLDING: Record<string, string> = {
+  'أ': 'ا',
+  'إ': 'ا',
+  'آ': 'ا',
+  'ٱ': 'ا',
+  'ة': 'ه',
+  'ى': 'ي',
+  'ؤ': 'و',
+  'ئ': 'ي'
+};
+
+const GERMAN_FOLDING: Record<string, string> = {
+  'ä': 'ae',
+  'ö': 'oe',
+  'ü': 'ue',
+  'ß': 'ss'
+};
+
+/**
+ * Normalization shared by indexing and querying, so "إدارة", "ادارة" and
+ * "إِدَارَة" or "Größe" and "groesse" end up as the same term:
+ * - Arabic: alef/hamza variants, taa marbuta, alef maqsura, tatweel, harakat
+ *   and the definite article
+ * - German: umlauts and ß folded to their two-letter spellings
+ * - English: Porter stemming of Latin words ("batteries" → "batteri")
+ * Stemming does not depend on the detected language, because a short query
+ * and the chunk it should match are not always detected the same way.
+ * يوحّد النص للفهرسة والبحث
+ */
+export class TextNormalizationService {
+  private readonly MIN_STEM_LENGTH = 4;
+  private readonly MAX_HIGHLIGHTS = 3;
+
+  /**
+   * Clean extracted text without changing how it reads: compatibility forms
+   * (Arabic presentation forms, ligatures) and invisible characters
+   * ينظف النص المستخرج
+   */
+  clean(text: string): string {
+    return text.normalize('NFKC').replace(INVISIBLE_CHARACTERS, '');
+  }
+
+  /**
+   * Search form of a text: normalized terms separated by spaces
+   * يحول النص إلى صيغة البحث
+   */
+  normalize(text: string): string {
+    return this.tokenize(text).map(token => token.term).join(' ');
+  }
+
+  /**
+   * Words of the text with their normalized term and original offsets
+   * يقسم النص إلى كلمات مع مواضعها الأصلية
+   */
+  tokenize(text: string): NormalizedToken[] {
+    const tokens: NormalizedToken[] = [];
+
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      const term = this.normalizeWord(match[0]);
+      if (term) {
+        tokens.push({ term, start: match.index!, end: match.index! + match[0].length });
+      }
+    }
+    return tokens;
+  }
+
+  /**
+   * Normalize a single word
+   */
+  normalizeWord(word: string): string {
+    const folded = word
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(ARABIC_DIACRITICS, '')
+      .replace(TATWEEL, '')
+      .replace(/[أإآٱةىؤئ]/g, char => ARABIC_FOLDING[char])
+      .replace(/[٠-٩]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+      .replace(/[۰-۹]/g, digit => String(digit.charCodeAt(0) - 0x06F0))
+      .replace(/[äöüß]/g, char => GERMAN_FOLDING[char])
+      // Remaining accents (é, ñ, ...) are dropped
+      .normalize('NFD')
+      .replace(/(\p{Script=Latin})\p{M}+/gu, '$1')
+      .normalize('NFC')
+      .replace(ARABIC_ARTICLE, '');
+
+    if (folded.length >= this.MIN_STEM_LENGTH && LATIN_WORD.test(folded)) {
+      return PorterStemmer.stem(folded);
+    }
+    return folded;
+  }
+
+  /**
+   * Sentences of the text that contain a query term, with every matching word
+   * wrapped in **…** at its original position
+   * يميز الكلمات المطابقة في النص الأصلي
+   */
+  highlight(text: string, query: string, maxHighlights: number = this.MAX_HIGHLIGHTS): string[] {
+    const queryTerms = new Set(this.tokenize(query).map(token => token.term).filter(term => term.length > 1));
+    if (queryTerms.size === 0) {
+      return [];
+    }
+
+    const highlights: string[] = [];
+
+    for (const sentence of text.matchAll(SENTENCE_PATTERN)) {
+      const matches = this.tokenize(sentence[0]).filter(token => queryTerms.has(token.term));
+      if (matches.length === 0) {
+        continue;
+      }
+
+      let highlighted = '';
+      let position = 0;
+      for (const match of matches) {
+        highlighted += `${sentence[0].substring(position, match.start)}**${sentence[0].substring(match.start, match.end)}**`;
+        position = match.end;
+      }
+      highlighted += sentence[0].substring(position);
+
+      highlights.push(highlighted.trim());
+      if (highlights.length >= maxHighlights) {
+        break;
+      }
+    }
+
+    return highlights;
+  }
+}
+
+export const textNormalizationService = new TextNormalizationService();
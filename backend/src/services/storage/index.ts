@@ -0,0 +1,43 @@
+// backend/src/services/storage/index.ts
+
+import { StorageDriver, StorageDriverName } from './storage.driver';
+import { LocalStorageDriver } from './local-storage.driver';
+import { S3StorageDriver } from './s3-storage.driver';
+
+export type {
+  StorageDriver,
+  StorageDriverName,
+  StorageObjectInfo,
+  ByteRange,
+  SignedUrlOptions
+} from './storage.driver';
+export { createStorageKey, contentDisposition } from './storage.driver';
+export { LocalStorageDriver } from './local-storage.driver';
+export type { SignedFileToken } from './local-storage.driver';
+export { S3StorageDriver } from './s3-storage.driver';
+
+const storageDrivers: Record<StorageDriverName, () => StorageDriver> = {
+  local: () => new LocalStorageDriver(),
+  s3: () => new S3StorageDriver()
+};
+
+const instances = new Map<string, StorageDriver>();
+
+/**
+ * Storage driver by name. Without a name, the driver new files are written to
+ * (STORAGE_DRIVER, default: local); existing files are read with the driver
+ * recorded on their document.
+ * يحصل على مشغل التخزين المطلوب
+ */
+export function getStorageDriver(name: string = process.env.STORAGE_DRIVER || 'local'): StorageDriver {
+  let driver = instances.get(name);
+  if (!driver) {
+    const factory = storageDrivers[name as StorageDriverName];
+    if (!factory) {
+      throw new Error(`Unknown storage driver: ${name}`);
+    }
+    driver = factory();
+    instances.set(name, driver);
+  }
+  return driver;
+}
@@ -0,0 +1,178 @@
+// backend/src/services/storage/local-storage.driver.ts
+
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import path from 'path';
+import { StorageDriver, StorageObjectInfo, ByteRange, SignedUrlOptions } from './storage.driver';
+import { NotFoundError } from '../../utils/errors';
+
+/**
+ * What a signed download URL grants: one key until a point in time
+ */
+export interface SignedFileToken {
+  key: string;
+  expiresAt: number;
+  filename?: string;
+  contentType?: string;
+}
+
+/**
+ * Files on the API server's disk under STORAGE_LOCAL_ROOT (default ./uploads).
+ * Signed URLs point back at the API (GET /api/documents/files/:token) and
+ * carry an HMAC, so they work without the user's token.
+ * يخزن الملفات على قرص الخادم
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+  private readonly ROOT = path.resolve(process.env.STORAGE_LOCAL_ROOT || path.join(process.cwd(), 'uploads'));
+  private readonly SIGNING_SECRET = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || '';
+  private readonly PUBLIC_URL = process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}`;
+
+  constructor() {
+    // Without a secret anyone could sign a download link
+    if (!this.SIGNING_SECRET) {
+      throw new Error('Local storage needs STORAGE_SIGNING_SECRET or JWT_SECRET to sign download URLs');
+    }
+  }
+
+  async putFile(key: string, filePath: string): Promise<StorageObjectInfo> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    try {
+      await fs.rename(filePath, target);
+    } catch (error: any) {
+      // Staging directory on another volume
+      if (error.code !== 'EXDEV') {
+        throw error;
+      }
+      await fs.copyFile(filePath, target);
+      await fs.unlink(filePath);
+    }
+
+    const { size } = await fs.stat(target);
+    return { size };
+  }
+
+  async putStream(key: string, body: Readable): Promise<void> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // Written under a temporary name so a broken copy never looks complete
+    await pipeline(body, createWriteStream(`${target}.tmp`));
+    await fs.rename(`${target}.tmp`, target);
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const target = this.resolve(key);
+    if (!(await this.stat(key))) {
+      throw new NotFoundError('File');
+    }
+    return createReadStream(target, range);
+  }
+
+  async stat(key: string): Promise<StorageObjectInfo | null> {
+    try {
+      const { size } = await fs.stat(this.resolve(key));
+      return { size };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.unlink(this.resolve(key)).catch((error: any) => {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    });
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const token: SignedFileToken = {
+      key: this.toRelativeKey(key),
+      expiresAt: Date.now() + options.expiresIn * 1000,
+      filename: options.filename,
+      contentType: options.contentType
+    };
+    const payload = Buffer.from(JSON.stringify(token)).toString('base64url');
+
+    return `${this.PUBLIC_URL}/api/documents/files/${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Token of a signed URL, or null when it was tampered with or has expired
+   * يتحقق من صلاحية رابط التنزيل الموقّع
+   */
+  verifySignedToken(token: string): SignedFileToken | null {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const data = JSON.parse(Buffer.from(payload, 'base64url').toString()) as SignedFileToken;
+      // Tokens only ever name keys inside the storage root
+      if (typeof data.key !== 'string' || path.isAbsolute(data.key)) {
+        return null;
+      }
+      this.resolve(data.key);
+      return data.expiresAt > Date.now() ? data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async withLocalFile<T>(key: string, fn: (filePath: string) => Promise<T>): Promise<T> {
+    return fn(this.resolve(key));
+  }
+
+  /**
+   * Absolute path of a key. Documents uploaded before storage drivers existed
+   * recorded absolute paths, which are used as they are; those keys come from
+   * document records, since signed tokens with absolute keys are rejected.
+   */
+  private resolve(key: string): string {
+    if (path.isAbsolute(key)) {
+      return key;
+    }
+
+    const target = path.resolve(this.ROOT, key);
+    if (!target.startsWith(this.ROOT + path.sep)) {
+      throw new Error(`Storage key escapes the storage root: ${key}`);
+    }
+    return target;
+  }
+
+  /**
+   * Key relative to the storage root, so legacy absolute paths can be signed.
+   * Legacy files outside the root are only served by the authenticated routes.
+   */
+  private toRelativeKey(key: string): string {
+    if (!path.isAbsolute(key)) {
+      return key;
+    }
+
+    const target = path.resolve(key);
+    if (!target.startsWith(this.ROOT + path.sep)) {
+      throw new Error(`File is outside the storage root and cannot be signed: ${key}`);
+    }
+    return path.relative(this.ROOT, target).split(path.sep).join('/');
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.SIGNING_SECRET).update(payload).digest('base64url');
+  }
+}
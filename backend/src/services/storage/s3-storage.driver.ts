@@ -0,0 +1,130 @@
+// backend/src/services/storage/s3-storage.driver.ts
+
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import { StorageDriver, StorageObjectInfo, ByteRange, SignedUrlOptions, contentDisposition } from './storage.driver';
+import { NotFoundError } from '../../utils/errors';
+
+/**
+ * Files in an S3-compatible bucket (AWS S3, MinIO, Ceph, ...). Set S3_ENDPOINT
+ * and S3_FORCE_PATH_STYLE=true for MinIO; without S3_ACCESS_KEY_ID the AWS
+ * default credential chain (e.g. an instance role) is used.
+ * يخزن الملفات في حاوية متوافقة مع S3
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  private client: S3Client;
+  private readonly BUCKET = process.env.S3_BUCKET || 'documents';
+  private readonly PREFIX = process.env.S3_PREFIX || '';
+
+  constructor() {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: process.env.S3_ACCESS_KEY_ID
+        ? {
+          accessKeyId: process.env.S3_ACCESS_KEY_ID,
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || ''
+        }
+        : undefined
+    });
+  }
+
+  async putFile(key: string, filePath: string, contentType?: string): Promise<StorageObjectInfo> {
+    const { size } = await fs.stat(filePath);
+    await this.putStream(key, createReadStream(filePath), size, contentType);
+    await fs.unlink(filePath).catch(() => {});
+    return { size, contentType };
+  }
+
+  async putStream(key: string, body: Readable, size: number, contentType?: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.BUCKET,
+      Key: this.objectKey(key),
+      Body: body,
+      ContentLength: size,
+      ContentType: contentType
+    }));
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.BUCKET,
+        Key: this.objectKey(key),
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined
+      }));
+      return response.Body as Readable;
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        throw new NotFoundError('File');
+      }
+      throw error;
+    }
+  }
+
+  async stat(key: string): Promise<StorageObjectInfo | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({
+        Bucket: this.BUCKET,
+        Key: this.objectKey(key)
+      }));
+      return { size: response.ContentLength ?? 0, contentType: response.ContentType };
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.BUCKET,
+      Key: this.objectKey(key)
+    }));
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    return getSignedUrl(this.client, new GetObjectCommand({
+      Bucket: this.BUCKET,
+      Key: this.objectKey(key),
+      ResponseContentDisposition: options.filename ? contentDisposition(options.filename) : undefined,
+      ResponseContentType: options.contentType
+    }), { expiresIn: options.expiresIn });
+  }
+
+  async withLocalFile<T>(key: string, fn: (filePath: string) => Promise<T>): Promise<T> {
+    // Processors (pdf-parse, OCR, xlsx) need a file on disk
+    const filePath = path.join(os.tmpdir(), `storage-${crypto.randomBytes(8).toString('hex')}${path.extname(key)}`);
+
+    try {
+      await pipeline(await this.createReadStream(key), createWriteStream(filePath));
+      return await fn(filePath);
+    } finally {
+      await fs.unlink(filePath).catch(() => {});
+    }
+  }
+
+  private objectKey(key: string): string {
+    return this.PREFIX ? `${this.PREFIX.replace(/\/$/, '')}/${key}` : key;
+  }
+
+  private isNotFound(error: any): boolean {
+    return error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404;
+  }
+}
@@ -0,0 +1,65 @@
+// backend/src/services/storage/storage.driver.ts
+
+import { Readable } from 'stream';
+import crypto from 'crypto';
+import path from 'path';
+
+export type StorageDriverName = 'local' | 's3';
+
+export interface StorageObjectInfo {
+  size: number;
+  contentType?: string;
+}
+
+/** Inclusive byte range, as in an HTTP Range header */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface SignedUrlOptions {
+  /** Seconds the URL stays valid */
+  expiresIn: number;
+  /** Download name offered to the browser */
+  filename?: string;
+  contentType?: string;
+}
+
+/**
+ * Contract implemented by every file store (local disk, S3-compatible).
+ * Keys are relative paths such as "documents/3f2a….pdf"; documents record
+ * the driver their file was written with, so drivers can be switched later.
+ * واجهة موحدة لتخزين ملفات المستندات
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  /** Store a local file under key; the file is moved, not copied */
+  putFile(key: string, filePath: string, contentType?: string): Promise<StorageObjectInfo>;
+  /** Store a stream of known length */
+  putStream(key: string, body: Readable, size: number, contentType?: string): Promise<void>;
+  /** Read the object, or part of it; NotFoundError when it does not exist */
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  /** Size of the object, or null when it does not exist */
+  stat(key: string): Promise<StorageObjectInfo | null>;
+  delete(key: string): Promise<void>;
+  /** Time-limited URL a browser can download from without the API token */
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+  /** Run fn with the object as a local file, downloading it first if needed */
+  withLocalFile<T>(key: string, fn: (filePath: string) => Promise<T>): Promise<T>;
+}
+
+/**
+ * New, unguessable key for an uploaded file, keeping its extension
+ */
+export function createStorageKey(originalName: string, prefix: string = 'documents'): string {
+  return `${prefix}/${crypto.randomBytes(16).toString('hex')}${path.extname(originalName).toLowerCase()}`;
+}
+
+/**
+ * Content-Disposition value that keeps non-ASCII (e.g. Arabic) file names intact
+ */
+export function contentDisposition(filename: string, type: 'attachment' | 'inline' = 'attachment'): string {
+  const fallback = filename.replace(/[^\x20-\x7E]/g, '_').replace(/["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
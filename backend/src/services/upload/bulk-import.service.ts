@@ -0,0 +1,628 @@
+// backend/src/services/upload/bulk-import.service.ts
+
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import yauzl from 'yauzl';
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { getStorageDriver, createStorageKey } from '../storage';
+import { documentReviewService } from '../review/document-review.service';
+import { ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+export const DOCUMENT_CATEGORIES = ['SOPs', 'Safety', 'Equipment', 'Training', 'Reports', 'Other'] as const;
+export const DOCUMENT_LANGUAGES = ['en', 'ar', 'de'] as const;
+
+type DocumentCategory = typeof DOCUMENT_CATEGORIES[number];
+type DocumentLanguage = typeof DOCUMENT_LANGUAGES[number];
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.txt': 'text/plain',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png'
+};
+
+// Archive clutter from macOS and Windows
+const IGNORED_ENTRY = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$|desktop\.ini$)/i;
+const MANIFEST_ENTRY = /^(?:[^/]+\/)?manifest\.(csv|json)$/i;
+const MAX_MANIFEST_SIZE = 10 * 1024 * 1024;
+
+export interface ImportOptions {
+  warehouseId: string;
+  userId: string;
+  /** Largest file accepted from the archive */
+  maxFileSize: number;
+  /** Used when neither the manifest nor the folder names say otherwise */
+  defaults: {
+    category: DocumentCategory;
+    language: DocumentLanguage;
+    departmentId?: string;
+    isPublic: boolean;
+    tags: string[];
+  };
+  onDuplicate: 'reject' | 'link' | 'upload';
+  /** Called after each archive entry, e.g. to report job progress */
+  onProgress?: (processed: number, total: number) => Promise<void> | void;
+}
+
+/**
+ * A manifest line: metadata for one path in the archive
+ */
+export interface ManifestEntry {
+  path: string;
+  title?: string;
+  description?: string;
+  category?: string;
+  department?: string;
+  language?: string;
+  tags?: string[];
+}
+
+export type ImportOutcome = 'created' | 'duplicate' | 'linked' | 'skipped' | 'failed';
+
+export interface ImportFileResult {
+  path: string;
+  outcome: ImportOutcome;
+  documentId?: string;
+  /** Existing document with the same content */
+  duplicateOf?: string;
+  title?: string;
+  category?: string;
+  departmentId?: string | null;
+  reason?: string;
+}
+
+export interface ImportReport {
+  total: number;
+  counts: Record<ImportOutcome, number>;
+  /** Name of the manifest found in the archive, if any */
+  manifest: string | null;
+  /** Documents created, to be queued for processing */
+  documentIds: string[];
+  files: ImportFileResult[];
+}
+
+interface Department {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface ExtractedFile {
+  result: ImportFileResult;
+  /** Staged copy on local disk until the file is put into storage */
+  filePath: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  fileHash: string;
+  description?: string;
+  language: DocumentLanguage;
+  tags: string[];
+}
+
+/**
+ * Imports a ZIP of documents, e.g. a legacy file share. Metadata comes from an
+ * optional manifest.csv / manifest.json at the archive root (columns: path,
+ * title, description, category, department, language, tags), and otherwise
+ * from folder names: a folder named like a category ("Safety", "SOP") sets the
+ * category, one named like a department (name or code) sets the department.
+ * يستورد أرشيف ZIP من المستندات مع بياناتها الوصفية
+ */
+export class BulkImportService {
+  private prisma: TenantPrismaClient;
+  private readonly BATCH_SIZE = parseInt(process.env.IMPORT_BATCH_SIZE || '500');
+  private readonly MAX_FILES = parseInt(process.env.IMPORT_MAX_FILES || '5000');
+  private readonly STAGING_DIR = path.join(process.cwd(), 'uploads', 'tmp');
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Import every supported file of the archive and report the outcome per file.
+   * Only the archive's directory is read up front; entries are streamed from
+   * disk one at a time, so memory use does not grow with the archive.
+   * يستورد ملفات الأرشيف ويعيد تقريراً لكل ملف
+   */
+  async import(zipPath: string, options: ImportOptions): Promise<ImportReport> {
+    const { zipfile, entries } = await this.openArchive(zipPath);
+
+    try {
+      return await this.importEntries(zipfile, entries, options);
+    } finally {
+      zipfile.close();
+    }
+  }
+
+  private async importEntries(zipfile: yauzl.ZipFile, entries: yauzl.Entry[], options: ImportOptions): Promise<ImportReport> {
+    const files = entries.filter(entry => !entry.fileName.endsWith('/') && !IGNORED_ENTRY.test(entry.fileName));
+
+    const manifestEntry = files.find(entry => MANIFEST_ENTRY.test(entry.fileName));
+    const documentEntries = files.filter(entry => entry !== manifestEntry);
+
+    if (documentEntries.length > this.MAX_FILES) {
+      throw new ValidationError(`The archive has ${documentEntries.length} files; at most ${this.MAX_FILES} can be imported at once`);
+    }
+
+    const manifest = manifestEntry ? await this.readManifest(zipfile, manifestEntry) : new Map<string, ManifestEntry>();
+
+    const departments = await this.prisma.department.findMany({
+      where: { warehouseId: options.warehouseId },
+      select: { id: true, name: true, code: true }
+    });
+
+    const results: ImportFileResult[] = [];
+    const extracted: ExtractedFile[] = [];
+    const seen = new Set<string>();
+
+    try {
+      for (const [index, entry] of documentEntries.entries()) {
+        const entryPath = this.normalizePath(entry.fileName);
+        seen.add(entryPath.toLowerCase());
+
+        const file = await this.extract(zipfile, entry, entryPath, manifest.get(entryPath.toLowerCase()), departments, options);
+        results.push(file.result);
+        if (file.result.outcome === 'created') {
+          extracted.push(file as ExtractedFile);
+        }
+        await options.onProgress?.(index + 1, documentEntries.length);
+      }
+
+      // Manifest lines without a file usually mean a typo in the path
+      for (const [key, line] of manifest) {
+        if (!seen.has(key)) {
+          results.push({ path: line.path, outcome: 'failed', reason: 'Listed in the manifest but not found in the archive' });
+        }
+      }
+
+      const documentIds = await this.createDocuments(extracted, options);
+
+      const counts = { created: 0, duplicate: 0, linked: 0, skipped: 0, failed: 0 };
+      for (const result of results) {
+        counts[result.outcome]++;
+      }
+
+      return {
+        total: results.length,
+        counts,
+        manifest: manifestEntry ? manifestEntry.fileName : null,
+        documentIds,
+        files: results
+      };
+    } catch (error) {
+      await Promise.all(extracted.map(file => fs.unlink(file.filePath).catch(() => {})));
+      throw error;
+    }
+  }
+
+  /**
+   * Stage one archive entry on local disk and resolve its metadata
+   */
+  private async extract(
+    zipfile: yauzl.ZipFile,
+    entry: yauzl.Entry,
+    entryPath: string,
+    manifestEntry: ManifestEntry | undefined,
+    departments: Department[],
+    options: ImportOptions
+  ): Promise<{ result: ImportFileResult } | ExtractedFile> {
+    const originalName = path.posix.basename(entryPath);
+    const extension = path.extname(originalName).toLowerCase();
+    const mimeType = MIME_TYPES[extension];
+
+    if (!mimeType) {
+      return { result: { path: entryPath, outcome: 'skipped', reason: `Unsupported file type "${extension || originalName}"` } };
+    }
+
+    const folders = path.posix.dirname(entryPath).split('/').filter(folder => folder !== '.');
+
+    const category = manifestEntry?.category
+      ? this.matchCategory(manifestEntry.category)
+      : folders.map(folder => this.matchCategory(folder)).find(Boolean) || options.defaults.category;
+    if (!category) {
+      return { result: { path: entryPath, outcome: 'failed', reason: `Unknown category "${manifestEntry!.category}"` } };
+    }
+
+    const department = manifestEntry?.department
+      ? this.matchDepartment(manifestEntry.department, departments)
+      : folders.map(folder => this.matchDepartment(folder, departments)).find(Boolean);
+    if (manifestEntry?.department && !department) {
+      return { result: { path: entryPath, outcome: 'failed', reason: `Unknown department "${manifestEntry.department}"` } };
+    }
+
+    const language = (manifestEntry?.language?.toLowerCase() || options.defaults.language) as DocumentLanguage;
+    if (!DOCUMENT_LANGUAGES.includes(language)) {
+      return { result: { path: entryPath, outcome: 'failed', reason: `Unsupported language "${manifestEntry!.language}"` } };
+    }
+
+    const result: ImportFileResult = {
+      path: entryPath,
+      outcome: 'created',
+      title: manifestEntry?.title || path.basename(originalName, path.extname(originalName)),
+      category,
+      departmentId: department?.id ?? options.defaults.departmentId ?? null
+    };
+
+    // The directory's size is checked again while streaming; it can lie
+    if (entry.uncompressedSize > options.maxFileSize) {
+      return { result: { ...result, outcome: 'failed', reason: this.sizeLimitMessage(options.maxFileSize) } };
+    }
+
+    const filePath = path.join(this.STAGING_DIR, `${crypto.randomBytes(16).toString('hex')}${extension}`);
+
+    try {
+      await fs.mkdir(this.STAGING_DIR, { recursive: true });
+      const { size, fileHash } = await this.writeEntry(await this.openEntry(zipfile, entry), filePath, options.maxFileSize);
+
+      return {
+        result,
+        filePath,
+        originalName,
+        mimeType,
+        size,
+        fileHash,
+        description: manifestEntry?.description,
+        language,
+        tags: [...new Set([...options.defaults.tags, ...(manifestEntry?.tags || [])])]
+      };
+    } catch (error) {
+      await fs.unlink(filePath).catch(() => {});
+      const reason = error instanceof Error ? error.message : 'Extraction failed';
+      return { result: { ...result, outcome: 'failed', reason } };
+    }
+  }
+
+  /**
+   * Stream an entry to disk, hashing it and stopping at the size limit so a
+   * zip bomb cannot fill the disk
+   */
+  private async writeEntry(
+    stream: Readable,
+    filePath: string,
+    maxFileSize: number
+  ): Promise<{ size: number; fileHash: string }> {
+    const hash = crypto.createHash('sha256');
+    const tooLarge = this.sizeLimitMessage(maxFileSize);
+    let size = 0;
+
+    const meter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        if (size > maxFileSize) {
+          callback(new Error(tooLarge));
+          return;
+        }
+        hash.update(chunk);
+        callback(null, chunk);
+      }
+    });
+
+    await pipeline(stream, meter, createWriteStream(filePath));
+    return { size, fileHash: hash.digest('hex') };
+  }
+
+  private sizeLimitMessage(maxFileSize: number): string {
+    return `File is larger than ${Math.round(maxFileSize / (1024 * 1024))} MB`;
+  }
+
+  /**
+   * Read the archive's central directory without loading the entries
+   */
+  private openArchive(zipPath: string): Promise<{ zipfile: yauzl.ZipFile; entries: yauzl.Entry[] }> {
+    return new Promise((resolve, reject) => {
+      yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (error, zipfile) => {
+        if (error || !zipfile) {
+          reject(new ValidationError(`The upload is not a valid ZIP archive: ${error?.message ?? 'unreadable'}`));
+          return;
+        }
+
+        const entries: yauzl.Entry[] = [];
+        zipfile.on('entry', (entry: yauzl.Entry) => {
+          entries.push(entry);
+          zipfile.readEntry();
+        });
+        zipfile.once('end', () => resolve({ zipfile, entries }));
+        zipfile.once('error', (readError: Error) => {
+          zipfile.close();
+          reject(new ValidationError(`The upload is not a valid ZIP archive: ${readError.message}`));
+        });
+        zipfile.readEntry();
+      });
+    });
+  }
+
+  private openEntry(zipfile: yauzl.ZipFile, entry: yauzl.Entry): Promise<Readable> {
+    return new Promise((resolve, reject) => {
+      zipfile.openReadStream(entry, (error, stream) => {
+        if (error || !stream) {
+          reject(error ?? new Error('Entry could not be read'));
+          return;
+        }
+        resolve(stream);
+      });
+    });
+  }
+
+  /**
+   * Put the new files into storage, then create the documents, their first
+   * versions and department links in bulk, leaving out files the warehouse
+   * (or the archive itself) already has
+   */
+  private async createDocuments(files: ExtractedFile[], options: ImportOptions): Promise<string[]> {
+    const existing = options.onDuplicate === 'upload'
+      ? []
+      : await this.prisma.document.findMany({
+        where: { warehouseId: options.warehouseId, fileHash: { in: [...new Set(files.map(file => file.fileHash))] } },
+        select: { id: true, fileHash: true, departmentId: true, departmentLinks: { select: { departmentId: true } } }
+      });
+
+    // Hash → document and the departments that already have it
+    const known = new Map<string, { id: string; departments: Set<string | null> }>(existing.map(document => [document.fileHash!, {
+      id: document.id,
+      departments: new Set([document.departmentId, ...document.departmentLinks.map(link => link.departmentId)])
+    }]));
+
+    const storage = getStorageDriver();
+    const documents: any[] = [];
+    const versions: any[] = [];
+    const links: any[] = [];
+    let committed = 0;
+
+    try {
+      for (const file of files) {
+        const duplicate = options.onDuplicate === 'upload' ? undefined : known.get(file.fileHash);
+
+        if (duplicate) {
+          await fs.unlink(file.filePath).catch(() => {});
+          file.result.duplicateOf = duplicate.id;
+
+          const departmentId = file.result.departmentId;
+          if (options.onDuplicate === 'link' && departmentId && !duplicate.departments.has(departmentId)) {
+            links.push({ documentId: duplicate.id, departmentId, linkedById: options.userId });
+            duplicate.departments.add(departmentId);
+            file.result.outcome = 'linked';
+          } else {
+            file.result.outcome = 'duplicate';
+          }
+          continue;
+        }
+
+        const key = createStorageKey(file.originalName);
+        await storage.putFile(key, file.filePath, file.mimeType);
+
+        const id = crypto.randomUUID();
+        file.result.documentId = id;
+        known.set(file.fileHash, { id, departments: new Set([file.result.departmentId ?? null]) });
+        const reviewStatus = documentReviewService.initialStatus(file.result.category!);
+
+        documents.push({
+          id,
+          title: file.result.title,
+          description: file.description,
+          category: file.result.category,
+          filename: path.posix.basename(key),
+          originalName: file.originalName,
+          mimeType: file.mimeType,
+          size: file.size,
+          path: key,
+          storageDriver: storage.name,
+          fileHash: file.fileHash,
+          language: file.language,
+          isPublic: options.defaults.isPublic,
+          uploadedById: options.userId,
+          warehouseId: options.warehouseId,
+          departmentId: file.result.departmentId,
+          status: 'pending',
+          reviewStatus,
+          approvedVersion: reviewStatus === 'approved' ? 1 : null,
+          metadata: {
+            tags: file.tags,
+            uploadDate: new Date().toISOString(),
+            importedFrom: file.result.path
+          }
+        });
+        versions.push({
+          documentId: id,
+          version: 1,
+          filename: path.posix.basename(key),
+          originalName: file.originalName,
+          mimeType: file.mimeType,
+          size: file.size,
+          path: key,
+          storageDriver: storage.name,
+          fileHash: file.fileHash,
+          uploadedById: options.userId
+        });
+      }
+
+      for (; committed < documents.length; committed += this.BATCH_SIZE) {
+        await this.prisma.$transaction([
+          this.prisma.document.createMany({ data: documents.slice(committed, committed + this.BATCH_SIZE) }),
+          this.prisma.documentVersion.createMany({ data: versions.slice(committed, committed + this.BATCH_SIZE) })
+        ]);
+      }
+    } catch (error) {
+      // Files of batches that were already created stay with their documents
+      await Promise.all(documents.slice(committed).map(document => storage.delete(document.path).catch(() => {})));
+      throw error;
+    }
+
+    if (links.length > 0) {
+      await this.prisma.documentDepartment.createMany({ data: links, skipDuplicates: true });
+    }
+
+    logger.info(`Imported ${documents.length} documents into warehouse ${options.warehouseId}`);
+    return documents.map(document => document.id);
+  }
+
+  /**
+   * Manifest lines keyed by lower-cased path
+   */
+  private async readManifest(zipfile: yauzl.ZipFile, entry: yauzl.Entry): Promise<Map<string, ManifestEntry>> {
+    if (entry.uncompressedSize > MAX_MANIFEST_SIZE) {
+      throw new ValidationError(`${entry.fileName} is larger than ${MAX_MANIFEST_SIZE / (1024 * 1024)} MB`);
+    }
+
+    const buffers: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of await this.openEntry(zipfile, entry)) {
+      size += chunk.length;
+      if (size > MAX_MANIFEST_SIZE) {
+        throw new ValidationError(`${entry.fileName} is larger than ${MAX_MANIFEST_SIZE / (1024 * 1024)} MB`);
+      }
+      buffers.push(chunk);
+    }
+
+    const text = Buffer.concat(buffers).toString('utf8').replace(/^\uFEFF/, '');
+    const lines = entry.fileName.toLowerCase().endsWith('.json')
+      ? this.parseJsonManifest(text)
+      : this.parseCsvManifest(text);
+
+    // Paths in the manifest are relative to the manifest's own folder
+    const base = path.posix.dirname(this.normalizePath(entry.fileName));
+    const manifest = new Map<string, ManifestEntry>();
+    for (const line of lines) {
+      const linePath = this.normalizePath(base === '.' ? line.path : `${base}/${line.path}`);
+      manifest.set(linePath.toLowerCase(), { ...line, path: linePath });
+    }
+    return manifest;
+  }
+
+  private parseJsonManifest(text: string): ManifestEntry[] {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new ValidationError('manifest.json is not valid JSON');
+    }
+
+    // Either an array of entries or an object keyed by path
+    const entries: any[] = Array.isArray(data)
+      ? data
+      : Object.entries(data ?? {}).map(([entryPath, value]) => ({ ...(value as object), path: entryPath }));
+
+    return entries
+      .filter(entry => typeof entry?.path === 'string' && entry.path.trim())
+      .map(entry => ({
+        path: entry.path,
+        title: entry.title || undefined,
+        description: entry.description || undefined,
+        category: entry.category || undefined,
+        department: entry.department || undefined,
+        language: entry.language || undefined,
+        tags: this.parseTags(entry.tags)
+      }));
+  }
+
+  private parseCsvManifest(text: string): ManifestEntry[] {
+    // Excel in German and Arabic locales saves with semicolons
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    const delimiter = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+    const [header, ...rows] = this.parseCsv(text, delimiter);
+    const columns = (header || []).map(column => column.trim().toLowerCase());
+
+    if (!columns.includes('path')) {
+      throw new ValidationError('manifest.csv needs a "path" column');
+    }
+
+    return rows
+      .map(row => Object.fromEntries(columns.map((column, index) => [column, row[index]?.trim() || undefined])))
+      .filter(row => row.path)
+      .map(row => ({
+        path: row.path!,
+        title: row.title,
+        description: row.description,
+        category: row.category,
+        department: row.department,
+        language: row.language,
+        tags: this.parseTags(row.tags)
+      }));
+  }
+
+  /**
+   * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+   */
+  private parseCsv(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+  }
+
+  // Tags as a JSON array or a "|"-separated string
+  private parseTags(tags: unknown): string[] {
+    if (Array.isArray(tags)) {
+      return tags.map(String).map(tag => tag.trim()).filter(Boolean);
+    }
+    if (typeof tags === 'string') {
+      return tags.split('|').map(tag => tag.trim()).filter(Boolean);
+    }
+    return [];
+  }
+
+  // "SOP", "sops" and "Safety" match the categories; anything else does not
+  private matchCategory(value: string): DocumentCategory | undefined {
+    const key = value.trim().toLowerCase().replace(/s$/, '');
+    return DOCUMENT_CATEGORIES.find(category => category.toLowerCase().replace(/s$/, '') === key);
+  }
+
+  private matchDepartment(value: string, departments: Department[]): Department | undefined {
+    const key = value.trim().toLowerCase();
+    return departments.find(department =>
+      department.id === value.trim()
+      || department.code.toLowerCase() === key
+      || department.name.toLowerCase() === key
+    );
+  }
+
+  private normalizePath(entryPath: string): string {
+    return path.posix.normalize(entryPath.replace(/\\/g, '/')).replace(/^(\.\/|\/)+/, '');
+  }
+}
+
+export const bulkImportService = new BulkImportService();
@@ -0,0 +1,378 @@
+// backend/src/services/upload/resumable-upload.service.ts
+
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs/promises';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+export const ALLOWED_MIME_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'text/plain',
+  'image/jpeg',
+  'image/png'
+];
+
+const UPLOAD_ROLES = ['Admin', 'Expert', 'Worker'];
+
+/**
+ * An upload staged on the API server's disk, before it is moved into storage
+ */
+export interface StagedFile {
+  filename: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  path: string;
+}
+
+export interface CreateUploadInput {
+  originalName: string;
+  mimeType: string;
+  size: number;
+  /** SHA-256 of the whole file, hex */
+  checksum: string;
+  metadata: Record<string, any>;
+}
+
+export interface UploadStatus {
+  id: string;
+  originalName: string;
+  size: number;
+  partSize: number;
+  totalParts: number;
+  receivedParts: number[];
+  missingParts: number[];
+  receivedBytes: number;
+  status: string;
+  documentId: string | null;
+  expiresAt: Date;
+}
+
+/**
+ * Resumable uploads for large files on unreliable connections. The client
+ * opens a session, sends fixed-size parts in any order (each with an optional
+ * SHA-256), asks which parts are missing after a dropped connection, and
+ * completes the session once every part is stored. Parts are assembled on
+ * completion and the whole file is checked against the declared checksum.
+ * يدير عمليات الرفع القابلة للاستئناف للملفات الكبيرة
+ */
+export class ResumableUploadService {
+  private prisma: TenantPrismaClient;
+  private readonly PART_SIZE = parseInt(process.env.UPLOAD_PART_SIZE || String(5 * 1024 * 1024));
+  private readonly SESSION_TTL_HOURS = parseInt(process.env.UPLOAD_SESSION_TTL_HOURS || '24');
+  private readonly DEFAULT_MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || String(50 * 1024 * 1024));
+  private readonly PARTS_DIR = path.join(process.cwd(), 'uploads', 'parts');
+  private readonly STAGING_DIR = path.join(process.cwd(), 'uploads', 'tmp');
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  get partSize(): number {
+    return this.PART_SIZE;
+  }
+
+  /**
+   * Largest file a role may upload (MAX_FILE_SIZE_<ROLE>, else MAX_FILE_SIZE);
+   * without a role, the largest limit of any role
+   * يحدد الحجم الأقصى للملف حسب الدور
+   */
+  maxFileSize(role?: string): number {
+    if (!role) {
+      return Math.max(...UPLOAD_ROLES.map(uploadRole => this.maxFileSize(uploadRole)));
+    }
+
+    const limit = process.env[`MAX_FILE_SIZE_${role.toUpperCase()}`];
+    return limit ? parseInt(limit) : this.DEFAULT_MAX_FILE_SIZE;
+  }
+
+  /**
+   * Open an upload session
+   * يبدأ جلسة رفع جديدة
+   */
+  async create(userId: string, role: string, input: CreateUploadInput): Promise<UploadStatus> {
+    if (!ALLOWED_MIME_TYPES.includes(input.mimeType)) {
+      throw new AppError('Invalid file type. Only PDF, DOCX, XLSX, PPTX, TXT, JPG, and PNG files are allowed.', 415);
+    }
+
+    const limit = this.maxFileSize(role);
+    if (input.size > limit) {
+      throw new AppError(`Files larger than ${this.formatSize(limit)} are not allowed for your role`, 413);
+    }
+
+    if (!/^[a-f0-9]{64}$/i.test(input.checksum)) {
+      throw new ValidationError('Checksum must be a hex SHA-256 digest');
+    }
+
+    // Sessions abandoned by other uploads are cleaned up along the way
+    this.removeExpired().catch(error => logger.warn('Failed to remove expired upload sessions:', error));
+
+    const session = await this.prisma.uploadSession.create({
+      data: {
+        userId,
+        originalName: input.originalName,
+        mimeType: input.mimeType,
+        size: input.size,
+        checksum: input.checksum.toLowerCase(),
+        partSize: this.PART_SIZE,
+        receivedParts: [],
+        metadata: input.metadata,
+        expiresAt: this.expiryFromNow()
+      }
+    });
+
+    await fs.mkdir(this.partsPath(session.id), { recursive: true });
+    return this.toStatus(session);
+  }
+
+  /**
+   * Parts received so far, for resuming after a dropped connection
+   * يعرض حالة جلسة الرفع
+   */
+  async getStatus(userId: string, uploadId: string): Promise<UploadStatus> {
+    return this.toStatus(await this.getSession(userId, uploadId));
+  }
+
+  /**
+   * Store one part. Sending a part again replaces it, so retries are safe.
+   * يحفظ جزءاً من الملف
+   */
+  async writePart(
+    userId: string,
+    uploadId: string,
+    partNumber: number,
+    data: Buffer,
+    checksum?: string
+  ): Promise<UploadStatus> {
+    const session = await this.getActiveSession(userId, uploadId);
+    const totalParts = this.countParts(session);
+
+    if (!Number.isInteger(partNumber) || partNumber < 0 || partNumber >= totalParts) {
+      throw new ValidationError(`Part number must be between 0 and ${totalParts - 1}`);
+    }
+
+    const expectedLength = this.partLength(session, partNumber);
+    if (data.length !== expectedLength) {
+      throw new ValidationError(`Part ${partNumber} must be ${expectedLength} bytes, got ${data.length}`);
+    }
+
+    if (checksum && crypto.createHash('sha256').update(data).digest('hex') !== checksum.toLowerCase()) {
+      throw new AppError(`Part ${partNumber} does not match its checksum`, 422, 'CHECKSUM_MISMATCH');
+    }
+
+    // Written under a temporary name so an interrupted write never looks complete
+    const partPath = this.partPath(uploadId, partNumber);
+    await fs.mkdir(this.partsPath(uploadId), { recursive: true });
+    await fs.writeFile(`${partPath}.tmp`, data);
+    await fs.rename(`${partPath}.tmp`, partPath);
+
+    // Parts may arrive concurrently; append atomically and only once
+    await this.prisma.$executeRaw`
+      UPDATE upload_sessions
+      SET received_parts = CASE
+            WHEN ${partNumber}::int = ANY(received_parts) THEN received_parts
+            ELSE array_append(received_parts, ${partNumber}::int)
+          END,
+          expires_at = ${this.expiryFromNow()},
+          updated_at = NOW()
+      WHERE id = ${uploadId}::uuid
+    `;
+
+    return this.getStatus(userId, uploadId);
+  }
+
+  /**
+   * Assemble the parts into a staged file and verify the whole-file checksum.
+   * The session stays open until finish(), so a failed document step can be retried.
+   * يجمع الأجزاء ويتحقق من سلامة الملف
+   */
+  async assemble(userId: string, uploadId: string): Promise<{ file: StagedFile; metadata: Record<string, any> }> {
+    const session = await this.getActiveSession(userId, uploadId);
+    const status = this.toStatus(session);
+
+    if (status.missingParts.length > 0) {
+      throw new ConflictError(`${status.missingParts.length} of ${status.totalParts} parts have not been uploaded yet`);
+    }
+
+    const filename = `${crypto.randomBytes(16).toString('hex')}${path.extname(session.originalName)}`;
+    const filePath = path.join(this.STAGING_DIR, filename);
+    const hash = crypto.createHash('sha256');
+
+    await fs.mkdir(this.STAGING_DIR, { recursive: true });
+    const output = await fs.open(filePath, 'w');
+    try {
+      // One part in memory at a time
+      for (let partNumber = 0; partNumber < status.totalParts; partNumber++) {
+        const data = await fs.readFile(this.partPath(uploadId, partNumber));
+        hash.update(data);
+        await output.write(data);
+      }
+    } catch (error) {
+      await fs.unlink(filePath).catch(() => {});
+      throw error;
+    } finally {
+      await output.close();
+    }
+
+    if (hash.digest('hex') !== session.checksum) {
+      // Without knowing which part is corrupt, every part has to be sent again
+      await fs.unlink(filePath).catch(() => {});
+      await this.resetParts(uploadId);
+      throw new AppError('The uploaded file does not match its checksum; upload it again', 422, 'CHECKSUM_MISMATCH');
+    }
+
+    return {
+      file: {
+        filename,
+        originalName: session.originalName,
+        mimeType: session.mimeType,
+        size: Number(session.size),
+        path: filePath
+      },
+      metadata: session.metadata as Record<string, any>
+    };
+  }
+
+  /**
+   * Close the session once its file has become a document, and drop the parts
+   * يغلق جلسة الرفع بعد إنشاء المستند
+   */
+  async finish(uploadId: string, documentId: string | null): Promise<void> {
+    await this.prisma.uploadSession.update({
+      where: { id: uploadId },
+      data: { status: 'completed', documentId }
+    });
+    await fs.rm(this.partsPath(uploadId), { recursive: true, force: true });
+  }
+
+  /**
+   * Abandon an upload
+   * يلغي جلسة الرفع
+   */
+  async cancel(userId: string, uploadId: string): Promise<void> {
+    await this.getSession(userId, uploadId);
+    await fs.rm(this.partsPath(uploadId), { recursive: true, force: true });
+    await this.prisma.uploadSession.delete({ where: { id: uploadId } });
+  }
+
+  /**
+   * Delete sessions nobody has touched within UPLOAD_SESSION_TTL_HOURS
+   */
+  async removeExpired(): Promise<number> {
+    const expired = await this.prisma.uploadSession.findMany({
+      where: { expiresAt: { lt: new Date() } },
+      select: { id: true }
+    });
+
+    for (const session of expired) {
+      await fs.rm(this.partsPath(session.id), { recursive: true, force: true });
+    }
+
+    const { count } = await this.prisma.uploadSession.deleteMany({
+      where: { id: { in: expired.map(session => session.id) } }
+    });
+    if (count > 0) {
+      logger.info(`Removed ${count} expired upload sessions`);
+    }
+    return count;
+  }
+
+  private async getSession(userId: string, uploadId: string) {
+    const session = await this.prisma.uploadSession.findFirst({
+      where: { id: uploadId, userId }
+    });
+
+    if (!session) {
+      throw new NotFoundError('Upload');
+    }
+    return session;
+  }
+
+  private async getActiveSession(userId: string, uploadId: string) {
+    const session = await this.getSession(userId, uploadId);
+
+    if (session.status !== 'uploading') {
+      throw new ConflictError('This upload has already been completed');
+    }
+    if (session.expiresAt < new Date()) {
+      throw new AppError('This upload has expired; start it again', 410, 'UPLOAD_EXPIRED');
+    }
+    return session;
+  }
+
+  private async resetParts(uploadId: string): Promise<void> {
+    await fs.rm(this.partsPath(uploadId), { recursive: true, force: true });
+    await fs.mkdir(this.partsPath(uploadId), { recursive: true });
+    await this.prisma.uploadSession.update({
+      where: { id: uploadId },
+      data: { receivedParts: [] }
+    });
+  }
+
+  private toStatus(session: {
+    id: string;
+    originalName: string;
+    size: bigint;
+    partSize: number;
+    receivedParts: number[];
+    status: string;
+    documentId: string | null;
+    expiresAt: Date;
+  }): UploadStatus {
+    const totalParts = this.countParts(session);
+    const received = new Set(session.receivedParts);
+    const receivedParts = [...received].sort((a, b) => a - b);
+    const missingParts: number[] = [];
+    for (let partNumber = 0; partNumber < totalParts; partNumber++) {
+      if (!received.has(partNumber)) {
+        missingParts.push(partNumber);
+      }
+    }
+
+    return {
+      id: session.id,
+      originalName: session.originalName,
+      size: Number(session.size),
+      partSize: session.partSize,
+      totalParts,
+      receivedParts,
+      missingParts,
+      receivedBytes: receivedParts.reduce((total, partNumber) => total + this.partLength(session, partNumber), 0),
+      status: session.status,
+      documentId: session.documentId,
+      expiresAt: session.expiresAt
+    };
+  }
+
+  private countParts(session: { size: bigint; partSize: number }): number {
+    return Math.max(1, Math.ceil(Number(session.size) / session.partSize));
+  }
+
+  // Every part is partSize bytes except the last
+  private partLength(session: { size: bigint; partSize: number }, partNumber: number): number {
+    return Math.min(session.partSize, Number(session.size) - partNumber * session.partSize);
+  }
+
+  private partsPath(uploadId: string): string {
+    return path.join(this.PARTS_DIR, uploadId);
+  }
+
+  private partPath(uploadId: string, partNumber: number): string {
+    return path.join(this.partsPath(uploadId), `${partNumber}.part`);
+  }
+
+  private expiryFromNow(): Date {
+    return new Date(Date.now() + this.SESSION_TTL_HOURS * 60 * 60 * 1000);
+  }
+
+  private formatSize(bytes: number): string {
+    return `${Math.round(bytes / (1024 * 1024))} MB`;
+  }
+}
+
+export const resumableUploadService = new ResumableUploadService();
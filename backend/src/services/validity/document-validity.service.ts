@@ -0,0 +1,193 @@
+// backend/src/services/validity/document-validity.service.ts
+
+import { createPrismaClient, TenantPrismaClient } from '../../lib/prisma';
+import { runAsSystem } from '../../lib/tenant-context';
+import { notificationService } from '../notification/notification.service';
+import { logger } from '../../utils/logger';
+
+export type ValidityStatus = 'valid' | 'not_yet_valid' | 'review_due' | 'expired';
+
+export interface ValidityDates {
+  validFrom?: Date | string | null;
+  reviewDueAt?: Date | string | null;
+  expiresAt?: Date | string | null;
+}
+
+export interface DocumentValidity {
+  status: ValidityStatus;
+  validFrom: Date | null;
+  reviewDueAt: Date | null;
+  expiresAt: Date | null;
+}
+
+export interface ValidityCheckReport {
+  flagged: number;
+  notified: number;
+}
+
+/**
+ * Validity of document content: when it takes effect (validFrom), when it
+ * has to be reviewed again (reviewDueAt) and when it stops applying
+ * (expiresAt). A scheduled check flags documents past their review date or
+ * expiry and notifies their owner, the Expert who uploaded them.
+ * يدير صلاحية المستندات ومواعيد مراجعتها
+ */
+export class DocumentValidityService {
+  private prisma: TenantPrismaClient;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly CHECK_INTERVAL_MINUTES = parseInt(process.env.VALIDITY_CHECK_INTERVAL_MINUTES || '60');
+  // Days until an approved document is due for review again; 0 leaves the date alone
+  private readonly REVIEW_INTERVAL_DAYS = parseInt(process.env.VALIDITY_REVIEW_INTERVAL_DAYS || '365');
+
+  constructor() {
+    this.prisma = createPrismaClient();
+  }
+
+  /**
+   * Validity status of a document at a point in time
+   * يحدد حالة صلاحية المستند
+   */
+  getStatus(dates: ValidityDates, now: Date = new Date()): ValidityStatus {
+    if (dates.expiresAt && new Date(dates.expiresAt) <= now) {
+      return 'expired';
+    }
+    if (dates.validFrom && new Date(dates.validFrom) > now) {
+      return 'not_yet_valid';
+    }
+    if (dates.reviewDueAt && new Date(dates.reviewDueAt) <= now) {
+      return 'review_due';
+    }
+    return 'valid';
+  }
+
+  describe(dates: ValidityDates, now: Date = new Date()): DocumentValidity {
+    const toDate = (value?: Date | string | null) => (value ? new Date(value) : null);
+
+    return {
+      status: this.getStatus(dates, now),
+      validFrom: toDate(dates.validFrom),
+      reviewDueAt: toDate(dates.reviewDueAt),
+      expiresAt: toDate(dates.expiresAt)
+    };
+  }
+
+  /**
+   * Content that should not be relied on without a warning
+   */
+  isStale(status: ValidityStatus): boolean {
+    return status === 'review_due' || status === 'expired';
+  }
+
+  /**
+   * Review date after an approval: the configured interval from now, unless
+   * a later date was already set
+   * يحسب موعد المراجعة التالي بعد الاعتماد
+   */
+  nextReviewDate(current?: Date | null, now: Date = new Date()): Date | null | undefined {
+    if (current && current > now) {
+      return current;
+    }
+    if (this.REVIEW_INTERVAL_DAYS <= 0) {
+      return current;
+    }
+    return new Date(now.getTime() + this.REVIEW_INTERVAL_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Flag documents that are past their review date or expired and notify
+   * their owners. Each document is flagged once until its dates change; a
+   * document already flagged for review is flagged again when it expires.
+   * يضع علامة على المستندات المتأخرة عن المراجعة ويبلغ مالكيها
+   */
+  async flagOverdue(now: Date = new Date()): Promise<ValidityCheckReport> {
+    const overdue = await this.prisma.document.findMany({
+      where: {
+        OR: [
+          { staleFlaggedAt: null, reviewDueAt: { lte: now } },
+          { expiryNotifiedAt: null, expiresAt: { lte: now } }
+        ]
+      },
+      select: {
+        id: true,
+        title: true,
+        reviewDueAt: true,
+        expiresAt: true,
+        staleFlaggedAt: true,
+        uploadedById: true
+      }
+    });
+
+    const report: ValidityCheckReport = { flagged: 0, notified: 0 };
+
+    for (const document of overdue) {
+      const expired = this.getStatus(document, now) === 'expired';
+
+      // Claimed with a conditional update, so parallel checks notify once
+      const { count } = await this.prisma.document.updateMany(expired
+        ? {
+          where: { id: document.id, expiryNotifiedAt: null },
+          data: { expiryNotifiedAt: now, staleFlaggedAt: document.staleFlaggedAt ?? now }
+        }
+        : {
+          where: { id: document.id, staleFlaggedAt: null },
+          data: { staleFlaggedAt: now }
+        });
+      if (count === 0) {
+        continue;
+      }
+      report.flagged++;
+
+      try {
+        await notificationService.notify(document.uploadedById, expired
+          ? {
+            type: 'document_expired',
+            title: `"${document.title}" has expired`,
+            body: `The document expired on ${document.expiresAt!.toISOString().slice(0, 10)}. Upload a current version or extend its expiry date.`,
+            documentId: document.id
+          }
+          : {
+            type: 'document_review_due',
+            title: `"${document.title}" is due for review`,
+            body: `The document was due for review on ${document.reviewDueAt!.toISOString().slice(0, 10)}. Submit it for review to confirm it is still correct.`,
+            documentId: document.id
+          });
+        report.notified++;
+      } catch (error) {
+        logger.error(`Failed to notify the owner of document ${document.id}:`, error);
+      }
+    }
+
+    if (report.flagged > 0) {
+      logger.info(`Validity check flagged ${report.flagged} documents`);
+    }
+    return report;
+  }
+
+  /**
+   * Run the check every VALIDITY_CHECK_INTERVAL_MINUTES (0 disables it)
+   * يبدأ الفحص الدوري لصلاحية المستندات
+   */
+  startScheduler(): void {
+    if (this.timer || this.CHECK_INTERVAL_MINUTES <= 0) {
+      return;
+    }
+
+    // Checks every warehouse, so it runs as the system
+    const run = () => {
+      runAsSystem(() => this.flagOverdue()).catch(error => logger.error('Document validity check failed:', error));
+    };
+
+    run();
+    this.timer = setInterval(run, this.CHECK_INTERVAL_MINUTES * 60 * 1000);
+    this.timer.unref();
+  }
+
+  stopScheduler(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const documentValidityService = new DocumentValidityService();
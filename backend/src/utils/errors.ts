@@ -99,4 +99,21 @@ export class ExternalServiceError extends AppError {
     super(message, 503, 'EXTERNAL_SERVICE_ERROR', false);
     this.service = service;
   }
-}
\ No newline at end of file
+}
+/**
+ * Embedding model mismatch error class
+ */
+export class EmbeddingModelMismatchError extends AppError {
+  public readonly expectedModel: string;
+  public readonly actualModel: string;
+
+  constructor(expectedModel: string, actualModel: string) {
+    super(
+      `Cannot compare embeddings from ${actualModel} with ${expectedModel}`,
+      409,
+      'EMBEDDING_MODEL_MISMATCH'
+    );
+    this.expectedModel = expectedModel;
+    this.actualModel = actualModel;
+  }
+}
@@ -1,7 +1,7 @@
 // wmlab/frontend/components/documents/DocumentList.tsx
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, ChangeEvent } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
   Table,
@@ -53,6 +53,8 @@ import {
   Clock,
   XCircle,
   AlertCircle,
+  AlertTriangle,
+  Upload,
 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import api from '@/lib/api';
@@ -71,6 +73,15 @@ interface Document {
   size: string;
   language: string;
   status: string;
+  reviewStatus: 'draft' | 'in_review' | 'approved' | 'rejected';
+  validity: 'valid' | 'not_yet_valid' | 'review_due' | 'expired';
+  reviewDueAt?: string | null;
+  expiresAt?: string | null;
+  version: number;
+  metadata?: {
+    warnings?: string[];
+    [key: string]: any;
+  };
   uploadedBy: {
     id: string;
     name: string;
@@ -98,6 +109,7 @@ export default function DocumentList() {
   const [page, setPage] = useState(1);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
+  const versionInputRef = useRef<HTMLInputElement>(null);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -144,6 +156,56 @@ export default function DocumentList() {
     },
   });
 
+  // New version mutation
+  const uploadVersionMutation = useMutation({
+    mutationFn: async ({ id, file, changeNote }: { id: string; file: File; changeNote?: string }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (changeNote) formData.append('changeNote', changeNote);
+      const response = await api.post(`/documents/${id}/versions`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      return response.data;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: 'New version uploaded',
+        description: `Version ${data.version.version} is being processed. Search keeps using the previous version until it is ready.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to upload new version.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleVersionFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !selectedDocument) return;
+
+    const changeNote = window.prompt('What changed in this version? (optional)') || undefined;
+    uploadVersionMutation.mutate({ id: selectedDocument.id, file, changeNote });
+  };
+
+  // Downloads go straight to storage through a short-lived signed URL
+  const handleDownload = async (id: string) => {
+    try {
+      const response = await api.get(`/documents/${id}/url`);
+      window.open(response.data.url, '_blank', 'noopener');
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to download document.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleDelete = () => {
     if (selectedDocument) {
       deleteMutation.mutate(selectedDocument.id);
@@ -154,6 +216,8 @@ export default function DocumentList() {
     switch (status) {
       case 'completed':
         return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case 'warning':
+        return <AlertTriangle className="h-4 w-4 text-amber-500" />;
       case 'processing':
         return <Clock className="h-4 w-4 text-yellow-500 animate-spin" />;
       case 'failed':
@@ -168,6 +232,7 @@ export default function DocumentList() {
       case 'completed':
         return 'success';
       case 'processing':
+      case 'warning':
         return 'warning';
       case 'failed':
         return 'destructive';
@@ -252,6 +317,7 @@ export default function DocumentList() {
             <SelectContent>
               <SelectItem value="">All Status</SelectItem>
               <SelectItem value="completed">Completed</SelectItem>
+              <SelectItem value="warning">Needs Review</SelectItem>
               <SelectItem value="processing">Processing</SelectItem>
               <SelectItem value="failed">Failed</SelectItem>
               <SelectItem value="pending">Pending</SelectItem>
@@ -307,7 +373,12 @@ export default function DocumentList() {
                       <div className="flex items-center gap-2">
                         <FileText className="h-4 w-4 text-gray-400" />
                         <div>
-                          <p className="font-medium">{doc.title}</p>
+                          <p className="font-medium">
+                            {doc.title}
+                            {doc.version > 1 && (
+                              <Badge variant="outline" className="ml-2">v{doc.version}</Badge>
+                            )}
+                          </p>
                           {doc.description && (
                             <p className="text-sm text-gray-500 max-w-xs truncate">
                               {doc.description}
@@ -322,9 +393,34 @@ export default function DocumentList() {
                     <TableCell>
                       <div className="flex items-center gap-1">
                         {getStatusIcon(doc.status)}
-                        <Badge variant={getStatusColor(doc.status) as any}>
+                        <Badge
+                          variant={getStatusColor(doc.status) as any}
+                          title={doc.metadata?.warnings?.join('\n')}
+                        >
                           {doc.status}
                         </Badge>
+                        {doc.reviewStatus !== 'approved' && (
+                          <Badge
+                            variant={doc.reviewStatus === 'rejected' ? 'destructive' : 'outline'}
+                            title="Workers cannot find this document until it is approved"
+                          >
+                            {doc.reviewStatus.replace('_', ' ')}
+                          </Badge>
+                        )}
+                        {doc.validity && doc.validity !== 'valid' && (
+                          <Badge
+                            variant={(doc.validity === 'expired' ? 'destructive' : 'warning') as any}
+                            title={
+                              doc.validity === 'expired'
+                                ? `Expired ${doc.expiresAt ? new Date(doc.expiresAt).toLocaleDateString() : ''}`
+                                : doc.validity === 'review_due'
+                                  ? `Review was due ${doc.reviewDueAt ? new Date(doc.reviewDueAt).toLocaleDateString() : ''}`
+                                  : 'Not yet in effect'
+                            }
+                          >
+                            {doc.validity.replace(/_/g, ' ')}
+                          </Badge>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell>{getLanguageLabel(doc.language)}</TableCell>
@@ -362,10 +458,21 @@ export default function DocumentList() {
                             <Eye className="mr-2 h-4 w-4" />
                             View Details
                           </DropdownMenuItem>
-                          <DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleDownload(doc.id)}>
                             <Download className="mr-2 h-4 w-4" />
                             Download
                           </DropdownMenuItem>
+                          {(user?.role === 'Admin' || user?.role === 'Expert') && (
+                            <DropdownMenuItem
+                              onClick={() => {
+                                setSelectedDocument(doc);
+                                versionInputRef.current?.click();
+                              }}
+                            >
+                              <Upload className="mr-2 h-4 w-4" />
+                              Upload New Version
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuSeparator />
                           {user?.role === 'Admin' && (
                             <DropdownMenuItem
@@ -423,6 +530,15 @@ export default function DocumentList() {
         )}
       </div>
 
+      {/* File picker for new versions */}
+      <input
+        ref={versionInputRef}
+        type="file"
+        className="hidden"
+        accept=".pdf,.docx,.xlsx,.pptx,.txt,.jpg,.jpeg,.png"
+        onChange={handleVersionFile}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
@@ -1,9 +1,9 @@
 // wmlab/frontend/components/documents/DocumentUpload.tsx
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, X, FileText, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { Upload, X, FileText, CheckCircle, AlertCircle, Loader2, PauseCircle, RotateCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -21,12 +21,18 @@ import { Card } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/components/ui/use-toast';
 import api from '@/lib/api';
+import {
+  uploadResumable,
+  discardResumable,
+  getUploadLimits,
+  isConnectionError,
+} from '@/lib/resumable-upload';
 import { useAuthStore } from '@/store/auth';
 
 interface UploadFile {
   file: File;
   id: string;
-  status: 'pending' | 'uploading' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'uploading' | 'paused' | 'processing' | 'completed' | 'error';
   progress: number;
   error?: string;
   documentId?: string;
@@ -68,9 +74,17 @@ export default function DocumentUpload() {
   });
   const [isUploading, setIsUploading] = useState(false);
   const [tagInput, setTagInput] = useState('');
+  const [maxFileSize, setMaxFileSize] = useState(50 * 1024 * 1024);
   const { toast } = useToast();
   const { user } = useAuthStore();
 
+  // The size limit depends on the user's role
+  useEffect(() => {
+    getUploadLimits()
+      .then(limits => setMaxFileSize(limits.maxFileSize))
+      .catch(() => {});
+  }, []);
+
   // Mock data - in production, fetch from API
   const warehouses: Warehouse[] = [
     { id: 'wh-1', name: 'Main Warehouse', code: 'MW001' },
@@ -101,7 +115,7 @@ export default function DocumentUpload() {
       const errors = rejectedFiles.map(rejection => {
         const error = rejection.errors[0];
         if (error.code === 'file-too-large') {
-          return `${rejection.file.name}: File is too large (max 50MB)`;
+          return `${rejection.file.name}: File is too large (max ${formatFileSize(maxFileSize)})`;
         } else if (error.code === 'file-invalid-type') {
           return `${rejection.file.name}: Invalid file type`;
         } else {
@@ -115,7 +129,7 @@ export default function DocumentUpload() {
         variant: 'destructive',
       });
     }
-  }, [toast]);
+  }, [toast, maxFileSize]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -128,11 +142,15 @@ export default function DocumentUpload() {
       'image/jpeg': ['.jpg', '.jpeg'],
       'image/png': ['.png'],
     },
-    maxSize: 50 * 1024 * 1024, // 50MB
+    maxSize: maxFileSize,
     multiple: true,
   });
 
   const removeFile = (id: string) => {
+    const removed = files.find(f => f.id === id);
+    if (removed?.status === 'paused') {
+      discardResumable(removed.file);
+    }
     setFiles(prev => prev.filter(f => f.id !== id));
   };
 
@@ -176,98 +194,160 @@ export default function DocumentUpload() {
     
     for (const uploadFile of files) {
       if (uploadFile.status !== 'pending') continue;
+      await uploadOne(uploadFile);
+    }
 
-      try {
-        // Update status to uploading
-        setFiles(prev =>
-          prev.map(f =>
-            f.id === uploadFile.id
-              ? { ...f, status: 'uploading', progress: 0 }
-              : f
-          )
-        );
+    setIsUploading(false);
+    
+    // Check if all files were successfully uploaded
+    const successfulUploads = files.filter(f => f.status === 'completed').length;
+    const failedUploads = files.filter(f => f.status === 'error').length;
+    
+    if (successfulUploads > 0) {
+      toast({
+        title: 'Upload Complete',
+        description: `${successfulUploads} file(s) uploaded successfully${failedUploads > 0 ? `, ${failedUploads} failed` : ''}`,
+      });
+    }
+  };
 
-        // Prepare form data
-        const formData = new FormData();
-        formData.append('file', uploadFile.file);
-        
-        // Add metadata
-        formData.append('title', metadata.title);
-        formData.append('description', metadata.description || '');
-        formData.append('category', metadata.category);
-        formData.append('warehouseId', metadata.warehouseId);
-        formData.append('language', metadata.language);
-        formData.append('isPublic', metadata.isPublic.toString());
-        
-        if (metadata.departmentId) {
-          formData.append('departmentId', metadata.departmentId);
-        }
-        
-        if (metadata.tags.length > 0) {
-          formData.append('tags', JSON.stringify(metadata.tags));
+  // Files are sent in parts, so a dropped connection only costs the current part
+  const uploadOne = async (uploadFile: UploadFile) => {
+    try {
+      setFiles(prev =>
+        prev.map(f =>
+          f.id === uploadFile.id
+            ? { ...f, status: 'uploading', error: undefined }
+            : f
+        )
+      );
+
+      const result = await uploadResumable(
+        uploadFile.file,
+        {
+          title: metadata.title,
+          description: metadata.description || undefined,
+          category: metadata.category,
+          warehouseId: metadata.warehouseId,
+          departmentId: metadata.departmentId,
+          language: metadata.language,
+          isPublic: metadata.isPublic,
+          tags: metadata.tags,
+        },
+        (progress) => {
+          setFiles(prev =>
+            prev.map(f =>
+              f.id === uploadFile.id ? { ...f, progress } : f
+            )
+          );
         }
+      );
+
+      // Update status to processing
+      setFiles(prev =>
+        prev.map(f =>
+          f.id === uploadFile.id
+            ? { 
+                ...f, 
+                status: 'processing', 
+                progress: 100, 
+                documentId: result.document.id 
+              }
+            : f
+        )
+      );
+
+      // Poll for processing status
+      await pollProcessingStatus(uploadFile.id, result.document.id);
+
+    } catch (error: any) {
+      const duplicate = error.response?.status === 409 ? error.response.data?.duplicate : null;
+      if (duplicate) {
+        await discardResumable(uploadFile.file);
+        await handleDuplicate(uploadFile.id, duplicate, error.response.data.canLink);
+        return;
+      }
 
-        // Upload file with progress tracking
-        const response = await api.post('/documents/upload', formData, {
-          headers: {
-            'Content-Type': 'multipart/form-data',
-          },
-          onUploadProgress: (progressEvent) => {
-            const progress = progressEvent.total
-              ? Math.round((progressEvent.loaded * 100) / progressEvent.total)
-              : 0;
-            setFiles(prev =>
-              prev.map(f =>
-                f.id === uploadFile.id ? { ...f, progress } : f
-              )
-            );
-          },
-        });
-
-        // Update status to processing
-        setFiles(prev =>
-          prev.map(f =>
-            f.id === uploadFile.id
-              ? { 
-                  ...f, 
-                  status: 'processing', 
-                  progress: 100, 
-                  documentId: response.data.document.id 
-                }
-              : f
-          )
-        );
-
-        // Poll for processing status
-        await pollProcessingStatus(uploadFile.id, response.data.document.id);
-
-      } catch (error: any) {
-        console.error('Upload error:', error);
+      // Lost connection or a corrupted transfer: keep the parts and let the user resume
+      if (isConnectionError(error) || error.response?.data?.code === 'CHECKSUM_MISMATCH') {
         setFiles(prev =>
           prev.map(f =>
             f.id === uploadFile.id
-              ? { 
-                  ...f, 
-                  status: 'error', 
-                  error: error.response?.data?.error || 'Upload failed' 
+              ? {
+                  ...f,
+                  status: 'paused',
+                  error: isConnectionError(error)
+                    ? 'Connection lost. Resume when you are back online.'
+                    : error.response.data.error,
                 }
               : f
           )
         );
+        return;
       }
+
+      console.error('Upload error:', error);
+      setFiles(prev =>
+        prev.map(f =>
+          f.id === uploadFile.id
+            ? { 
+                ...f, 
+                status: 'error', 
+                error: error.response?.data?.error || 'Upload failed' 
+              }
+            : f
+        )
+      );
     }
+  };
 
+  const resumeFile = async (uploadFile: UploadFile) => {
+    setIsUploading(true);
+    await uploadOne(uploadFile);
     setIsUploading(false);
-    
-    // Check if all files were successfully uploaded
-    const successfulUploads = files.filter(f => f.status === 'completed').length;
-    const failedUploads = files.filter(f => f.status === 'error').length;
-    
-    if (successfulUploads > 0) {
-      toast({
-        title: 'Upload Complete',
-        description: `${successfulUploads} file(s) uploaded successfully${failedUploads > 0 ? `, ${failedUploads} failed` : ''}`,
+  };
+
+  // The same file is already in the warehouse: link it to the selected
+  // department instead of uploading and processing a copy
+  const handleDuplicate = async (
+    fileId: string,
+    duplicate: { id: string; title: string },
+    canLink: boolean
+  ) => {
+    const link = canLink && metadata.departmentId && window.confirm(
+      `This file was already uploaded as "${duplicate.title}". Link it to the selected department instead?`
+    );
+
+    if (!link) {
+      setFiles(prev =>
+        prev.map(f =>
+          f.id === fileId
+            ? { ...f, status: 'error', error: `Duplicate of "${duplicate.title}"`, documentId: duplicate.id }
+            : f
+        )
+      );
+      return;
+    }
+
+    try {
+      await api.post(`/documents/${duplicate.id}/departments`, {
+        departmentId: metadata.departmentId,
       });
+      setFiles(prev =>
+        prev.map(f =>
+          f.id === fileId
+            ? { ...f, status: 'completed', progress: 100, documentId: duplicate.id }
+            : f
+        )
+      );
+    } catch (error: any) {
+      setFiles(prev =>
+        prev.map(f =>
+          f.id === fileId
+            ? { ...f, status: 'error', error: error.response?.data?.error || 'Linking failed' }
+            : f
+        )
+      );
     }
   };
 
@@ -343,6 +423,8 @@ export default function DocumentUpload() {
       case 'uploading':
       case 'processing':
         return <Loader2 className="h-4 w-4 animate-spin" />;
+      case 'paused':
+        return <PauseCircle className="h-4 w-4 text-yellow-500" />;
       case 'completed':
         return <CheckCircle className="h-4 w-4 text-green-500" />;
       case 'error':
@@ -356,6 +438,8 @@ export default function DocumentUpload() {
         return 'default';
       case 'uploading':
         return 'secondary';
+      case 'paused':
+        return 'outline';
       case 'processing':
         return 'secondary';
       case 'completed':
@@ -569,7 +653,7 @@ export default function DocumentUpload() {
             <>
               <p className="text-lg mb-2">Drag & drop files here, or click to select</p>
               <p className="text-sm text-gray-500">
-                Supports PDF, Word, Excel, PowerPoint, Text, and Images (max 50MB per file)
+                Supports PDF, Word, Excel, PowerPoint, Text, and Images (max {formatFileSize(maxFileSize)} per file)
               </p>
             </>
           )}
@@ -622,7 +706,27 @@ export default function DocumentUpload() {
                     </div>
                   )}
                   
-                  {file.status === 'pending' && !isUploading && (
+                  {file.status === 'paused' && (
+                    <div className="w-32">
+                      <Progress value={file.progress} />
+                      <p className="text-xs text-gray-500 mt-1 text-center">
+                        {file.progress}%
+                      </p>
+                    </div>
+                  )}
+
+                  {file.status === 'paused' && !isUploading && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => resumeFile(file)}
+                    >
+                      <RotateCw className="mr-1 h-4 w-4" />
+                      Resume
+                    </Button>
+                  )}
+
+                  {(file.status === 'pending' || file.status === 'paused') && !isUploading && (
                     <Button
                       variant="ghost"
                       size="sm"
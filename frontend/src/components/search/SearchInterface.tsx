@@ -1,7 +1,7 @@
 // frontend/src/components/search/SearchInterface.tsx
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Search, Mic, MicOff, Filter, Loader2, X, ChevronDown, FileText, Clock, Tag } from 'lucide-react';
+import { Search, Mic, MicOff, Filter, Loader2, X, ChevronDown, FileText, Clock, Tag, Globe } from 'lucide-react';
 import { useSearch } from '@/hooks/useSearch';
 import { useVoiceInput } from '@/hooks/useVoiceInput';
 import { SearchResults } from './SearchResults';
@@ -15,6 +15,18 @@ import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
+// "Forklift SOP, p. 12, §3.2 Battery change"
+function formatSourceLocation(title: string, page?: number | null, section?: string | null) {
+  const parts = [title];
+  if (page !== null && page !== undefined) {
+    parts.push(`p. ${page}`);
+  }
+  if (section) {
+    parts.push(/^\d/.test(section) ? `§${section}` : section);
+  }
+  return parts.join(', ');
+}
+
 interface SearchInterfaceProps {
   className?: string;
   departmentId?: string;
@@ -34,6 +46,7 @@ export function SearchInterface({
 }: SearchInterfaceProps) {
   const [query, setQuery] = useState('');
   const [language, setLanguage] = useState<'ar' | 'en' | 'de'>('en');
+  const [crossLingual, setCrossLingual] = useState(false);
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
   const [selectedTab, setSelectedTab] = useState<'all' | 'documents' | 'answers'>('all');
   const [filters, setFilters] = useState<any>({
@@ -98,11 +111,12 @@ export function SearchInterface({
       filters,
       language,
       includeAnswer: showAIAnswer,
+      crossLingual,
       limit: 20
     });
 
     setShowSuggestions(false);
-  }, [query, filters, language, showAIAnswer, search, recentSearches]);
+  }, [query, filters, language, crossLingual, showAIAnswer, search, recentSearches]);
 
   // Handle voice input toggle
   const toggleVoiceInput = useCallback(() => {
@@ -150,6 +164,15 @@ export function SearchInterface({
         <div className="space-y-4">
           {/* Language Selector */}
           <div className="flex justify-end gap-2 mb-4">
+            <Button
+              variant={crossLingual ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setCrossLingual(!crossLingual)}
+              title="Also search documents written in other languages"
+            >
+              <Globe className="h-4 w-4 mr-1" />
+              All languages
+            </Button>
             <Button
               variant={language === 'en' ? 'default' : 'outline'}
               size="sm"
@@ -366,11 +389,31 @@ export function SearchInterface({
                   </h3>
                   <div className="prose max-w-none">
                     <p>{aiAnswer.text}</p>
-                    {aiAnswer.sources && aiAnswer.sources.length > 0 && (
+                    {aiAnswer.grounded === false && (
+                      <div className="mt-3 text-sm text-amber-700">
+                        ⚠️ This answer does not cite any retrieved document. Verify it before acting on it.
+                      </div>
+                    )}
+                    {aiAnswer.validityWarning && (
+                      <div className="mt-3 text-sm text-amber-700">
+                        ⚠️ {aiAnswer.validityWarning.message}{' '}
+                        ({aiAnswer.validityWarning.documents.map(d => d.title).join(', ')})
+                      </div>
+                    )}
+                    {aiAnswer.citations && aiAnswer.citations.length > 0 ? (
+                      <ol className="mt-3 text-sm text-gray-600 list-none pl-0">
+                        {aiAnswer.citations.map((c: any) => (
+                          <li key={c.marker}>
+                            [{c.marker}] {formatSourceLocation(c.title, c.page, c.section)}
+                          </li>
+                        ))}
+                      </ol>
+                    ) : aiAnswer.sources && aiAnswer.sources.length > 0 && (
                       <div className="mt-3 text-sm text-gray-600">
                         Sources: {aiAnswer.sources.map((s: any, i: number) => (
                           <span key={s.id}>
-                            {s.title}
+                            {formatSourceLocation(s.title, s.page, s.headingPath?.[s.headingPath.length - 1])}
+                            {s.language && s.language !== language && ` (${s.language.toUpperCase()})`}
                             {i < aiAnswer.sources.length - 1 && ', '}
                           </span>
                         ))}
@@ -2,7 +2,7 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { searchApi } from '@/services/searchApi';
+import { searchApi, ConversationMessage } from '@/services/searchApi';
 import { useDebounce } from '@/hooks/useDebounce';
 import { toast } from 'sonner';
 
@@ -10,6 +10,7 @@ interface SearchOptions {
   filters?: any;
   language?: 'ar' | 'en' | 'de';
   includeAnswer?: boolean;
+  crossLingual?: boolean;
   limit?: number;
   offset?: number;
 }
@@ -20,6 +21,7 @@ interface SearchResult {
   score: number;
   documentId: string;
   documentTitle?: string;
+  language?: string;
   highlights?: string[];
   source?: {
     type: string;
@@ -29,8 +31,16 @@ interface SearchResult {
 }
 
 interface AIAnswer {
+  queryId?: string | null;
   text: string;
-  confidence: number;
+  confidence: number | null;
+  verdict?: 'accept' | 'soften' | 'refuse' | null;
+  grounded?: boolean;
+  citations?: any[];
+  validityWarning?: {
+    message: string;
+    documents: Array<{ documentId: string; title: string; status: string }>;
+  } | null;
   sources: any[];
   relatedQuestions?: string[];
   usage?: {
@@ -41,6 +51,12 @@ interface AIAnswer {
   };
 }
 
+interface ChatState {
+  conversationId: string | null;
+  messages: ConversationMessage[];
+  isSending: boolean;
+}
+
 interface SearchState {
   query: string;
   results: SearchResult[];
@@ -69,6 +85,13 @@ export function useSearch() {
     hasMore: false
   });
 
+  const [chat, setChat] = useState<ChatState>({
+    conversationId: null,
+    messages: [],
+    isSending: false
+  });
+  const [chatMode, setChatMode] = useState(false);
+
   const [searchOptions, setSearchOptions] = useState<SearchOptions>({
     limit: 20,
     offset: 0,
@@ -94,6 +117,14 @@ export function useSearch() {
     staleTime: 10 * 60 * 1000, // 10 minutes
   });
 
+  // Get conversations (chat mode only)
+  const { data: conversations, refetch: refetchConversations } = useQuery({
+    queryKey: ['conversations'],
+    queryFn: () => searchApi.listConversations(),
+    enabled: chatMode,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
   // Main search mutation
   const searchMutation = useMutation({
     mutationFn: async ({ query, options }: { query: string; options?: SearchOptions }) => {
@@ -291,6 +322,109 @@ export function useSearch() {
     }
   }, []);
 
+  // Open an existing conversation and load its messages
+  const openConversation = useCallback(async (conversationId: string) => {
+    try {
+      const conversation = await searchApi.getConversation(conversationId);
+      setChatMode(true);
+      setChat({
+        conversationId: conversation.id,
+        messages: conversation.messages,
+        isSending: false
+      });
+    } catch (error) {
+      toast.error('Failed to load conversation');
+    }
+  }, []);
+
+  // Start a fresh conversation; it is created on the first message
+  const startChat = useCallback(() => {
+    setChatMode(true);
+    setChat({ conversationId: null, messages: [], isSending: false });
+  }, []);
+
+  const exitChat = useCallback(() => {
+    setChatMode(false);
+    setChat({ conversationId: null, messages: [], isSending: false });
+  }, []);
+
+  // Send a chat message; follow-ups are answered with the conversation history
+  const sendMessage = useCallback(async (
+    content: string,
+    options?: {
+      type?: 'qa' | 'summary' | 'explanation' | 'troubleshooting' | 'safety';
+    }
+  ) => {
+    const language = searchOptions.language || 'en';
+    const pending: ConversationMessage = {
+      id: `pending-${Date.now()}`,
+      conversationId: chat.conversationId || '',
+      role: 'user',
+      content,
+      tokensUsed: null,
+      createdAt: new Date().toISOString()
+    };
+
+    setChat(prev => ({ ...prev, messages: [...prev.messages, pending], isSending: true }));
+
+    try {
+      let conversationId = chat.conversationId;
+      if (!conversationId) {
+        const conversation = await searchApi.createConversation({ language });
+        conversationId = conversation.id;
+      }
+
+      const answer = await searchApi.generateAIAnswer(content, {
+        ...options,
+        language,
+        conversationId
+      });
+
+      setChat(prev => ({
+        conversationId,
+        isSending: false,
+        messages: [
+          ...prev.messages,
+          {
+            id: answer.queryId || `answer-${Date.now()}`,
+            conversationId: conversationId as string,
+            role: 'assistant',
+            content: answer.answer ?? answer.text,
+            metadata: {
+              citations: answer.citations,
+              confidence: answer.confidence,
+              verdict: answer.verdict,
+              rewrittenQuery: answer.rewrittenQuery
+            },
+            tokensUsed: answer.usage?.completionTokens ?? null,
+            createdAt: new Date().toISOString()
+          }
+        ]
+      }));
+      setState(prev => ({ ...prev, aiAnswer: answer }));
+      refetchConversations();
+
+      return answer;
+    } catch (error: any) {
+      setChat(prev => ({ ...prev, isSending: false }));
+      toast.error('Failed to send message');
+      throw error;
+    }
+  }, [chat.conversationId, searchOptions.language, refetchConversations]);
+
+  const renameConversation = useCallback(async (conversationId: string, title: string) => {
+    await searchApi.updateConversation(conversationId, { title });
+    refetchConversations();
+  }, [refetchConversations]);
+
+  const archiveConversation = useCallback(async (conversationId: string) => {
+    await searchApi.updateConversation(conversationId, { archived: true });
+    if (chat.conversationId === conversationId) {
+      exitChat();
+    }
+    refetchConversations();
+  }, [chat.conversationId, exitChat, refetchConversations]);
+
   // Submit feedback
   const submitFeedback = useCallback(async (
     searchId: string,
@@ -343,6 +477,13 @@ export function useSearch() {
     suggestions: state.suggestions,
     hasMore: state.hasMore,
     searchHistory,
+
+    // Chat mode
+    chatMode,
+    conversationId: chat.conversationId,
+    messages: chat.messages,
+    isSending: chat.isSending,
+    conversations: conversations || [],
     
     // Actions
     search,
@@ -351,6 +492,12 @@ export function useSearch() {
     searchInDocument,
     findSimilar,
     generateAnswer,
+    startChat,
+    exitChat,
+    openConversation,
+    sendMessage,
+    renameConversation,
+    archiveConversation,
     submitFeedback,
     setQuery: (query: string) => setState(prev => ({ ...prev, query })),
     setOptions: setSearchOptions
@@ -189,6 +189,63 @@ export const api = {
     list: (params?: any) => apiClient.get('/documents', { params }),
     get: (id: string) => apiClient.get(`/documents/${id}`),
     delete: (id: string) => apiClient.delete(`/documents/${id}`),
+    uploadVersion: (id: string, formData: FormData) =>
+      apiClient.post(`/documents/${id}/versions`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      }),
+    versions: (id: string) => apiClient.get(`/documents/${id}/versions`),
+    import: (formData: FormData) =>
+      apiClient.post('/documents/import', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      }),
+    importStatus: (importId: string) =>
+      apiClient.get(`/documents/import/${importId}`),
+    linkDepartment: (id: string, departmentId: string) =>
+      apiClient.post(`/documents/${id}/departments`, { departmentId }),
+    downloadUrl: (id: string, version?: number) =>
+      apiClient.get(`/documents/${id}/url`, { params: { version } }),
+    getReview: (id: string) =>
+      apiClient.get(`/documents/${id}/review`),
+    submitForReview: (id: string, reviewerIds: string[]) =>
+      apiClient.post(`/documents/${id}/review/submit`, { reviewerIds }),
+    decideReview: (id: string, decision: 'approved' | 'rejected', comment?: string) =>
+      apiClient.post(`/documents/${id}/review/decision`, { decision, comment }),
+    addReviewComment: (id: string, body: string) =>
+      apiClient.post(`/documents/${id}/review/comments`, { body }),
+    assignedReviews: () =>
+      apiClient.get('/documents/reviews/assigned'),
+    updateValidity: (
+      id: string,
+      dates: { validFrom?: string | null; reviewDueAt?: string | null; expiresAt?: string | null }
+    ) => apiClient.patch(`/documents/${id}/validity`, dates),
+    shares: (id: string) =>
+      apiClient.get(`/documents/${id}/shares`),
+    share: (id: string, grant: { userId?: string; departmentId?: string; expiresAt?: string }) =>
+      apiClient.post(`/documents/${id}/shares`, grant),
+    revokeShare: (id: string, shareId: string) =>
+      apiClient.delete(`/documents/${id}/shares/${shareId}`),
+  },
+
+  // In-app notifications
+  notifications: {
+    list: (params?: { unread?: boolean; limit?: number }) =>
+      apiClient.get('/notifications', { params }),
+    markRead: (id: string) =>
+      apiClient.post(`/notifications/${id}/read`),
+    markAllRead: () =>
+      apiClient.post('/notifications/read'),
+  },
+
+  // Failed document processing (Admin)
+  processing: {
+    failures: (params?: { category?: string; page?: number; limit?: number }) =>
+      apiClient.get('/processing/failures', { params }),
+    failure: (documentId: string) =>
+      apiClient.get(`/processing/failures/${documentId}`),
+    retry: (data: { documentIds?: string[]; category?: string }) =>
+      apiClient.post('/processing/failures/retry', data),
+    discard: (data: { documentIds?: string[]; category?: string }) =>
+      apiClient.post('/processing/failures/discard', data),
   },
 
   // Search (placeholder for future)
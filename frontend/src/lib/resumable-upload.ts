@@ -0,0 +1,132 @@
+// wmlab/frontend/lib/resumable-upload.ts
+import api from '@/lib/api';
+
+export interface UploadSession {
+  id: string;
+  size: number;
+  partSize: number;
+  totalParts: number;
+  receivedParts: number[];
+  missingParts: number[];
+  receivedBytes: number;
+  status: 'uploading' | 'completed';
+  documentId: string | null;
+}
+
+export interface UploadLimits {
+  maxFileSize: number;
+  partSize: number;
+  allowedTypes: string[];
+}
+
+const STORAGE_PREFIX = 'resumableUpload:';
+const PART_RETRIES = 3;
+
+// The same file picked again (e.g. after a reload) continues its session
+const storageKey = (file: File) => `${STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+export const sha256Hex = async (data: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// No response at all means the connection dropped, not that the server refused
+export const isConnectionError = (error: any) => !error.response;
+
+const isRetryable = (error: any) =>
+  isConnectionError(error) || error.response.status >= 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const withRetries = async <T>(request: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= PART_RETRIES || !isRetryable(error)) throw error;
+      await sleep(1000 * 2 ** attempt);
+    }
+  }
+};
+
+export const getUploadLimits = async (): Promise<UploadLimits> => {
+  const response = await api.get('/documents/uploads/limits');
+  return response.data;
+};
+
+const openSession = async (file: File, metadata: Record<string, any>): Promise<UploadSession> => {
+  const savedId = localStorage.getItem(storageKey(file));
+  if (savedId) {
+    try {
+      const response = await api.get(`/documents/uploads/${savedId}`);
+      if (response.data.upload.status === 'uploading') {
+        return response.data.upload;
+      }
+    } catch (error) {
+      if (isConnectionError(error)) throw error;
+      // Expired or cancelled; start over below
+    }
+    localStorage.removeItem(storageKey(file));
+  }
+
+  const response = await api.post('/documents/uploads', {
+    ...metadata,
+    originalName: file.name,
+    mimeType: file.type,
+    size: file.size,
+    checksum: await sha256Hex(file),
+  });
+
+  localStorage.setItem(storageKey(file), response.data.upload.id);
+  return response.data.upload;
+};
+
+/**
+ * Upload a file in parts, skipping the parts the server already has.
+ * Resolves with the complete response ({ document } or { duplicate, linked }).
+ */
+export const uploadResumable = async (
+  file: File,
+  metadata: Record<string, any>,
+  onProgress: (progress: number) => void
+) => {
+  const session = await openSession(file, metadata);
+  let receivedBytes = session.receivedBytes;
+  onProgress(Math.round((receivedBytes * 100) / file.size));
+
+  for (const partNumber of session.missingParts) {
+    const start = partNumber * session.partSize;
+    const part = file.slice(start, Math.min(start + session.partSize, file.size));
+    const checksum = await sha256Hex(part);
+
+    await withRetries(() =>
+      api.put(`/documents/uploads/${session.id}/parts/${partNumber}`, part, {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-Part-Checksum': checksum,
+        },
+      })
+    );
+
+    receivedBytes += part.size;
+    onProgress(Math.round((receivedBytes * 100) / file.size));
+  }
+
+  // Not retried: a repeated complete after a lost response would be rejected
+  const response = await api.post(`/documents/uploads/${session.id}/complete`, {});
+  localStorage.removeItem(storageKey(file));
+  return response.data;
+};
+
+/**
+ * Drop the file's session, e.g. after it turned out to be a duplicate
+ */
+export const discardResumable = async (file: File) => {
+  const savedId = localStorage.getItem(storageKey(file));
+  localStorage.removeItem(storageKey(file));
+  if (savedId) {
+    await api.delete(`/documents/uploads/${savedId}`).catch(() => {});
+  }
+};
@@ -46,11 +46,20 @@ export interface SearchQuery {
   limit?: number;
   offset?: number;
   filters?: SearchFilters;
+  mode?: SearchMode;
+  weights?: {
+    vector?: number;
+    keyword?: number;
+  };
   includeAnswer?: boolean;
   includeMetadata?: boolean;
+  crossLingual?: boolean;
+  collapseDuplicates?: boolean;
   stream?: boolean;
 }
 
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
 export interface SearchFilters {
   departmentId?: string;
   warehouseId?: string;
@@ -60,6 +69,9 @@ export interface SearchFilters {
   dateTo?: string;
   tags?: string[];
   categories?: string[];
+  documentId?: string;
+  version?: number; // search an older version instead of the current one
+  allVersions?: boolean;
 }
 
 export interface SearchResult {
@@ -69,8 +81,16 @@ export interface SearchResult {
   documentId: string;
   documentTitle?: string;
   pageNumber?: number;
+  headingPath?: string[];
+  version?: number;
+  isCurrentVersion?: boolean;
+  language?: string;
+  matchedQuery?: string; // translated query that found it (cross-lingual search)
   metadata?: any;
   highlights?: string[];
+  duplicates?: Array<{ id: string; documentId: string; documentTitle?: string }>; // near-identical chunks folded in
+  vectorScore?: number;
+  keywordScore?: number;
   source?: {
     type: string;
     url?: string;
@@ -86,18 +106,63 @@ export interface SearchResponse {
     totalCount: number;
     executionTime: number;
     filters: SearchFilters;
+    mode: SearchMode;
+    detectedLanguage?: {
+      language: string;
+      confidence: number;
+      reliable: boolean;
+    } | null;
+    queryTranslations?: Record<string, string>;
     suggestions?: string[];
     answer?: AIAnswer;
   };
 }
 
+export interface Citation {
+  marker: number;
+  chunkId: string;
+  documentId: string;
+  title: string;
+  page: number | null;
+  section: string | null;
+}
+
+export type GroundingVerdict = 'accept' | 'soften' | 'refuse';
+
+export type ValidityStatus = 'valid' | 'not_yet_valid' | 'review_due' | 'expired';
+
+// Set when the answer relies on documents overdue for review or expired
+export interface ValidityWarning {
+  message: string;
+  documents: Array<{
+    documentId: string;
+    title: string;
+    status: ValidityStatus;
+    reviewDueAt: string | null;
+    expiresAt: string | null;
+  }>;
+}
+
 export interface AIAnswer {
+  queryId?: string | null;
+  language?: 'ar' | 'en' | 'de';
+  conversationId?: string | null;
+  rewrittenQuery?: string | null;
   text: string;
-  confidence: number;
+  answer?: string; // POST /search/answer returns the text under this key
+  confidence: number | null;
+  verdict?: GroundingVerdict | null;
+  grounded?: boolean;
+  citations?: Citation[];
+  validityWarning?: ValidityWarning | null;
   sources: Array<{
     id: string;
     title: string;
+    page?: number | null;
+    headingPath?: string[];
+    language?: string | null;
     score: number;
+    validity?: ValidityStatus | null;
   }>;
   relatedQuestions?: string[];
   usage?: {
@@ -117,6 +182,29 @@ export interface AnswerRequest {
   stream?: boolean;
 }
 
+export interface Conversation {
+  id: string;
+  title: string | null;
+  language: 'ar' | 'en' | 'de';
+  departmentId: string | null;
+  tokensUsed: number;
+  messageCount: number;
+  lastMessageAt: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationMessage {
+  id: string;
+  conversationId: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  metadata?: any;
+  tokensUsed: number | null;
+  createdAt: string;
+}
+
 export interface FeedbackRequest {
   searchId: string;
   resultId?: string | null;
@@ -210,7 +298,15 @@ class SearchApiService {
     options: Partial<AnswerRequest>,
     onChunk: (chunk: string) => void,
     onComplete: () => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    onCitations?: (
+      citations: Citation[],
+      grounded: boolean,
+      confidence: number | null,
+      verdict: GroundingVerdict | null,
+      /** Refused or softened answer that replaces the streamed text */
+      answer: string | null
+    ) => void
   ): Promise<void> {
     try {
       const token = getAuthToken();
@@ -224,19 +320,74 @@ class SearchApiService {
           onComplete();
         } else {
           const data = JSON.parse(event.data);
-          onChunk(data.content);
+          if (data.citations) {
+            onCitations?.(data.citations, data.grounded, data.confidence, data.verdict, data.answer ?? null);
+          } else {
+            onChunk(data.content);
+          }
         }
       };
 
+      // Also receives the server's `error` event when generation fails mid-stream
       eventSource.onerror = (error) => {
         eventSource.close();
-        onError(new Error('Stream connection failed'));
+        const message = error instanceof MessageEvent && error.data
+          ? JSON.parse(error.data).error
+          : 'Stream connection failed';
+        onError(new Error(message));
       };
     } catch (error: any) {
       onError(error);
     }
   }
 
+  /**
+   * Start a conversation
+   */
+  async createConversation(options?: {
+    title?: string;
+    language?: 'ar' | 'en' | 'de';
+    departmentId?: string;
+  }): Promise<Conversation> {
+    const { data } = await apiClient.post('/search/conversations', options || {});
+    return data.data;
+  }
+
+  /**
+   * List the user's conversations
+   */
+  async listConversations(
+    includeArchived: boolean = false,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<Conversation[]> {
+    const { data } = await apiClient.get('/search/conversations', {
+      params: { includeArchived, limit, offset },
+    });
+    return data.data;
+  }
+
+  /**
+   * Get a conversation with its messages
+   */
+  async getConversation(
+    conversationId: string
+  ): Promise<Conversation & { messages: ConversationMessage[] }> {
+    const { data } = await apiClient.get(`/search/conversations/${conversationId}`);
+    return data.data;
+  }
+
+  /**
+   * Rename or archive a conversation
+   */
+  async updateConversation(
+    conversationId: string,
+    updates: { title?: string; archived?: boolean }
+  ): Promise<Conversation> {
+    const { data } = await apiClient.patch(`/search/conversations/${conversationId}`, updates);
+    return data.data;
+  }
+
   /**
    * Get autocomplete suggestions
    */